@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { mkdtemp, mkdir, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+
+const run = promisify(execFile);
+const script = path.join(import.meta.dirname, "analyze.ts");
+// Runs in a scratch folder, so tsx is loaded from this repo's dependencies.
+const tsx = import.meta.resolve("tsx");
+
+const analyze = async (cwd: string, ...args: string[]) =>
+  (await run(process.execPath, ["--import", tsx, script, "-p", "mock", "-c", "1", "-o", "notes", ...args], { cwd })).stdout;
+
+test("files already analyzed are skipped, and different files with one name get distinct notes", async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), "deepread-cli-"));
+  try {
+    await mkdir(path.join(dir, "a"));
+    await mkdir(path.join(dir, "b"));
+    await writeFile(path.join(dir, "a", "reading.md"), "# Reading\n\nFirst text.\n");
+    await writeFile(path.join(dir, "b", "reading.md"), "# Reading\n\nSecond text.\n");
+    await writeFile(path.join(dir, "b", "copy.md"), "# Reading\n\nFirst text.\n");
+
+    assert.match(await analyze(dir, "a", "b"), /2 analyzed, 1 skipped, 0 failed/);
+    const notes = (await readdir(path.join(dir, "notes"))).filter(f => f.endsWith(".md")).sort();
+    assert.equal(notes.length, 2);
+    assert.ok(notes.includes("reading.md"));
+    assert.ok(notes.some(f => /^reading-[0-9a-f]{8}\.md$/.test(f)));
+
+    const index = JSON.parse(await readFile(path.join(dir, "notes", "deepread-index.json"), "utf8"));
+    assert.deepEqual(Object.values(index).map(r => (r as { file: string }).file).sort(), ["../a/reading.md", "../b/reading.md"]);
+
+    assert.match(await analyze(dir, "a", "b"), /0 analyzed, 3 skipped, 0 failed/);
+
+    // A deleted note makes its file count as new again, under the same name.
+    await rm(path.join(dir, "notes", "reading.md"));
+    assert.match(await analyze(dir, "a", "b"), /1 analyzed, 2 skipped, 0 failed/);
+    assert.ok((await readdir(path.join(dir, "notes"))).includes("reading.md"));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
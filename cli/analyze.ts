@@ -0,0 +1,220 @@
+import { readFile, readdir, stat, writeFile, mkdir, access } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { PROVIDER_OPTIONS, createProvider, type ModelProvider } from "../services/providers";
+import { BUILT_IN_PROFILES, findProfile } from "../services/profiles";
+import { analyzeSource, createEntry, readSource } from "../services/pipeline";
+import { SUPPORTED_EXTENSIONS } from "../services/extraction";
+import { EXPORTERS } from "../services/exporters";
+import { toErrorInfo } from "../services/errors";
+import { formatCost, formatTokens, summarizeUsage, trackUsage } from "../services/usage";
+import type { AnalysisProfile, UsageRecord } from "../types";
+
+// Analyzes files and folders without the UI, writing a Markdown note and the AnalysisData JSON for each.
+// Files whose content was already analyzed into the output folder are skipped.
+
+const USAGE = `Usage: npm run analyze -- [options] <file or folder>...
+
+Options:
+  -o, --out <dir>          Where to write notes (default: deepread-notes)
+  -c, --concurrency <n>    Files analyzed at the same time (default: 2)
+  -p, --provider <id>      ${PROVIDER_OPTIONS.map(p => p.id).join(", ")} (default: gemini)
+  -m, --model <name>       Model to use (default: the provider's)
+      --endpoint <url>     Base URL for the openai and server providers
+      --profile <id>       ${BUILT_IN_PROFILES.map(p => p.id).join(", ")} (default: general)
+      --language <name>    Write the notes in this language instead of the document's
+  -f, --force              Analyze files again even if they were already processed
+  -h, --help               Show this help
+
+The API key is read from GEMINI_API_KEY, or DEEPREAD_API_KEY for other providers.`;
+
+const INDEX_FILE = "deepread-index.json";
+
+// --- Index of processed files ---
+
+interface IndexRecord {
+  file: string;
+  markdown: string;
+  json: string;
+  title: string;
+  analyzedAt: string;
+}
+
+type ProcessedIndex = Record<string, IndexRecord>;
+
+const loadIndex = async (outDir: string): Promise<ProcessedIndex> => {
+  try {
+    return JSON.parse(await readFile(path.join(outDir, INDEX_FILE), "utf8"));
+  } catch {
+    return {};
+  }
+};
+
+const exists = (file: string) => access(file).then(() => true, () => false);
+
+// Processed means the outputs are still there; deleting a note makes its file count as new again.
+const isProcessed = async (outDir: string, record?: IndexRecord) =>
+  !!record && (await exists(path.join(outDir, record.markdown))) && (await exists(path.join(outDir, record.json)));
+
+// --- Inputs ---
+
+// Folders are searched for supported extensions; files named directly are always tried.
+const collectFiles = async (inputs: string[]): Promise<string[]> => {
+  const files: string[] = [];
+  const walk = async (dir: string) => {
+    for (const entry of (await readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name))) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory() && !entry.name.startsWith(".")) await walk(full);
+      else if (entry.isFile() && SUPPORTED_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) files.push(full);
+    }
+  };
+  for (const input of inputs) {
+    if ((await stat(input)).isDirectory()) await walk(input);
+    else files.push(input);
+  }
+  return [...new Set(files.map(file => path.resolve(file)))];
+};
+
+// Runs `work` over the items with at most `limit` in flight.
+const pool = async <T>(items: T[], limit: number, work: (item: T) => Promise<void>) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await work(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+};
+
+// --- Run ---
+
+interface Outcome {
+  file: string;
+  status: "done" | "skipped" | "failed";
+  detail: string;
+}
+
+const providerFrom = (values: { provider?: string; model?: string; endpoint?: string }, env = process.env): ModelProvider => {
+  const option = PROVIDER_OPTIONS.find(p => p.id === (values.provider ?? "gemini"));
+  if (!option) throw new Error(`Unknown provider "${values.provider}".`);
+  const apiKey = (option.id === "gemini" ? env.GEMINI_API_KEY : env.DEEPREAD_API_KEY) ?? "";
+  return createProvider({
+    provider: option.id,
+    model: values.model ?? option.defaults.model,
+    endpoint: values.endpoint ?? (option.id === "server" ? "http://localhost:8787/api" : option.defaults.endpoint),
+    apiKey,
+  });
+};
+
+const seconds = (since: number) => `${((Date.now() - since) / 1000).toFixed(1)} s`;
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: "string", short: "o", default: "deepread-notes" },
+      concurrency: { type: "string", short: "c", default: "2" },
+      provider: { type: "string", short: "p" },
+      model: { type: "string", short: "m" },
+      endpoint: { type: "string" },
+      profile: { type: "string", default: BUILT_IN_PROFILES[0].id },
+      language: { type: "string" },
+      force: { type: "boolean", short: "f", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  if (values.help || !positionals.length) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const concurrency = Math.max(1, Number(values.concurrency) || 1);
+  const profile: AnalysisProfile = findProfile(BUILT_IN_PROFILES, values.profile!);
+  if (profile.id !== values.profile) throw new Error(`Unknown profile "${values.profile}".`);
+  const provider = providerFrom(values);
+  const outDir = path.resolve(values.out!);
+  await mkdir(outDir, { recursive: true });
+
+  const files = await collectFiles(positionals);
+  const index = await loadIndex(outDir);
+  const markdown = EXPORTERS.find(e => e.id === "markdown")!;
+  const outcomes: Outcome[] = [];
+  // Hashes being analyzed in this run, so a file listed twice is only analyzed once.
+  const claimed = new Map<string, string>();
+  // Output names and the content they hold. Same name as the source; other content under that name gets its hash appended.
+  const names = new Map(Object.entries(index).map(([hash, record]) => [path.basename(record.json, ".json"), hash]));
+  const claimName = (file: string, contentHash: string) => {
+    const stem = path.basename(file, path.extname(file)).replace(/[^\p{L}\p{N}._-]+/gu, "_");
+    const name = (names.get(stem) ?? contentHash) === contentHash ? stem : `${stem}-${contentHash.slice(0, 8)}`;
+    names.set(name, contentHash);
+    return name;
+  };
+  const started = Date.now();
+  let finished = 0;
+  const usage: UsageRecord[] = [];
+  const spent = (records: UsageRecord[]) => {
+    const summary = summarizeUsage(records);
+    return `${formatTokens(summary.inputTokens + summary.outputTokens)} tokens, ${formatCost(summary.cost)}`;
+  };
+
+  console.error(`Analyzing ${files.length} file(s) with ${provider.id} ${provider.model}, ${concurrency} at a time → ${outDir}`);
+
+  // The index file is rewritten after every file, so an interrupted run keeps what it finished.
+  let saving = Promise.resolve();
+  const saveIndex = () =>
+    (saving = saving.then(() => writeFile(path.join(outDir, INDEX_FILE), JSON.stringify(index, null, 2))));
+
+  const report = (outcome: Outcome) => {
+    outcomes.push(outcome);
+    const mark = outcome.status === "done" ? "✓" : outcome.status === "skipped" ? "–" : "✗";
+    console.error(`[${++finished}/${files.length}] ${mark} ${path.relative(process.cwd(), outcome.file)}: ${outcome.detail}`);
+  };
+
+  await pool(files, concurrency, async file => {
+    const fileStarted = Date.now();
+    try {
+      const { source, contentHash } = await readSource(path.basename(file), new Uint8Array(await readFile(file)));
+      const duplicate = claimed.get(contentHash);
+      if (duplicate) return report({ file, status: "skipped", detail: `same content as ${path.basename(duplicate)}` });
+      claimed.set(contentHash, file);
+      if (!values.force && (await isProcessed(outDir, index[contentHash]))) {
+        return report({ file, status: "skipped", detail: `already processed (${index[contentHash].markdown})` });
+      }
+
+      const calls: UsageRecord[] = [];
+      const tracked = trackUsage(provider, record => {
+        calls.push(record);
+        usage.push(record);
+      });
+      const { analysis } = await analyzeSource(tracked, source, { profile, language: values.language });
+      const entry = createEntry({ source, contentHash }, provider, analysis);
+      const name = claimName(file, contentHash);
+      await writeFile(path.join(outDir, `${name}.md`), markdown.build({ ...entry, analysis }) as string);
+      await writeFile(path.join(outDir, `${name}.json`), JSON.stringify(analysis, null, 2));
+      index[contentHash] = {
+        file: path.relative(outDir, file),
+        markdown: `${name}.md`,
+        json: `${name}.json`,
+        title: analysis.metadata.title,
+        analyzedAt: entry.analyzedAt,
+      };
+      await saveIndex();
+      report({ file, status: "done", detail: `${name}.md (${seconds(fileStarted)}, ${spent(calls)})` });
+    } catch (err) {
+      report({ file, status: "failed", detail: toErrorInfo(err, "Analysis failed.").message });
+    }
+  });
+
+  const count = (status: Outcome["status"]) => outcomes.filter(o => o.status === status).length;
+  console.log(`\n${count("done")} analyzed, ${count("skipped")} skipped, ${count("failed")} failed in ${seconds(started)} (${spent(usage)})`);
+  const failures = outcomes.filter(o => o.status === "failed");
+  if (failures.length) {
+    console.log("\nFailed:");
+    for (const f of failures) console.log(`  ${path.relative(process.cwd(), f.file)}: ${f.detail}`);
+    process.exitCode = 1;
+  }
+};
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,174 @@
+import React, { useState } from "react";
+import { MessageSquarePlus, Pencil, Star, ThumbsDown } from "lucide-react";
+import type { Annotation, AnnotationFlag, AnnotationTarget, HighlightColor, UserNotes } from "../types";
+import {
+  FLAG_LABELS,
+  HIGHLIGHT_COLORS,
+  createAnnotation,
+  findAnnotation,
+  parseTags,
+  removeAnnotation,
+  saveAnnotation,
+} from "../services/annotations";
+
+const FLAG_ICONS: Record<AnnotationFlag, React.ElementType> = { important: Star, disagree: ThumbsDown };
+
+const FLAG_STYLES: Record<AnnotationFlag, string> = {
+  important: "bg-amber-50 text-amber-700 border-amber-200",
+  disagree: "bg-red-50 text-red-700 border-red-200",
+};
+
+// Background for a highlighted title, readable on screen and in print.
+export const highlightStyle = (annotation?: Annotation): React.CSSProperties | undefined =>
+  annotation?.highlight
+    ? { backgroundColor: HIGHLIGHT_COLORS[annotation.highlight], borderRadius: "0.2em", padding: "0 0.15em", printColorAdjust: "exact" }
+    : undefined;
+
+export const TagList = ({ tags }: { tags: string[] }) => (
+  <span className="inline-flex flex-wrap gap-1">
+    {tags.map(tag => (
+      <span key={tag} className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-500 text-xs font-medium">#{tag}</span>
+    ))}
+  </span>
+);
+
+export const AnnotationSummary = ({ annotation }: { annotation: Annotation }) => {
+  const FlagIcon = annotation.flag && FLAG_ICONS[annotation.flag];
+  if (!annotation.flag && !annotation.comment && !annotation.tags.length) return null;
+  return (
+    <div className="space-y-2 border-l-2 border-indigo-200 pl-3">
+      {annotation.flag && FlagIcon && (
+        <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-medium ${FLAG_STYLES[annotation.flag]}`}>
+          <FlagIcon size={12} />
+          {FLAG_LABELS[annotation.flag]}
+        </span>
+      )}
+      {annotation.comment && <p className="text-sm text-slate-700 whitespace-pre-wrap">{annotation.comment}</p>}
+      {annotation.tags.length > 0 && <TagList tags={annotation.tags} />}
+    </div>
+  );
+};
+
+interface AnnotationEditorProps {
+  annotation: Annotation;
+  onSave: (annotation: Annotation) => void;
+  onDelete?: () => void;
+  onCancel: () => void;
+}
+
+export const AnnotationEditor = ({ annotation, onSave, onDelete, onCancel }: AnnotationEditorProps) => {
+  const [highlight, setHighlight] = useState<HighlightColor | undefined>(annotation.highlight);
+  const [flag, setFlag] = useState<AnnotationFlag | undefined>(annotation.flag);
+  const [comment, setComment] = useState(annotation.comment ?? "");
+  const [tags, setTags] = useState(annotation.tags.map(t => `#${t}`).join(" "));
+
+  const handleSave = () =>
+    onSave({ ...annotation, highlight, flag, comment: comment.trim() || undefined, tags: parseTags(tags) });
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-4 space-y-3 shadow-sm print:hidden">
+      <div className="flex flex-wrap items-center gap-2">
+        {(Object.keys(HIGHLIGHT_COLORS) as HighlightColor[]).map(color => (
+          <button
+            key={color}
+            onClick={() => setHighlight(highlight === color ? undefined : color)}
+            title={`Highlight ${color}`}
+            className={`w-6 h-6 rounded-full border-2 transition-transform ${highlight === color ? "border-slate-700 scale-110" : "border-white shadow"}`}
+            style={{ backgroundColor: HIGHLIGHT_COLORS[color] }}
+          />
+        ))}
+        <span className="w-px h-6 bg-slate-200 mx-1" />
+        {(Object.keys(FLAG_LABELS) as AnnotationFlag[]).map(f => {
+          const Icon = FLAG_ICONS[f];
+          return (
+            <button
+              key={f}
+              onClick={() => setFlag(flag === f ? undefined : f)}
+              className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full border text-xs font-medium transition-colors ${
+                flag === f ? FLAG_STYLES[f] : "border-slate-200 text-slate-500 hover:bg-slate-50"
+              }`}
+            >
+              <Icon size={12} />
+              {FLAG_LABELS[f]}
+            </button>
+          );
+        })}
+      </div>
+      <textarea
+        autoFocus
+        value={comment}
+        onChange={e => setComment(e.target.value)}
+        rows={3}
+        placeholder="Your thoughts, objections, connections..."
+        className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-700 resize-y focus:outline-none focus:ring-2 focus:ring-indigo-200 focus:border-indigo-400"
+      />
+      <input
+        value={tags}
+        onChange={e => setTags(e.target.value)}
+        placeholder="#tags, separated by spaces or commas"
+        className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-200 focus:border-indigo-400"
+      />
+      <div className="flex items-center gap-2">
+        {onDelete && (
+          <button onClick={onDelete} className="px-3 py-1.5 rounded-full text-sm font-medium text-red-600 hover:bg-red-50">
+            Remove
+          </button>
+        )}
+        <span className="flex-1" />
+        <button onClick={onCancel} className="px-3 py-1.5 rounded-full text-sm font-medium text-slate-500 hover:bg-slate-50">
+          Cancel
+        </button>
+        <button onClick={handleSave} className="px-4 py-1.5 rounded-full text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 transition-colors">
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface AnnotationControlProps {
+  target: AnnotationTarget;
+  notes: UserNotes;
+  // Omitted while the annotation layer is read-only, e.g. during streaming.
+  onNotesChange?: (notes: UserNotes) => void;
+}
+
+// The reader's note on one target, with a button to add or edit it.
+export const AnnotationControl = ({ target, notes, onNotesChange }: AnnotationControlProps) => {
+  const [editing, setEditing] = useState(false);
+  const existing = findAnnotation(notes, target);
+
+  if (editing && onNotesChange) {
+    return (
+      <div className="mt-3">
+        <AnnotationEditor
+          annotation={existing ?? createAnnotation(target)}
+          onSave={annotation => {
+            onNotesChange(saveAnnotation(notes, annotation));
+            setEditing(false);
+          }}
+          onDelete={existing && (() => {
+            onNotesChange(removeAnnotation(notes, existing.id));
+            setEditing(false);
+          })}
+          onCancel={() => setEditing(false)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 flex items-start gap-2">
+      <div className="flex-1 min-w-0">{existing && <AnnotationSummary annotation={existing} />}</div>
+      {onNotesChange && (
+        <button
+          onClick={() => setEditing(true)}
+          title={existing ? "Edit note" : "Annotate"}
+          className="p-1.5 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors print:hidden"
+        >
+          {existing ? <Pencil size={14} /> : <MessageSquarePlus size={14} />}
+        </button>
+      )}
+    </div>
+  );
+};
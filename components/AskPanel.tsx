@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Loader2, MessageSquare, Send, Trash2 } from "lucide-react";
+import type { AnalysisData, ChatMessage, SourceAnchor } from "../types";
+import type { ExtractedDocument } from "../services/extraction";
+import type { ModelProvider } from "../services/providers";
+import { buildPassageIndex } from "../services/retrieval";
+import { askDocument, citedNumbers } from "../services/chat";
+import { parseMarkdownBlocks } from "../services/markdown";
+import { isAbortError, toErrorInfo, type ErrorInfo } from "../services/errors";
+import MarkdownView from "./MarkdownView";
+import ErrorNotice from "./ErrorNotice";
+import type { Citation } from "./SourceViewer";
+
+interface AskPanelProps {
+  analysis: AnalysisData;
+  doc: ExtractedDocument | null;
+  provider: ModelProvider;
+  history: ChatMessage[];
+  onHistoryChange: (history: ChatMessage[]) => void;
+  onCite: (citation: Citation) => void;
+}
+
+const SourceChips = ({ answer, sources, onCite }: { answer: string; sources: SourceAnchor[]; onCite: (citation: Citation) => void }) => {
+  const cited = citedNumbers(answer).filter(n => sources[n - 1]);
+  if (!cited.length) return null;
+  return (
+    <div className="flex flex-wrap gap-1.5 mt-3">
+      {cited.map(n => (
+        <button
+          key={n}
+          onClick={() => onCite({ label: `Passage ${n}`, anchor: sources[n - 1] })}
+          title={sources[n - 1].quote}
+          className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border bg-white text-slate-500 border-slate-200 hover:text-indigo-600 hover:border-indigo-200 transition-colors"
+        >
+          [{n}]{sources[n - 1].page ? ` p. ${sources[n - 1].page}` : ""}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const AskPanel = ({ analysis, doc, provider, history, onHistoryChange, onCite }: AskPanelProps) => {
+  const index = useMemo(() => (doc?.text.trim() ? buildPassageIndex(doc) : null), [doc]);
+  const [question, setQuestion] = useState("");
+  const [pending, setPending] = useState<{ answer: string; sources: SourceAnchor[] } | null>(null);
+  const [error, setError] = useState<ErrorInfo | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end", behavior: "smooth" });
+  }, [history.length, pending?.answer]);
+
+  // An answer still streaming when the panel closes or the document changes must not land in the new history.
+  useEffect(() => () => abortRef.current?.abort(), [doc]);
+
+  if (!index) {
+    return (
+      <div className="bg-white rounded-2xl p-12 border border-slate-200 shadow-sm text-center text-slate-400">
+        <MessageSquare size={40} strokeWidth={1.5} className="mx-auto mb-4" />
+        Asking questions needs the document's extracted text, which is not available for this document.
+      </div>
+    );
+  }
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text || pending) return;
+
+    const asked: ChatMessage[] = [...history, { role: "user", content: text, createdAt: new Date().toISOString() }];
+    onHistoryChange(asked);
+    setQuestion("");
+    setError(null);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { sources, stream } = askDocument(provider, index, analysis, history, text, controller.signal);
+    let answer = "";
+    setPending({ answer, sources });
+    try {
+      for await (const piece of stream) {
+        controller.signal.throwIfAborted();
+        answer += piece;
+        setPending({ answer, sources });
+      }
+      controller.signal.throwIfAborted();
+      onHistoryChange([...asked, { role: "assistant", content: answer, sources, createdAt: new Date().toISOString() }]);
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      console.error(err);
+      setError(toErrorInfo(err, "Failed to answer the question."));
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm flex flex-col min-h-[60vh]">
+      <div className="flex items-center justify-between px-8 py-5 border-b border-slate-100">
+        <h2 className="text-2xl font-serif font-bold text-slate-800 flex items-center gap-2">
+          <MessageSquare className="text-indigo-500" />
+          Ask the Document
+        </h2>
+        {history.length > 0 && !pending && (
+          <button
+            onClick={() => confirm("Clear this conversation?") && onHistoryChange([])}
+            className="flex items-center gap-1 text-xs font-medium text-slate-400 hover:text-red-600"
+          >
+            <Trash2 size={14} />
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 px-8 py-6 space-y-6">
+        {history.length === 0 && !pending && (
+          <p className="text-slate-400 text-sm text-center py-12">
+            Ask anything about "{analysis.metadata.title}". Answers only use passages found in the document, and cite them.
+          </p>
+        )}
+        {history.map((message, i) =>
+          message.role === "user" ? (
+            <div key={i} className="flex justify-end">
+              <div className="bg-indigo-600 text-white px-4 py-2 rounded-2xl rounded-br-sm max-w-[80%] text-sm">{message.content}</div>
+            </div>
+          ) : (
+            <div key={i} className="max-w-[90%] [&_.markdown-body]:text-base">
+              <MarkdownView blocks={parseMarkdownBlocks(message.content)} />
+              <SourceChips answer={message.content} sources={message.sources ?? []} onCite={onCite} />
+            </div>
+          )
+        )}
+        {pending && (
+          <div className="max-w-[90%] [&_.markdown-body]:text-base">
+            {pending.answer
+              ? <MarkdownView blocks={parseMarkdownBlocks(pending.answer)} />
+              : <Loader2 size={20} className="text-indigo-500 animate-spin" />}
+          </div>
+        )}
+        {error && <ErrorNotice error={error} onDismiss={() => setError(null)} />}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleAsk} className="flex items-center gap-2 px-6 py-4 border-t border-slate-100">
+        <input
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          placeholder="Ask a question about this document..."
+          className="flex-1 px-4 py-2 rounded-full border border-slate-200 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-200 focus:border-indigo-400"
+        />
+        <button
+          type="submit"
+          disabled={!question.trim() || !!pending}
+          className="p-2.5 rounded-full bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-40 transition-colors"
+        >
+          <Send size={16} />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AskPanel;
@@ -0,0 +1,229 @@
+import React, { useMemo, useState } from "react";
+import { ArrowLeft, BarChart2, BrainCircuit, Columns2, Loader2, Sparkles } from "lucide-react";
+import type { SynthesisResult } from "../types";
+import type { LibraryEntry } from "../services/library";
+import type { ModelProvider } from "../services/providers";
+import { compareConcepts, overlayTopics, synthesizeDocuments } from "../services/comparison";
+import { toErrorInfo, type ErrorInfo } from "../services/errors";
+import ErrorNotice from "./ErrorNotice";
+
+interface CompareViewProps {
+  entries: LibraryEntry[];
+  provider: ModelProvider;
+  onOpen: (entry: LibraryEntry) => void;
+  onBack: () => void;
+}
+
+const DOCUMENT_COLORS = ["#6366f1", "#f59e0b", "#10b981", "#ec4899", "#0ea5e9", "#8b5cf6", "#ef4444", "#84cc16"];
+
+const colorOf = (index: number) => DOCUMENT_COLORS[index % DOCUMENT_COLORS.length];
+
+// Compact "D2" marker, colored like the document in the legend and charts.
+const DocBadge: React.FC<{ index: number; title: string }> = ({ index, title }) => (
+  <span
+    title={title}
+    className="inline-flex items-center justify-center min-w-[2rem] px-1.5 py-0.5 rounded-full text-[11px] font-bold text-white"
+    style={{ backgroundColor: colorOf(index) }}
+  >
+    D{index + 1}
+  </span>
+);
+
+const Section = ({ icon: Icon, title, children }: { icon: React.ElementType; title: string; children: React.ReactNode }) => (
+  <section className="bg-white rounded-2xl p-8 border border-slate-200 shadow-sm">
+    <h2 className="text-xl font-serif font-bold text-slate-800 mb-6 flex items-center gap-2">
+      <Icon size={20} className="text-indigo-500" />
+      {title}
+    </h2>
+    {children}
+  </section>
+);
+
+const CompareView = ({ entries, provider, onOpen, onBack }: CompareViewProps) => {
+  const analyses = useMemo(() => entries.map(e => e.analysis), [entries]);
+  const concepts = useMemo(() => compareConcepts(analyses), [analyses]);
+  const topics = useMemo(() => overlayTopics(analyses), [analyses]);
+  const [synthesis, setSynthesis] = useState<SynthesisResult | null>(null);
+  const [synthesizing, setSynthesizing] = useState(false);
+  const [error, setError] = useState<ErrorInfo | null>(null);
+
+  const titleOf = (index: number) => analyses[index].metadata.title;
+  const shared = concepts.filter(c => c.documents.length > 1);
+  const unique = analyses.map((_, i) => concepts.filter(c => c.documents.length === 1 && c.documents[0] === i));
+
+  const handleSynthesize = async () => {
+    setSynthesizing(true);
+    setError(null);
+    try {
+      setSynthesis(await synthesizeDocuments(provider, analyses));
+    } catch (err) {
+      console.error(err);
+      setError(toErrorInfo(err, "Failed to synthesize these documents."));
+    } finally {
+      setSynthesizing(false);
+    }
+  };
+
+  const badges = (sources: number[]) => (
+    <span className="inline-flex flex-wrap gap-1 ml-2 align-middle">
+      {sources.map(n => <DocBadge key={n} index={n - 1} title={titleOf(n - 1)} />)}
+    </span>
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto px-6 py-12 space-y-8">
+      <div>
+        <button onClick={onBack} className="flex items-center gap-1 text-sm text-slate-500 hover:text-indigo-600 mb-4">
+          <ArrowLeft size={16} />
+          Library
+        </button>
+        <h1 className="text-3xl font-serif font-bold text-slate-800 flex items-center gap-3">
+          <Columns2 className="text-indigo-500" />
+          Comparing {entries.length} Documents
+        </h1>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {entries.map((entry, i) => (
+          <button
+            key={entry.id}
+            onClick={() => onOpen(entry)}
+            className="text-left bg-white rounded-xl border border-slate-200 shadow-sm p-4 hover:shadow-md transition-all border-l-4"
+            style={{ borderLeftColor: colorOf(i) }}
+          >
+            <div className="flex items-center gap-2 mb-1">
+              <DocBadge index={i} title={entry.analysis.metadata.title} />
+              <span className="font-semibold text-slate-800 truncate">{entry.analysis.metadata.title}</span>
+            </div>
+            <p className="text-sm text-slate-500 truncate">{entry.analysis.metadata.author}</p>
+          </button>
+        ))}
+      </div>
+
+      <Section icon={Sparkles} title="Synthesis">
+        {synthesis ? (
+          <div className="space-y-8">
+            <p className="text-lg font-serif text-slate-700 leading-relaxed">{synthesis.overview}</p>
+            <div>
+              <h3 className="text-xs font-bold text-emerald-600 uppercase tracking-wider mb-3">Agreements</h3>
+              <ul className="space-y-2">
+                {synthesis.agreements.map((a, i) => (
+                  <li key={i} className="text-slate-700">{a.claim}{badges(a.sources)}</li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <h3 className="text-xs font-bold text-red-600 uppercase tracking-wider mb-3">Contradictions</h3>
+              <div className="space-y-4">
+                {synthesis.contradictions.map((c, i) => (
+                  <div key={i} className="rounded-xl border border-slate-100 p-4">
+                    <p className="font-semibold text-slate-800 mb-2">{c.topic}</p>
+                    <ul className="space-y-1.5">
+                      {c.positions.map((p, j) => (
+                        <li key={j} className="flex items-start gap-2 text-sm text-slate-600">
+                          <DocBadge index={p.source - 1} title={titleOf(p.source - 1)} />
+                          <span>{p.position}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+                {!synthesis.contradictions.length && <p className="text-sm text-slate-400">No contradictions found.</p>}
+              </div>
+            </div>
+            <div>
+              <h3 className="text-xs font-bold text-amber-600 uppercase tracking-wider mb-3">Gaps</h3>
+              <ul className="space-y-2">
+                {synthesis.gaps.map((g, i) => (
+                  <li key={i} className="text-slate-700">{g.claim}{badges(g.sources)}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-6">
+            <p className="text-slate-500 mb-4">
+              Find where these documents agree, where they contradict each other, and what they leave open.
+            </p>
+            <button
+              onClick={handleSynthesize}
+              disabled={synthesizing}
+              className="inline-flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-full text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+            >
+              {synthesizing ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
+              <span>Generate Synthesis</span>
+            </button>
+          </div>
+        )}
+        {error && <ErrorNotice error={error} onRetry={handleSynthesize} className="mt-4" />}
+      </Section>
+
+      <Section icon={BrainCircuit} title="Key Concepts">
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Shared</h3>
+        {shared.length ? (
+          <ul className="divide-y divide-slate-100 mb-8">
+            {shared.map(c => (
+              <li key={c.term} className="py-3">
+                <div className="flex items-center justify-between gap-4">
+                  <span className="font-semibold text-slate-800">{c.term}</span>
+                  <span className="flex gap-1">
+                    {c.documents.map(d => <DocBadge key={d} index={d} title={titleOf(d)} />)}
+                  </span>
+                </div>
+                <ul className="mt-2 space-y-1">
+                  {c.definitions.map((d, i) => (
+                    <li key={i} className="text-sm text-slate-500 pl-3 border-l-2" style={{ borderLeftColor: colorOf(d.document) }}>
+                      {d.definition}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-400 mb-8">These documents have no key concepts in common.</p>
+        )}
+
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Unique to Each Document</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {unique.map((list, i) => (
+            <div key={i}>
+              <div className="flex items-center gap-2 mb-2">
+                <DocBadge index={i} title={titleOf(i)} />
+                <span className="text-sm font-medium text-slate-600 truncate">{titleOf(i)}</span>
+              </div>
+              <ul className="space-y-1">
+                {list.map(c => (
+                  <li key={c.term} className="text-sm text-slate-700" title={c.definitions[0].definition}>{c.term}</li>
+                ))}
+                {!list.length && <li className="text-sm text-slate-400">Nothing unique</li>}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </Section>
+
+      <Section icon={BarChart2} title="Topic Distribution">
+        <div className="space-y-5">
+          {topics.map(t => (
+            <div key={t.topic}>
+              <div className="text-sm font-medium text-slate-700 mb-1">{t.topic}</div>
+              <div className="space-y-1">
+                {t.values.map((value, d) => (
+                  <div key={d} className="flex items-center gap-2" title={`${titleOf(d)}: ${value}%`}>
+                    <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                      <div className="h-full rounded-full" style={{ width: `${value}%`, backgroundColor: colorOf(d) }} />
+                    </div>
+                    <span className="w-10 text-right text-xs text-slate-400">{value ? `${value}%` : "—"}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </Section>
+    </div>
+  );
+};
+
+export default CompareView;
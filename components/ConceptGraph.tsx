@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from "react";
+import type { AnalysisData, AnnotationTarget } from "../types";
+import {
+  LINK_LABELS,
+  buildConceptGraph,
+  layoutGraph,
+  neighborIds,
+  type GraphLinkType,
+  type GraphNode,
+} from "../services/conceptGraph";
+
+interface ConceptGraphProps {
+  analysis: AnalysisData;
+  // Jumps to the concept card or chapter behind a node.
+  onOpen: (target: AnnotationTarget) => void;
+}
+
+const WIDTH = 800;
+const HEIGHT = 520;
+const CHAPTER_SIZE = 12;
+
+const LINK_STYLES: Record<GraphLinkType, { color: string; dash?: string; arrow: boolean }> = {
+  depends_on: { color: "#6366f1", arrow: true },
+  contrasts_with: { color: "#ef4444", dash: "6 4", arrow: false },
+  example_of: { color: "#10b981", dash: "2 4", arrow: true },
+  mentioned_in: { color: "#cbd5e1", arrow: false },
+};
+
+const radius = (node: GraphNode) =>
+  node.kind === "concept" ? 8 + ((node.importance ?? 0) / 100) * 16 : CHAPTER_SIZE / 2 + 2;
+
+const shorten = (label: string) => (label.length > 24 ? `${label.slice(0, 23)}…` : label);
+
+const ConceptGraph = ({ analysis, onOpen }: ConceptGraphProps) => {
+  const graph = useMemo(() => buildConceptGraph(analysis), [analysis]);
+  const positions = useMemo(() => layoutGraph(graph, { width: WIDTH, height: HEIGHT }), [graph]);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const neighbors = useMemo(() => (hovered ? neighborIds(graph, hovered) : null), [graph, hovered]);
+  const nodesById = new Map<string, GraphNode>(graph.nodes.map(n => [n.id, n]));
+
+  if (!graph.nodes.length) return <p className="text-sm text-slate-400">No concepts to map yet.</p>;
+
+  const isActive = (id: string) => !neighbors || id === hovered || neighbors.has(id);
+  const usedTypes = (Object.keys(LINK_STYLES) as GraphLinkType[]).filter(type => graph.links.some(l => l.type === type));
+
+  const open = (node: GraphNode) =>
+    onOpen(node.kind === "concept" ? { kind: "concept", term: node.label } : { kind: "chapter", index: node.index });
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto select-none" role="img" aria-label="Concept relationship graph">
+        <defs>
+          {usedTypes.filter(type => LINK_STYLES[type].arrow).map(type => (
+            <marker key={type} id={`arrow-${type}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={LINK_STYLES[type].color} />
+            </marker>
+          ))}
+        </defs>
+
+        {graph.links.map((link, i) => {
+          const from = positions.get(link.source)!;
+          const to = positions.get(link.target)!;
+          const d = Math.max(Math.hypot(to.x - from.x, to.y - from.y), 0.01);
+          // Stop at the target's edge so arrowheads stay visible.
+          const gap = radius(nodesById.get(link.target)!) + 2;
+          const style = LINK_STYLES[link.type];
+          const active = !hovered || link.source === hovered || link.target === hovered;
+          return (
+            <line
+              key={i}
+              x1={from.x}
+              y1={from.y}
+              x2={to.x - ((to.x - from.x) / d) * gap}
+              y2={to.y - ((to.y - from.y) / d) * gap}
+              stroke={style.color}
+              strokeWidth={link.type === "mentioned_in" ? 1 : 2}
+              strokeDasharray={style.dash}
+              markerEnd={style.arrow ? `url(#arrow-${link.type})` : undefined}
+              opacity={active ? 1 : 0.1}
+              className="transition-opacity"
+            >
+              <title>{`${nodesById.get(link.source)!.label} ${LINK_LABELS[link.type]} ${nodesById.get(link.target)!.label}`}</title>
+            </line>
+          );
+        })}
+
+        {graph.nodes.map(node => {
+          const { x, y } = positions.get(node.id)!;
+          const r = radius(node);
+          const concept = node.kind === "concept" ? analysis.keyConcepts[node.index] : null;
+          return (
+            <g
+              key={node.id}
+              onMouseEnter={() => setHovered(node.id)}
+              onMouseLeave={() => setHovered(null)}
+              onClick={() => open(node)}
+              opacity={isActive(node.id) ? 1 : 0.15}
+              className="cursor-pointer transition-opacity"
+            >
+              <title>{concept ? `${concept.term} (${concept.importance}): ${concept.definition}` : `Chapter: ${node.label}`}</title>
+              {concept ? (
+                <circle
+                  cx={x}
+                  cy={y}
+                  r={r}
+                  fill={concept.importance > 80 ? "#fbbf24" : "#818cf8"}
+                  stroke={hovered === node.id ? "#1e293b" : "#ffffff"}
+                  strokeWidth={2}
+                />
+              ) : (
+                <rect
+                  x={x - CHAPTER_SIZE / 2}
+                  y={y - CHAPTER_SIZE / 2}
+                  width={CHAPTER_SIZE}
+                  height={CHAPTER_SIZE}
+                  rx={3}
+                  fill="#94a3b8"
+                  stroke={hovered === node.id ? "#1e293b" : "#ffffff"}
+                  strokeWidth={2}
+                />
+              )}
+              <text
+                x={x}
+                y={y + r + 13}
+                textAnchor="middle"
+                fontSize={concept ? 12 : 10}
+                fontWeight={concept ? 600 : 400}
+                fill={concept ? "#334155" : "#64748b"}
+                stroke="#ffffff"
+                strokeWidth={3}
+                paintOrder="stroke"
+              >
+                {shorten(node.label)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex flex-wrap items-center gap-x-5 gap-y-2 mt-4 text-xs text-slate-500">
+        <span className="flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded-full bg-indigo-400" />
+          Concept, sized by impact
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="w-2.5 h-2.5 rounded-sm bg-slate-400" />
+          Chapter
+        </span>
+        {usedTypes.map(type => (
+          <span key={type} className="flex items-center gap-1.5">
+            <svg width="24" height="6">
+              <line x1="0" y1="3" x2="24" y2="3" stroke={LINK_STYLES[type].color} strokeWidth="2" strokeDasharray={LINK_STYLES[type].dash} />
+            </svg>
+            {LINK_LABELS[type]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ConceptGraph;
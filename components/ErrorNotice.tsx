@@ -0,0 +1,39 @@
+import React from "react";
+import { AlertCircle, RefreshCw, X } from "lucide-react";
+import { ERROR_DETAILS, type ErrorInfo } from "../services/errors";
+
+interface ErrorNoticeProps {
+  error: ErrorInfo;
+  // Shown as a prefix to the title, e.g. the section that failed.
+  context?: string;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+  className?: string;
+}
+
+const ErrorNotice = ({ error, context, onRetry, onDismiss, className = "" }: ErrorNoticeProps) => {
+  const { title, hint } = ERROR_DETAILS[error.category];
+  return (
+    <div role="alert" className={`flex items-start gap-3 bg-red-50 text-red-700 border border-red-100 rounded-xl px-4 py-3 text-sm ${className}`}>
+      <AlertCircle size={18} className="flex-shrink-0 mt-0.5" />
+      <div className="flex-1 min-w-0">
+        <p className="font-semibold">{context ? `${context}: ${title}` : title}</p>
+        <p className="text-red-600/80 mt-0.5">{hint}</p>
+        <p className="text-xs text-red-500/70 mt-1 break-words line-clamp-3" title={error.message}>{error.message}</p>
+      </div>
+      {onRetry && (
+        <button onClick={onRetry} className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800 flex-shrink-0 mt-0.5">
+          <RefreshCw size={12} />
+          Retry
+        </button>
+      )}
+      {onDismiss && (
+        <button onClick={onDismiss} className="text-red-400 hover:text-red-600 flex-shrink-0" title="Dismiss">
+          <X size={16} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -0,0 +1,52 @@
+import React, { useState } from "react";
+import { ChevronDown, Download } from "lucide-react";
+import { EXPORTERS, type ExportContext, type Exporter } from "../services/exporters";
+import { downloadFile, fileBaseName } from "../services/download";
+
+const ExportMenu = ({ context }: { context: ExportContext }) => {
+  const [open, setOpen] = useState(false);
+
+  const handleExport = (exporter: Exporter) => {
+    setOpen(false);
+    try {
+      const name = `${fileBaseName(context.analysis.metadata.title)}_${exporter.suffix}.${exporter.extension}`;
+      downloadFile(exporter.build(context), name, exporter.mimeType);
+    } catch (err) {
+      console.error(err);
+      alert(`Could not export ${exporter.label}.`);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-full text-sm font-medium hover:bg-indigo-700 transition-colors"
+      >
+        <Download size={16} />
+        <span>Export</span>
+        <ChevronDown size={14} className={`transition-transform ${open ? "rotate-180" : ""}`} />
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <ul className="absolute right-0 mt-2 w-72 bg-white rounded-xl border border-slate-200 shadow-xl py-2 z-50">
+            {EXPORTERS.map(exporter => (
+              <li key={exporter.id}>
+                <button
+                  onClick={() => handleExport(exporter)}
+                  className="w-full text-left px-4 py-2 hover:bg-indigo-50 transition-colors"
+                >
+                  <span className="block text-sm font-medium text-slate-800">{exporter.label}</span>
+                  <span className="block text-xs text-slate-500">{exporter.description}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,232 @@
+import React, { useState } from "react";
+import { Download, GraduationCap, Layers, Loader2, RotateCcw, Sparkles } from "lucide-react";
+import type { AnalysisData, Flashcard, ReviewGrade } from "../types";
+import type { ModelProvider } from "../services/providers";
+import {
+  deckStats,
+  generateCards,
+  isNew,
+  mergeCards,
+  reviewCard,
+  studyQueue,
+  toAnkiDelimited,
+  type DelimitedFormat,
+} from "../services/flashcards";
+import { downloadFile, fileBaseName } from "../services/download";
+import { toErrorInfo, type ErrorInfo } from "../services/errors";
+import { CitationLink, type Citation } from "./SourceViewer";
+import ErrorNotice from "./ErrorNotice";
+
+interface FlashcardsPanelProps {
+  analysis: AnalysisData;
+  cards: Flashcard[];
+  onCardsChange: (cards: Flashcard[]) => void;
+  provider: ModelProvider;
+  onCite: (citation: Citation) => void;
+}
+
+const GRADES: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 1, label: "Again", className: "bg-red-50 text-red-700 hover:bg-red-100" },
+  { grade: 3, label: "Hard", className: "bg-amber-50 text-amber-700 hover:bg-amber-100" },
+  { grade: 4, label: "Good", className: "bg-emerald-50 text-emerald-700 hover:bg-emerald-100" },
+  { grade: 5, label: "Easy", className: "bg-indigo-50 text-indigo-700 hover:bg-indigo-100" },
+];
+
+const KIND_LABELS: Record<Flashcard["kind"], string> = {
+  concept: "Concept",
+  insight: "Insight",
+  cloze: "Cloze",
+  qa: "Q&A",
+};
+
+const formatInterval = (days: number) => (days === 1 ? "1 day" : `${days} days`);
+
+const dueLabel = (card: Flashcard, now: Date) => {
+  if (isNew(card)) return "New";
+  const days = Math.ceil((new Date(card.due!).getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
+  return days <= 0 ? "Due" : `In ${formatInterval(days)}`;
+};
+
+const Stat = ({ label, value }: { label: string; value: number }) => (
+  <div className="bg-slate-50 rounded-xl p-4 text-center">
+    <div className="text-2xl font-bold text-slate-800">{value}</div>
+    <div className="text-xs font-semibold text-slate-400 uppercase tracking-wider mt-1">{label}</div>
+  </div>
+);
+
+const FlashcardsPanel = ({ analysis, cards, onCardsChange, provider, onCite }: FlashcardsPanelProps) => {
+  // Card ids left in the current study session; null when not studying.
+  const [session, setSession] = useState<string[] | null>(null);
+  const [revealed, setRevealed] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<ErrorInfo | null>(null);
+
+  const now = new Date();
+  const stats = deckStats(cards, now);
+  const queue = studyQueue(cards, now);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      onCardsChange(mergeCards(cards, await generateCards(provider, analysis, cards)));
+    } catch (err) {
+      console.error(err);
+      setError(toErrorInfo(err, "Failed to generate flashcards."));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleExport = (format: DelimitedFormat) =>
+    downloadFile(
+      toAnkiDelimited(cards, format, analysis.metadata.title),
+      `${fileBaseName(analysis.metadata.title)}_Flashcards.${format}`,
+      format === "csv" ? "text/csv" : "text/tab-separated-values"
+    );
+
+  if (session) {
+    const card = cards.find(c => c.id === session[0]);
+    if (!card) {
+      return (
+        <div className="bg-white rounded-2xl p-12 border border-slate-200 shadow-sm text-center">
+          <GraduationCap size={40} strokeWidth={1.5} className="mx-auto mb-4 text-indigo-500" />
+          <h2 className="text-2xl font-serif font-bold text-slate-800 mb-2">Session complete</h2>
+          <p className="text-slate-500 mb-6">
+            {stats.due ? `${stats.due} more cards are due.` : "No more cards are due right now."}
+          </p>
+          <button
+            onClick={() => setSession(null)}
+            className="px-4 py-2 rounded-full text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 transition-colors"
+          >
+            Back to deck
+          </button>
+        </div>
+      );
+    }
+
+    const handleGrade = (grade: ReviewGrade) => {
+      onCardsChange(cards.map(c => (c.id === card.id ? reviewCard(c, grade) : c)));
+      // Forgotten cards come back at the end of the session.
+      setSession([...session.slice(1), ...(grade < 3 ? [card.id] : [])]);
+      setRevealed(false);
+    };
+
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="flex items-center justify-between mb-4 text-sm text-slate-500">
+          <span>{session.length} left in this session</span>
+          <button onClick={() => setSession(null)} className="font-medium hover:text-indigo-600">End session</button>
+        </div>
+        <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-10 min-h-[18rem] flex flex-col">
+          <span className="text-xs font-semibold text-indigo-500 uppercase tracking-wider">{KIND_LABELS[card.kind]}</span>
+          <p className="text-2xl font-serif text-slate-800 mt-4 leading-snug">{card.front}</p>
+          {revealed && (
+            <div className="mt-6 pt-6 border-t border-slate-100">
+              <p className="text-lg text-slate-600 leading-relaxed">{card.back}</p>
+              <div className="mt-3">
+                <CitationLink anchor={card.source} onOpen={anchor => onCite({ label: card.front, anchor })} />
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="grid grid-cols-4 gap-3 mt-4">
+          {revealed ? (
+            GRADES.map(({ grade, label, className }) => (
+              <button
+                key={grade}
+                onClick={() => handleGrade(grade)}
+                className={`py-3 rounded-xl text-sm font-semibold transition-colors ${className}`}
+              >
+                {label}
+                <span className="block text-xs font-normal opacity-70">{formatInterval(reviewCard(card, grade).interval)}</span>
+              </button>
+            ))
+          ) : (
+            <button
+              onClick={() => setRevealed(true)}
+              className="col-span-4 py-3 rounded-xl text-sm font-semibold bg-indigo-600 text-white hover:bg-indigo-700 transition-colors"
+            >
+              Show answer
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl p-8 border border-slate-200 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <h2 className="text-2xl font-serif font-bold text-slate-800 flex items-center gap-2">
+            <Layers className="text-indigo-500" />
+            Flashcards
+          </h2>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={handleGenerate}
+              disabled={generating}
+              className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium text-slate-600 hover:bg-slate-100 disabled:opacity-50 transition-colors"
+            >
+              {generating ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
+              <span>Generate more</span>
+            </button>
+            {(["csv", "tsv"] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={!cards.length}
+                className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium text-slate-600 hover:bg-slate-100 disabled:opacity-50 transition-colors"
+              >
+                <Download size={16} />
+                <span>Anki {format.toUpperCase()}</span>
+              </button>
+            ))}
+            <button
+              onClick={() => {
+                setSession(queue.map(c => c.id));
+                setRevealed(false);
+              }}
+              disabled={!queue.length}
+              className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-full text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+            >
+              <GraduationCap size={16} />
+              <span>Study {queue.length}</span>
+            </button>
+          </div>
+        </div>
+        {error && <ErrorNotice error={error} onRetry={handleGenerate} onDismiss={() => setError(null)} className="mb-4" />}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Stat label="Cards" value={stats.total} />
+          <Stat label="New" value={stats.new} />
+          <Stat label="Due" value={stats.due} />
+          <Stat label="Learned" value={stats.learned} />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm divide-y divide-slate-100">
+        {[...cards].sort((a, b) => b.importance - a.importance).map(card => (
+          <div key={card.id} className="flex items-start gap-4 px-8 py-4">
+            <span className="mt-0.5 w-16 shrink-0 text-xs font-semibold text-slate-400 uppercase tracking-wider">{KIND_LABELS[card.kind]}</span>
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-slate-800">{card.front}</p>
+              <p className="text-sm text-slate-500 mt-1">{card.back}</p>
+            </div>
+            <div className="shrink-0 text-right text-xs text-slate-400">
+              <div>{dueLabel(card, now)}</div>
+              {card.history.length > 0 && (
+                <div className="flex items-center justify-end gap-1 mt-1" title="Reviews">
+                  <RotateCcw size={10} />
+                  {card.history.length}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FlashcardsPanel;
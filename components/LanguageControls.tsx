@@ -0,0 +1,98 @@
+import React, { useState } from "react";
+import { Check, Languages, Loader2 } from "lucide-react";
+import type { AnalysisData } from "../types";
+import { OUTPUT_LANGUAGES } from "../services/language";
+
+// --- Output language ---
+
+export const LanguageSelect = ({ value, onChange }: { value: string; onChange: (language: string) => void }) => (
+  <div className="flex items-center gap-2">
+    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Write notes in</span>
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      className="flex-1 px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+    >
+      <option value="">Same as the document</option>
+      {OUTPUT_LANGUAGES.map(language => <option key={language} value={language}>{language}</option>)}
+    </select>
+  </div>
+);
+
+// --- Translation ---
+
+// Re-translates a finished analysis; `current` is the language it is written in, when known.
+export const TranslateMenu = ({ current, busy, onTranslate }: {
+  current?: string;
+  busy: boolean;
+  onTranslate: (language: string) => void;
+}) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={busy}
+        title={busy ? "Translating…" : "Translate notes"}
+        className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors disabled:hover:bg-transparent"
+      >
+        {busy ? <Loader2 size={20} className="animate-spin text-indigo-500" /> : <Languages size={20} />}
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-56 bg-white rounded-xl border border-slate-200 shadow-xl py-2 z-50">
+            <p className="px-4 pb-2 text-xs font-bold text-slate-400 uppercase tracking-wider">Translate notes to</p>
+            <ul className="max-h-80 overflow-y-auto text-sm">
+              {OUTPUT_LANGUAGES.map(language => (
+                <li key={language}>
+                  <button
+                    onClick={() => {
+                      setOpen(false);
+                      onTranslate(language);
+                    }}
+                    disabled={language === current}
+                    className="w-full flex items-center justify-between px-4 py-1.5 text-left text-slate-700 hover:bg-indigo-50 transition-colors disabled:text-slate-400 disabled:hover:bg-transparent"
+                  >
+                    {language}
+                    {language === current && <Check size={14} />}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// --- Glossary ---
+
+// Source term beside the term used in the notes, for analyses written in another language than the document.
+export const GlossaryTable = ({ analysis }: { analysis: AnalysisData }) => {
+  const concepts = [...analysis.keyConcepts].sort((a, b) => a.term.localeCompare(b.term));
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-x-auto">
+      <table className="w-full text-sm text-left">
+        <thead className="bg-slate-50 text-xs font-bold text-slate-400 uppercase tracking-wider">
+          <tr>
+            <th className="px-5 py-3">{analysis.metadata.language || "Original"}</th>
+            <th className="px-5 py-3">{analysis.language || "Term"}</th>
+            <th className="px-5 py-3">Definition</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {concepts.map(c => (
+            <tr key={c.term} className="align-top">
+              <td className="px-5 py-3 italic text-slate-500">{c.originalTerm || c.term}</td>
+              <td className="px-5 py-3 font-semibold text-slate-800">{c.term}</td>
+              <td className="px-5 py-3 text-slate-600 leading-relaxed">{c.definition}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
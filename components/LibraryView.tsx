@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from "react";
+import { BookOpen, Check, Columns2, FileInput, Gauge, Library, Loader2, Pencil, Search, Trash2, Upload, X } from "lucide-react";
+import { deleteEntry, listEntries, renameEntry, type LibraryEntry } from "../services/library";
+import { providerLabel } from "../services/providers";
+import { loadOtherUsage } from "../services/usage";
+import { toErrorInfo } from "../services/errors";
+import UsagePanel from "./UsagePanel";
+
+interface LibraryViewProps {
+  onOpen: (entry: LibraryEntry) => void;
+  onUpload: () => void;
+  // Restores a DeepRead JSON export; rejects with a readable message when the file is unusable.
+  onImport: (file: File) => Promise<void>;
+  onCompare: (entries: LibraryEntry[]) => void;
+}
+
+const matches = (entry: LibraryEntry, query: string) => {
+  const { title, author, genre } = entry.analysis.metadata;
+  return [title, author, genre, entry.fileName].some(field => field.toLowerCase().includes(query));
+};
+
+const LibraryView = ({ onOpen, onUpload, onImport, onCompare }: LibraryViewProps) => {
+  const [entries, setEntries] = useState<LibraryEntry[] | null>(null);
+  const [query, setQuery] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [showUsage, setShowUsage] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listEntries()
+      .then(setEntries)
+      .catch(err => {
+        console.error(err);
+        setError("Could not open the library in this browser.");
+        setEntries([]);
+      });
+  }, []);
+
+  const handleRename = async () => {
+    if (!renaming || !renaming.title.trim()) return;
+    setError(null);
+    try {
+      const updated = await renameEntry(renaming.id, renaming.title.trim());
+      setEntries(entries!.map(e => (e.id === updated.id ? updated : e)));
+    } catch (err) {
+      console.error(err);
+      setError(toErrorInfo(err, "Could not rename this document.").message);
+    }
+    setRenaming(null);
+  };
+
+  const handleDelete = async (entry: LibraryEntry) => {
+    if (!confirm(`Delete "${entry.analysis.metadata.title}" from your library?`)) return;
+    setError(null);
+    try {
+      await deleteEntry(entry.id);
+    } catch (err) {
+      console.error(err);
+      setError(toErrorInfo(err, "Could not delete this document.").message);
+      return;
+    }
+    setEntries(entries!.filter(e => e.id !== entry.id));
+    setSelected(selected.filter(id => id !== entry.id));
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelected(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setError(null);
+    try {
+      await onImport(file);
+    } catch (err) {
+      console.error(err);
+      setError(toErrorInfo(err, "Could not import this file.").message);
+    }
+  };
+
+  const visible = (entries ?? []).filter(e => matches(e, query.trim().toLowerCase()));
+  const usageByDocument = showUsage
+    ? [
+        ...(entries ?? []).map(e => ({ name: e.analysis.metadata.title, records: e.usage ?? [] })),
+        { name: "Without a document", records: loadOtherUsage() },
+      ]
+    : [];
+
+  return (
+    <div className="max-w-5xl mx-auto px-6 py-12">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-serif font-bold text-slate-800 flex items-center gap-3">
+            <Library className="text-indigo-500" />
+            Your Library
+          </h1>
+          <p className="text-slate-500 mt-1">Every document you have analyzed, saved in this browser.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {selected.length > 0 && (
+            <button
+              onClick={() => onCompare(entries!.filter(e => selected.includes(e.id)))}
+              disabled={selected.length < 2}
+              title={selected.length < 2 ? "Select at least two documents" : undefined}
+              className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium text-indigo-600 border border-indigo-200 hover:bg-indigo-50 disabled:opacity-50 transition-colors"
+            >
+              <Columns2 size={16} />
+              <span>Compare ({selected.length})</span>
+            </button>
+          )}
+          <button
+            onClick={() => setShowUsage(true)}
+            className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors"
+          >
+            <Gauge size={16} />
+            <span>Usage</span>
+          </button>
+          <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors"
+          >
+            <FileInput size={16} />
+            <span>Import JSON</span>
+          </button>
+          <button onClick={onUpload} className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-full text-sm font-medium hover:bg-indigo-700 transition-colors w-max">
+            <Upload size={16} />
+            <span>Analyze New</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="relative mb-6">
+        <Search size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" />
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search by title, author or genre"
+          className="w-full pl-11 pr-4 py-3 rounded-xl border border-slate-200 bg-white text-sm text-slate-700 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-200 focus:border-indigo-400"
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {entries === null ? (
+        <div className="flex justify-center py-20">
+          <Loader2 size={32} className="text-indigo-500 animate-spin" />
+        </div>
+      ) : visible.length === 0 ? (
+        <div className="text-center py-20 text-slate-400">
+          <BookOpen size={40} strokeWidth={1.5} className="mx-auto mb-4" />
+          {entries.length ? "No documents match your search." : "Nothing here yet. Analyze a document to start your library."}
+        </div>
+      ) : (
+        <ul className="bg-white rounded-2xl border border-slate-200 shadow-sm divide-y divide-slate-100">
+          {visible.map(entry => (
+            <li key={entry.id} className="p-5 flex items-center gap-4 group">
+              <input
+                type="checkbox"
+                checked={selected.includes(entry.id)}
+                onChange={() => toggleSelected(entry.id)}
+                title="Select to compare"
+                className="w-4 h-4 accent-indigo-600 shrink-0"
+              />
+              <div className="flex-1 min-w-0">
+                {renaming?.id === entry.id ? (
+                  <form onSubmit={e => { e.preventDefault(); handleRename(); }} className="flex items-center gap-2">
+                    <input
+                      autoFocus
+                      value={renaming.title}
+                      onChange={e => setRenaming({ ...renaming, title: e.target.value })}
+                      className="flex-1 px-3 py-1 rounded-lg border border-indigo-300 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200"
+                    />
+                    <button type="submit" className="p-1 text-emerald-600 hover:bg-emerald-50 rounded-full"><Check size={16} /></button>
+                    <button type="button" onClick={() => setRenaming(null)} className="p-1 text-slate-400 hover:bg-slate-50 rounded-full"><X size={16} /></button>
+                  </form>
+                ) : (
+                  <button onClick={() => onOpen(entry)} className="text-left w-full">
+                    <h3 className="font-serif font-bold text-slate-800 truncate group-hover:text-indigo-600 transition-colors">
+                      {entry.analysis.metadata.title}
+                    </h3>
+                    <p className="text-sm text-slate-500 truncate">
+                      {entry.analysis.metadata.author} · {entry.analysis.metadata.genre}
+                    </p>
+                  </button>
+                )}
+                <p className="text-xs text-slate-400 mt-1 truncate">
+                  {entry.fileName} · {new Date(entry.analyzedAt).toLocaleDateString()} · {providerLabel(entry.provider)} {entry.model}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                <button
+                  onClick={() => setRenaming({ id: entry.id, title: entry.analysis.metadata.title })}
+                  title="Rename"
+                  className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+                >
+                  <Pencil size={16} />
+                </button>
+                <button
+                  onClick={() => handleDelete(entry)}
+                  title="Delete"
+                  className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showUsage && (
+        <UsagePanel
+          title="All documents in your library"
+          records={usageByDocument.flatMap(d => d.records)}
+          documents={usageByDocument}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default LibraryView;
@@ -0,0 +1,175 @@
+import React from "react";
+import { Link as LinkIcon } from "lucide-react";
+import type { Block, Inline, TocEntry } from "../services/markdown";
+
+// --- Inline ---
+
+const InlineNodes = ({ nodes }: { nodes: Inline[] }) => (
+  <>
+    {nodes.map((node, i) => {
+      switch (node.type) {
+        case "text":
+          return <React.Fragment key={i}>{node.value}</React.Fragment>;
+        case "code":
+          return <code key={i} className="px-1.5 py-0.5 rounded bg-slate-100 text-[0.9em] font-mono text-pink-700">{node.value}</code>;
+        case "strong":
+          return <strong key={i} className="font-bold text-slate-900"><InlineNodes nodes={node.children} /></strong>;
+        case "em":
+          return <em key={i}><InlineNodes nodes={node.children} /></em>;
+        case "del":
+          return <del key={i}><InlineNodes nodes={node.children} /></del>;
+        case "link": {
+          const external = !node.href.startsWith("#");
+          return (
+            <a
+              key={i}
+              href={node.href}
+              {...(external ? { target: "_blank", rel: "noopener noreferrer" } : {})}
+              className="text-indigo-600 underline decoration-indigo-200 underline-offset-2 hover:decoration-indigo-500"
+            >
+              <InlineNodes nodes={node.children} />
+            </a>
+          );
+        }
+        case "break":
+          return <br key={i} />;
+      }
+    })}
+  </>
+);
+
+// --- Blocks ---
+
+const headingClasses: Record<number, string> = {
+  1: "text-3xl mt-10 mb-4",
+  2: "text-2xl mt-10 mb-3 pb-2 border-b border-slate-100",
+  3: "text-xl mt-8 mb-2",
+  4: "text-lg mt-6 mb-2",
+  5: "text-base mt-4 mb-1",
+  6: "text-sm mt-4 mb-1 uppercase tracking-wider text-slate-500",
+};
+
+const alignClass = (align: string | null) =>
+  align === "center" ? "text-center" : align === "right" ? "text-right" : "text-left";
+
+export const BlockNode: React.FC<{ block: Block; tight?: boolean }> = ({ block, tight }) => {
+  switch (block.type) {
+    case "heading": {
+      const Tag = `h${block.level}` as "h1";
+      return (
+        <Tag id={block.id} className={`group font-serif font-bold text-slate-800 scroll-mt-24 break-after-avoid ${headingClasses[block.level]}`}>
+          <InlineNodes nodes={block.children} />
+          <a href={`#${block.id}`} className="ml-2 inline-block align-middle text-slate-300 opacity-0 group-hover:opacity-100 hover:text-indigo-500 print:hidden" aria-label="Link to this section">
+            <LinkIcon size={16} />
+          </a>
+        </Tag>
+      );
+    }
+    case "paragraph":
+      return (
+        <p className={tight ? "" : "my-4 leading-relaxed"}>
+          <InlineNodes nodes={block.children} />
+        </p>
+      );
+    case "list": {
+      const Tag = block.ordered ? "ol" : "ul";
+      return (
+        <Tag
+          start={block.ordered && block.start !== 1 ? block.start : undefined}
+          className={`my-4 pl-6 space-y-1.5 ${block.ordered ? "list-decimal" : "list-disc"} marker:text-indigo-400`}
+        >
+          {block.items.map((item, i) => (
+            <li key={i} className="pl-1 leading-relaxed">
+              <Blocks blocks={item} tight={item.filter(b => b.type === "paragraph").length <= 1} />
+            </li>
+          ))}
+        </Tag>
+      );
+    }
+    case "blockquote":
+      return (
+        <blockquote className="my-6 border-l-4 border-indigo-200 bg-indigo-50/40 pl-5 pr-4 py-1 italic text-slate-600 break-inside-avoid">
+          <Blocks blocks={block.children} />
+        </blockquote>
+      );
+    case "code":
+      return (
+        <pre className="my-6 p-4 rounded-xl bg-slate-900 text-slate-100 text-sm font-mono overflow-x-auto break-inside-avoid print:bg-slate-100 print:text-slate-800 print:whitespace-pre-wrap">
+          <code>{block.value}</code>
+        </pre>
+      );
+    case "table":
+      return (
+        <div className="my-6 overflow-x-auto break-inside-avoid">
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="border-b-2 border-slate-200">
+                {block.header.map((cell, c) => (
+                  <th key={c} className={`px-3 py-2 font-sans font-semibold text-slate-700 ${alignClass(block.align[c])}`}>
+                    <InlineNodes nodes={cell} />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r} className="border-b border-slate-100">
+                  {row.map((cell, c) => (
+                    <td key={c} className={`px-3 py-2 align-top ${alignClass(block.align[c])}`}>
+                      <InlineNodes nodes={cell} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case "hr":
+      return <hr className="my-10 border-slate-200" />;
+  }
+};
+
+const Blocks = ({ blocks, tight }: { blocks: Block[]; tight?: boolean }) => (
+  <>
+    {blocks.map((block, i) => (
+      <BlockNode key={i} block={block} tight={tight} />
+    ))}
+  </>
+);
+
+const MarkdownView = ({ blocks }: { blocks: Block[] }) => (
+  <div className="markdown-body font-serif text-slate-700 text-lg">
+    <Blocks blocks={blocks} />
+  </div>
+);
+
+// --- Table of contents ---
+
+export const TableOfContents = ({ entries, activeId }: { entries: TocEntry[]; activeId?: string }) => {
+  const minLevel = Math.min(...entries.map(e => e.level));
+  return (
+    <nav className="text-sm">
+      <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Contents</h4>
+      <ul className="space-y-1.5 border-l border-slate-100">
+        {entries.map(entry => (
+          <li key={entry.id}>
+            <a
+              href={`#${entry.id}`}
+              style={{ paddingLeft: `${(entry.level - minLevel) * 0.75 + 0.75}rem` }}
+              className={`block -ml-px border-l-2 leading-snug transition-colors ${
+                entry.id === activeId
+                  ? "border-indigo-500 text-indigo-600 font-medium"
+                  : "border-transparent text-slate-500 hover:text-slate-900"
+              }`}
+            >
+              {entry.title}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+};
+
+export default MarkdownView;
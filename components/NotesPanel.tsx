@@ -0,0 +1,154 @@
+import React, { useState } from "react";
+import { ArrowUpRight, NotebookPen, Plus, Tag, Trash2 } from "lucide-react";
+import type { AnalysisData, Annotation, AnnotationTarget, UserConcept, UserNotes } from "../types";
+import {
+  HIGHLIGHT_COLORS,
+  allTags,
+  parseTags,
+  removeUserConcept,
+  saveUserConcept,
+  targetLabel,
+} from "../services/annotations";
+import { AnnotationSummary, TagList } from "./AnnotationControls";
+
+interface NotesPanelProps {
+  analysis: AnalysisData;
+  notes: UserNotes;
+  onNotesChange: (notes: UserNotes) => void;
+  // Switches to the tab where the annotated item lives.
+  onOpenTarget: (target: AnnotationTarget) => void;
+}
+
+const KIND_LABELS: Record<AnnotationTarget["kind"], string> = {
+  chapter: "Chapter",
+  concept: "Concept",
+  report: "Report highlight",
+};
+
+const inputClass =
+  "w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-200 focus:border-indigo-400";
+
+const ConceptForm = ({ onAdd }: { onAdd: (concept: UserConcept) => void }) => {
+  const [term, setTerm] = useState("");
+  const [definition, setDefinition] = useState("");
+  const [tags, setTags] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!term.trim() || !definition.trim()) return;
+    onAdd({
+      id: crypto.randomUUID(),
+      term: term.trim(),
+      definition: definition.trim(),
+      tags: parseTags(tags),
+      createdAt: new Date().toISOString(),
+    });
+    setTerm("");
+    setDefinition("");
+    setTags("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-[12rem_1fr] gap-2 mb-6 print:hidden">
+      <input value={term} onChange={e => setTerm(e.target.value)} placeholder="Concept" className={inputClass} />
+      <input value={definition} onChange={e => setDefinition(e.target.value)} placeholder="Your definition" className={inputClass} />
+      <input value={tags} onChange={e => setTags(e.target.value)} placeholder="#tags" className={inputClass} />
+      <button
+        type="submit"
+        disabled={!term.trim() || !definition.trim()}
+        className="flex items-center justify-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-full text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 transition-colors md:w-max md:justify-self-end"
+      >
+        <Plus size={16} />
+        Add Concept
+      </button>
+    </form>
+  );
+};
+
+const NotesPanel = ({ analysis, notes, onNotesChange, onOpenTarget }: NotesPanelProps) => {
+  const [tag, setTag] = useState<string | null>(null);
+  const tags = allTags(notes);
+  const matches = (item: { tags: string[] }) => !tag || item.tags.includes(tag);
+  const annotations = notes.annotations.filter(matches);
+  const concepts = notes.concepts.filter(matches);
+
+  const quoteOf = (a: Annotation) => (a.target.kind === "report" ? a.target.quote : null);
+
+  return (
+    <div className="space-y-8">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 print:hidden">
+          <Tag size={14} className="text-slate-400" />
+          {[null, ...tags].map(t => (
+            <button
+              key={t ?? "all"}
+              onClick={() => setTag(t)}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                tag === t ? "bg-indigo-600 text-white" : "bg-white border border-slate-200 text-slate-500 hover:bg-slate-50"
+              }`}
+            >
+              {t ? `#${t}` : "All"}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <section className="bg-white rounded-2xl p-8 border border-slate-200 shadow-sm">
+        <h2 className="text-xl font-serif font-bold text-slate-800 mb-6 flex items-center gap-2">
+          <NotebookPen size={20} className="text-indigo-500" />
+          My Concepts
+        </h2>
+        <ConceptForm onAdd={concept => onNotesChange(saveUserConcept(notes, concept))} />
+        {concepts.length ? (
+          <ul className="divide-y divide-slate-100">
+            {concepts.map(c => (
+              <li key={c.id} className="py-3 flex items-start gap-3 group">
+                <div className="flex-1 min-w-0">
+                  <p className="text-slate-700"><span className="font-semibold text-slate-800">{c.term}</span> — {c.definition}</p>
+                  {c.tags.length > 0 && <div className="mt-1"><TagList tags={c.tags} /></div>}
+                </div>
+                <button
+                  onClick={() => onNotesChange(removeUserConcept(notes, c.id))}
+                  title="Delete"
+                  className="p-1.5 text-slate-300 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors opacity-0 group-hover:opacity-100 print:hidden"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-400">Concepts you add here appear next to the model's in Key Concepts and in exports.</p>
+        )}
+      </section>
+
+      <section className="bg-white rounded-2xl p-8 border border-slate-200 shadow-sm">
+        <h2 className="text-xl font-serif font-bold text-slate-800 mb-6">Annotations</h2>
+        {annotations.length ? (
+          <ul className="space-y-6">
+            {annotations.map(a => (
+              <li key={a.id} className="break-inside-avoid">
+                <button
+                  onClick={() => onOpenTarget(a.target)}
+                  className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase tracking-wider hover:text-indigo-600 mb-2"
+                >
+                  {a.highlight && <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: HIGHLIGHT_COLORS[a.highlight] }} />}
+                  {KIND_LABELS[a.target.kind]} · {targetLabel(analysis, a.target)}
+                  <ArrowUpRight size={12} className="print:hidden" />
+                </button>
+                {quoteOf(a) && <blockquote className="font-serif italic text-slate-600 mb-2">“{quoteOf(a)}”</blockquote>}
+                <AnnotationSummary annotation={a} />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-400">
+            Annotate chapters and concepts with the note button on each card, or select text in the Full Report to highlight it.
+          </p>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default NotesPanel;
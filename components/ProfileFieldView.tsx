@@ -0,0 +1,44 @@
+import React from "react";
+import { ClipboardList } from "lucide-react";
+import type { ProfileField, ProfileItem, ProfileValue } from "../types";
+import { parseMarkdownBlocks } from "../services/markdown";
+import MarkdownView from "./MarkdownView";
+
+const ItemCard: React.FC<{ item: ProfileItem; field: ProfileField }> = ({ item, field }) => (
+  <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+    <div className="flex items-start justify-between gap-4 mb-2">
+      <h3 className="text-lg font-bold text-slate-800">{item.title}</h3>
+      {item.tag && (
+        <span className="shrink-0 px-2.5 py-1 bg-indigo-50 text-indigo-700 text-xs font-medium rounded-full">
+          {field.tagLabel ? `${field.tagLabel}: ` : ""}{item.tag}
+        </span>
+      )}
+    </div>
+    <div className="[&_.markdown-body]:text-base">
+      <MarkdownView blocks={parseMarkdownBlocks(item.detail)} />
+    </div>
+  </div>
+);
+
+// Dashboard tab for one field of the analysis profile.
+const ProfileFieldView = ({ field, value }: { field: ProfileField; value?: ProfileValue }) => (
+  <div>
+    <h2 className="text-2xl font-serif font-bold text-slate-800 mb-6 flex items-center gap-2">
+      <ClipboardList className="text-indigo-500" />
+      {field.label}
+    </h2>
+    {!value || !value.length ? (
+      <p className="text-slate-400">The analysis found nothing for this field.</p>
+    ) : typeof value === "string" ? (
+      <div className="bg-white rounded-2xl p-8 border border-slate-200 shadow-sm">
+        <MarkdownView blocks={parseMarkdownBlocks(value)} />
+      </div>
+    ) : (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {value.map((item, i) => <ItemCard key={i} item={item} field={field} />)}
+      </div>
+    )}
+  </div>
+);
+
+export default ProfileFieldView;
@@ -0,0 +1,272 @@
+import React, { useState } from "react";
+import { Copy, Lock, Plus, SlidersHorizontal, Trash2, X } from "lucide-react";
+import type { AnalysisProfile, ProfileField, ProfileFieldKind } from "../types";
+import { fieldKey, profileIssues } from "../services/profiles";
+
+interface ProfilesPanelProps {
+  profiles: AnalysisProfile[];
+  // Receives every custom profile; built-in ones are not editable.
+  onSave: (custom: AnalysisProfile[]) => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-200 focus:border-indigo-400 disabled:bg-slate-50 disabled:text-slate-500";
+
+const labelClass = "text-xs font-bold text-slate-400 uppercase tracking-wider";
+
+const blankField = (): ProfileField => ({ key: "", label: "", instructions: "", kind: "list" });
+
+// --- Profile selector ---
+
+export const ProfileSelect = ({ profiles, value, onChange, onManage }: {
+  profiles: AnalysisProfile[];
+  value: string;
+  onChange: (id: string) => void;
+  onManage: () => void;
+}) => {
+  const selected = profiles.find(p => p.id === value);
+  return (
+    <div>
+      <div className="flex items-center gap-2">
+        <span className={labelClass}>Analyze as</span>
+        <select
+          value={value}
+          onChange={e => onChange(e.target.value)}
+          className="flex-1 px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+        >
+          {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <button
+          onClick={onManage}
+          title="Manage profiles"
+          className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+        >
+          <SlidersHorizontal size={18} />
+        </button>
+      </div>
+      {selected && <p className="text-sm text-slate-400 mt-2">{selected.description}</p>}
+    </div>
+  );
+};
+
+// --- Profile editor ---
+
+const ProfilesPanel = ({ profiles, onSave, onClose }: ProfilesPanelProps) => {
+  const [drafts, setDrafts] = useState<AnalysisProfile[]>(profiles);
+  const [selectedId, setSelectedId] = useState(profiles[0].id);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const selected = drafts.find(p => p.id === selectedId) ?? drafts[0];
+  const readOnly = !!selected.builtIn;
+
+  const update = (patch: Partial<AnalysisProfile>) =>
+    setDrafts(drafts.map(p => (p.id === selected.id ? { ...p, ...patch } : p)));
+
+  const updateField = (index: number, patch: Partial<ProfileField>) =>
+    update({
+      fields: selected.fields.map((f, i) => {
+        if (i !== index) return f;
+        const next = { ...f, ...patch };
+        return { ...next, key: fieldKey(next.label) };
+      }),
+    });
+
+  const addProfile = (base?: AnalysisProfile) => {
+    const profile: AnalysisProfile = {
+      id: crypto.randomUUID(),
+      name: base ? `${base.name} (copy)` : "New profile",
+      description: base?.description ?? "",
+      prompt: base?.prompt ?? "",
+      fields: base ? base.fields.map(f => ({ ...f })) : [blankField()],
+    };
+    setDrafts([...drafts, profile]);
+    setSelectedId(profile.id);
+  };
+
+  const removeProfile = () => {
+    if (!confirm(`Delete the "${selected.name}" profile?`)) return;
+    setDrafts(drafts.filter(p => p.id !== selected.id));
+    setSelectedId(drafts[0].id);
+  };
+
+  const handleSave = () => {
+    const custom = drafts.filter(p => !p.builtIn);
+    const problems = custom.flatMap(p => profileIssues(p).map(issue => `${p.name || "Untitled"}: ${issue}`));
+    setIssues(problems);
+    if (!problems.length) onSave(custom);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/30 backdrop-blur-sm flex items-center justify-center z-50 p-6 print:hidden" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-4xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <SlidersHorizontal size={18} className="text-indigo-500" />
+            Analysis Profiles
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded-full">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <aside className="w-56 border-r border-slate-100 p-3 overflow-y-auto shrink-0">
+            <ul className="space-y-1">
+              {drafts.map(p => (
+                <li key={p.id}>
+                  <button
+                    onClick={() => setSelectedId(p.id)}
+                    className={`w-full flex items-center gap-2 text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                      p.id === selected.id ? "bg-indigo-50 text-indigo-700 font-medium" : "text-slate-600 hover:bg-slate-50"
+                    }`}
+                  >
+                    <span className="flex-1 truncate">{p.name || "Untitled"}</span>
+                    {p.builtIn && <Lock size={12} className="text-slate-300 shrink-0" />}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={() => addProfile()}
+              className="w-full mt-3 flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-indigo-600 hover:bg-indigo-50"
+            >
+              <Plus size={14} />
+              New profile
+            </button>
+          </aside>
+
+          <div className="flex-1 p-6 overflow-y-auto space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-slate-500">
+                {readOnly ? "Built-in profiles can't be changed, but you can start a new one from a copy." : "Custom profile, saved in this browser."}
+              </p>
+              <div className="flex gap-1 shrink-0">
+                <button
+                  onClick={() => addProfile(selected)}
+                  title="Duplicate"
+                  className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+                >
+                  <Copy size={16} />
+                </button>
+                {!readOnly && (
+                  <button
+                    onClick={removeProfile}
+                    title="Delete"
+                    className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <label className="block">
+              <span className={labelClass}>Name</span>
+              <input value={selected.name} disabled={readOnly} onChange={e => update({ name: e.target.value })} className={`${inputClass} mt-1`} />
+            </label>
+            <label className="block">
+              <span className={labelClass}>Description</span>
+              <input value={selected.description} disabled={readOnly} onChange={e => update({ description: e.target.value })} className={`${inputClass} mt-1`} />
+            </label>
+            <label className="block">
+              <span className={labelClass}>Prompt</span>
+              <textarea
+                value={selected.prompt}
+                disabled={readOnly}
+                onChange={e => update({ prompt: e.target.value })}
+                rows={3}
+                placeholder="Extra guidance for the model, e.g. what kind of document this is and what to focus on"
+                className={`${inputClass} mt-1 resize-y`}
+              />
+            </label>
+
+            <div>
+              <span className={labelClass}>Fields</span>
+              <p className="text-xs text-slate-400 mt-1 mb-3">Each field becomes its own tab on the dashboard.</p>
+              <div className="space-y-3">
+                {selected.fields.map((field, i) => (
+                  <div key={i} className="rounded-xl border border-slate-200 p-4 space-y-2">
+                    <div className="flex gap-2">
+                      <input
+                        value={field.label}
+                        disabled={readOnly}
+                        onChange={e => updateField(i, { label: e.target.value })}
+                        placeholder="Label, e.g. Open Questions"
+                        className={inputClass}
+                      />
+                      <select
+                        value={field.kind}
+                        disabled={readOnly}
+                        onChange={e => updateField(i, { kind: e.target.value as ProfileFieldKind })}
+                        className={`${inputClass} w-32 bg-white`}
+                      >
+                        <option value="list">List</option>
+                        <option value="text">Text</option>
+                      </select>
+                      {!readOnly && (
+                        <button
+                          onClick={() => update({ fields: selected.fields.filter((_, j) => j !== i) })}
+                          title="Remove field"
+                          className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors"
+                        >
+                          <X size={16} />
+                        </button>
+                      )}
+                    </div>
+                    <input
+                      value={field.instructions}
+                      disabled={readOnly}
+                      onChange={e => updateField(i, { instructions: e.target.value })}
+                      placeholder="What the model should put here"
+                      className={inputClass}
+                    />
+                    {field.kind === "list" && (
+                      <input
+                        value={field.tagLabel ?? ""}
+                        disabled={readOnly}
+                        onChange={e => updateField(i, { tagLabel: e.target.value || undefined })}
+                        placeholder="Optional tag for each item, e.g. Deadline"
+                        className={inputClass}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+              {!readOnly && (
+                <button
+                  onClick={() => update({ fields: [...selected.fields, blankField()] })}
+                  className="mt-3 flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-indigo-600 hover:bg-indigo-50"
+                >
+                  <Plus size={14} />
+                  Add field
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-slate-100">
+          {issues.length > 0 && (
+            <ul className="text-sm text-red-600 mb-4 space-y-1">
+              {issues.map((issue, i) => <li key={i}>{issue}</li>)}
+            </ul>
+          )}
+          <div className="flex justify-end gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded-full text-sm font-medium text-slate-500 hover:bg-slate-50">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-4 py-2 rounded-full text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilesPanel;
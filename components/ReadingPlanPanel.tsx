@@ -0,0 +1,129 @@
+import React, { useState } from "react";
+import { CalendarDays, CalendarPlus, Flame } from "lucide-react";
+import type { AnalysisData, ReadingProgress } from "../types";
+import { buildPlan, formatDay, planToIcs, setTargetDate, summarizeProgress, toDay } from "../services/readingPlan";
+import { formatMinutes } from "../services/extraction";
+import { downloadFile, fileBaseName } from "../services/download";
+
+interface ReadingPlanPanelProps {
+  analysis: AnalysisData;
+  // Estimated minutes per chapter, by index.
+  minutes: number[];
+  progress: ReadingProgress;
+  // Identifies the document in calendar event ids.
+  uid: string;
+  // Unset while the analysis is still streaming and cannot be saved yet.
+  onProgressChange?: (progress: ReadingProgress) => void;
+  onOpenChapter: (index: number) => void;
+}
+
+// Days of the plan shown before "Show all".
+const PREVIEW_DAYS = 5;
+
+const ReadingPlanPanel = ({ analysis, minutes, progress, uid, onProgressChange, onOpenChapter }: ReadingPlanPanelProps) => {
+  const [showAll, setShowAll] = useState(false);
+  const today = toDay(new Date());
+  const summary = summarizeProgress(minutes, progress, today);
+  const plan = buildPlan(minutes, progress, today);
+  const finished = summary.chaptersRead === summary.chapters;
+  const overdue = !!progress.targetDate && progress.targetDate < today && !finished;
+
+  const exportPlan = () =>
+    downloadFile(
+      planToIcs(analysis, plan, minutes, uid),
+      `${fileBaseName(analysis.metadata.title)}_Reading_Plan.ics`,
+      "text/calendar"
+    );
+
+  return (
+    <div className="bg-white rounded-2xl p-8 border border-slate-200 shadow-sm mb-8">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-6">
+        <div className="flex-1">
+          <h2 className="text-2xl font-serif font-bold text-slate-800 mb-4 flex items-center gap-2">
+            <CalendarDays className="text-indigo-500" />
+            Reading Plan
+          </h2>
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden mb-2">
+            <div className="h-full bg-emerald-500 rounded-full transition-all" style={{ width: `${summary.percent}%` }} />
+          </div>
+          <p className="text-sm text-slate-600">
+            {summary.chaptersRead} of {summary.chapters} sections read · {summary.percent}%
+            {!finished && <> · {formatMinutes(summary.minutesLeft)} left</>}
+          </p>
+          {summary.streak > 0 && (
+            <p className="text-sm text-amber-700 flex items-center gap-1 mt-2">
+              <Flame size={14} />
+              {summary.streak} day streak
+              {summary.longestStreak > summary.streak && <span className="text-slate-400"> · best {summary.longestStreak}</span>}
+            </p>
+          )}
+        </div>
+        <div className="bg-slate-50 p-4 rounded-xl md:w-72 print:hidden">
+          <label className="block">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Finish by</span>
+            <input
+              type="date"
+              value={progress.targetDate ?? ""}
+              min={today}
+              disabled={!onProgressChange}
+              onChange={e => onProgressChange?.(setTargetDate(progress, e.target.value))}
+              className="w-full mt-1 px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-200 focus:border-indigo-400 disabled:opacity-50"
+            />
+          </label>
+          {!progress.targetDate ? (
+            <p className="text-xs text-slate-400 mt-2">Pick a date to get a day-by-day plan.</p>
+          ) : finished ? (
+            <p className="text-xs text-emerald-700 mt-2">All sections read.</p>
+          ) : (
+            <p className={`text-xs mt-2 ${overdue ? "text-red-600" : "text-slate-500"}`}>
+              {overdue ? "The finish date has passed; " : ""}
+              About {formatMinutes(summary.minutesPerDay!)} a day over {summary.daysLeft} day{summary.daysLeft === 1 ? "" : "s"}.
+            </p>
+          )}
+          {plan.length > 0 && (
+            <button
+              onClick={exportPlan}
+              className="flex items-center gap-1.5 mt-3 text-sm font-medium text-indigo-600 hover:text-indigo-800 transition-colors"
+            >
+              <CalendarPlus size={14} />
+              Add to calendar (.ics)
+            </button>
+          )}
+        </div>
+      </div>
+
+      {plan.length > 0 && (
+        <ol className="mt-6 divide-y divide-slate-100 border-t border-slate-100">
+          {(showAll ? plan : plan.slice(0, PREVIEW_DAYS)).map(day => (
+            <li key={day.date} className="py-3 flex items-start gap-4 text-sm">
+              <span className={`w-28 shrink-0 font-medium ${day.date === today ? "text-indigo-600" : "text-slate-500"}`}>
+                {formatDay(day.date, today)}
+              </span>
+              <span className="flex-1 text-slate-700">
+                {day.chapters.map((index, i) => (
+                  <React.Fragment key={index}>
+                    {i > 0 && ", "}
+                    <button onClick={() => onOpenChapter(index)} className="hover:text-indigo-600 hover:underline text-left">
+                      {analysis.chapterBreakdown[index].title}
+                    </button>
+                  </React.Fragment>
+                ))}
+              </span>
+              <span className="text-slate-400 whitespace-nowrap">{formatMinutes(day.minutes)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+      {plan.length > PREVIEW_DAYS && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="mt-2 text-sm font-medium text-slate-500 hover:text-indigo-600 transition-colors print:hidden"
+        >
+          {showAll ? "Show less" : `Show all ${plan.length} days, until ${formatDay(plan[plan.length - 1].date, today)}`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ReadingPlanPanel;
@@ -0,0 +1,153 @@
+import React, { useState } from "react";
+import { History, Loader2, RotateCcw, Wand2, X } from "lucide-react";
+import type { AnalysisVersion, RefineAction, RefineFields, RefineTarget } from "../types";
+import { REFINE_ACTIONS, diffText, fieldLabel, sameRefineTarget, versionsFor } from "../services/refinement";
+
+// Shared by every refinable section of the dashboard.
+export interface RefineContext {
+  // Target being refined right now; the other menus wait for it.
+  busy: RefineTarget | null;
+  versions: AnalysisVersion[];
+  onRefine: (target: RefineTarget, action: RefineAction) => void;
+  onShowHistory: (target: RefineTarget) => void;
+}
+
+export const RefineMenu = ({ target, refine }: { target: RefineTarget; refine: RefineContext }) => {
+  const [open, setOpen] = useState(false);
+  const busy = !!refine.busy && sameRefineTarget(refine.busy, target);
+  const history = versionsFor(refine.versions, target).length;
+
+  const choose = (action: RefineAction) => {
+    setOpen(false);
+    refine.onRefine(target, action);
+  };
+
+  return (
+    <div className="relative print:hidden">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={!!refine.busy}
+        title={busy ? "Rewriting…" : "Refine"}
+        className="p-1.5 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors disabled:hover:bg-transparent"
+      >
+        {busy ? <Loader2 size={14} className="animate-spin text-indigo-500" /> : <Wand2 size={14} />}
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <ul className="absolute right-0 mt-1 w-44 bg-white rounded-xl border border-slate-200 shadow-xl py-2 z-50 text-sm">
+            {(Object.keys(REFINE_ACTIONS) as RefineAction[]).map(action => (
+              <li key={action}>
+                <button onClick={() => choose(action)} className="w-full text-left px-4 py-1.5 text-slate-700 hover:bg-indigo-50 transition-colors">
+                  {REFINE_ACTIONS[action].label}
+                </button>
+              </li>
+            ))}
+            {history > 0 && (
+              <li className="border-t border-slate-100 mt-1 pt-1">
+                <button
+                  onClick={() => {
+                    setOpen(false);
+                    refine.onShowHistory(target);
+                  }}
+                  className="w-full text-left px-4 py-1.5 text-slate-500 hover:bg-indigo-50 transition-colors flex items-center gap-2"
+                >
+                  <History size={14} />
+                  History ({history})
+                </button>
+              </li>
+            )}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export const DiffView = ({ before, after }: { before: string; after: string }) => (
+  <p className="text-sm text-slate-600 whitespace-pre-wrap leading-relaxed">
+    {diffText(before, after).map((part, i) =>
+      part.kind === "same" ? (
+        <span key={i}>{part.text}</span>
+      ) : part.kind === "added" ? (
+        <ins key={i} className="bg-emerald-100 text-emerald-800 no-underline rounded-sm">{part.text}</ins>
+      ) : (
+        <del key={i} className="bg-red-100 text-red-700 rounded-sm">{part.text}</del>
+      )
+    )}
+  </p>
+);
+
+const ACTION_LABELS: Record<AnalysisVersion["action"], string> = {
+  ...Object.fromEntries(Object.entries(REFINE_ACTIONS).map(([action, { label }]) => [action, label])) as Record<RefineAction, string>,
+  revert: "Restored",
+};
+
+const sameFields = (a: RefineFields, b: RefineFields) => Object.keys(a).every(key => a[key] === b[key]);
+
+interface VersionHistoryProps {
+  title: string;
+  target: RefineTarget;
+  versions: AnalysisVersion[];
+  current: RefineFields;
+  onRestore: (fields: RefineFields) => void;
+  onClose: () => void;
+}
+
+// Every edit to one section, newest first, each shown as a diff against the text it replaced.
+export const VersionHistory = ({ title, target, versions, current, onRestore, onClose }: VersionHistoryProps) => {
+  const history = versionsFor(versions, target);
+  const original = history[0]?.before;
+
+  const restoreButton = (fields: RefineFields, label: string) =>
+    sameFields(fields, current) ? (
+      <span className="text-xs font-medium text-emerald-600">Current</span>
+    ) : (
+      <button onClick={() => onRestore(fields)} className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800">
+        <RotateCcw size={12} />
+        {label}
+      </button>
+    );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/30 backdrop-blur-sm flex items-center justify-center z-50 p-6 print:hidden">
+      <div className="bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-3xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <div>
+            <h2 className="font-serif font-bold text-xl text-slate-800">Version History</h2>
+            <p className="text-sm text-slate-500">{title}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded-full transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+        <ol className="overflow-y-auto px-6 py-4 space-y-6">
+          {[...history].reverse().map(version => (
+            <li key={version.id} className="space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+                  {ACTION_LABELS[version.action]} · {new Date(version.createdAt).toLocaleString()}
+                </span>
+                {restoreButton(version.after, "Restore")}
+              </div>
+              {Object.keys(version.after).map(key => (
+                <div key={key}>
+                  {Object.keys(version.after).length > 1 && (
+                    <p className="text-xs font-medium text-slate-500 mb-1">{fieldLabel(target, key)}</p>
+                  )}
+                  <DiffView before={version.before[key] ?? ""} after={version.after[key]} />
+                </div>
+              ))}
+            </li>
+          ))}
+          {original && (
+            <li className="flex items-center justify-between gap-4 pt-4 border-t border-slate-100">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Original analysis</span>
+              {restoreButton(original, "Restore original")}
+            </li>
+          )}
+        </ol>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from "react";
+import { Highlighter, Trash2 } from "lucide-react";
+import type { Annotation, HighlightColor, UserNotes } from "../types";
+import { HIGHLIGHT_COLORS, createAnnotation, removeAnnotation, saveAnnotation } from "../services/annotations";
+import { AnnotationControl } from "./AnnotationControls";
+
+interface ReportAnnotationsProps {
+  // Element holding only the rendered report; selections inside it can be highlighted.
+  // It should sit at the top-left of this component's positioned parent, which anchors the toolbar.
+  containerRef: React.RefObject<HTMLElement | null>;
+  // Re-applies highlights when the report text changes.
+  markdown: string;
+  notes: UserNotes;
+  onNotesChange?: (notes: UserNotes) => void;
+}
+
+const MAX_QUOTE_LENGTH = 1000;
+
+const countOccurrences = (text: string, quote: string) => {
+  let count = 0;
+  for (let i = text.indexOf(quote); i >= 0; i = text.indexOf(quote, i + quote.length)) count++;
+  return count;
+};
+
+// Finds the nth occurrence of `quote` in the text under `root` and returns it as a DOM range.
+const findRange = (root: HTMLElement, quote: string, occurrence: number): Range | null => {
+  const nodes: { node: Text; start: number }[] = [];
+  let text = "";
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    nodes.push({ node: node as Text, start: text.length });
+    text += node.nodeValue ?? "";
+  }
+  let index = -1;
+  for (let i = 0; i <= occurrence; i++) {
+    index = text.indexOf(quote, index < 0 ? 0 : index + quote.length);
+    if (index < 0) return null;
+  }
+  const locate = (offset: number) => {
+    const entry = [...nodes].reverse().find(n => n.start <= offset)!;
+    return { node: entry.node, offset: offset - entry.start };
+  };
+  const start = locate(index);
+  const end = locate(index + quote.length);
+  const range = document.createRange();
+  range.setStart(start.node, start.offset);
+  range.setEnd(end.node, end.offset);
+  return range;
+};
+
+const highlightName = (color: HighlightColor) => `note-${color}`;
+
+// Highlighting and commenting on passages of the full report.
+const ReportAnnotations = ({ containerRef, markdown, notes, onNotesChange }: ReportAnnotationsProps) => {
+  const [selection, setSelection] = useState<{ quote: string; occurrence: number; top: number; left: number } | null>(null);
+  const reportNotes = notes.annotations.filter((a): a is Annotation & { target: { kind: "report" } } => a.target.kind === "report");
+
+  // Painted with the CSS Custom Highlight API, so React's DOM is never modified.
+  useEffect(() => {
+    const root = containerRef.current;
+    if (!root || typeof Highlight === "undefined" || !CSS.highlights) return;
+    const colors = Object.keys(HIGHLIGHT_COLORS) as HighlightColor[];
+    for (const color of colors) {
+      const ranges = reportNotes
+        .filter(a => (a.highlight ?? "yellow") === color)
+        .map(a => findRange(root, a.target.quote, a.target.occurrence))
+        .filter((r): r is Range => !!r);
+      CSS.highlights.set(highlightName(color), new Highlight(...ranges));
+    }
+    return () => colors.forEach(color => CSS.highlights.delete(highlightName(color)));
+  }, [notes, markdown]);
+
+  // Offers to highlight whatever the reader selects inside the report.
+  useEffect(() => {
+    const root = containerRef.current;
+    if (!root || !onNotesChange) return;
+    const handleMouseUp = () => {
+      const sel = window.getSelection();
+      const range = sel && sel.rangeCount ? sel.getRangeAt(0) : null;
+      const quote = range?.toString().trim() ?? "";
+      if (!range || quote.length < 3 || quote.length > MAX_QUOTE_LENGTH || !root.contains(range.commonAncestorContainer)) {
+        setSelection(null);
+        return;
+      }
+      const before = document.createRange();
+      before.setStart(root, 0);
+      before.setEnd(range.startContainer, range.startOffset);
+      const box = range.getBoundingClientRect();
+      const origin = root.getBoundingClientRect();
+      setSelection({
+        quote,
+        occurrence: countOccurrences(before.toString(), quote),
+        top: box.top - origin.top,
+        left: box.left - origin.left + box.width / 2,
+      });
+    };
+    root.addEventListener("mouseup", handleMouseUp);
+    return () => root.removeEventListener("mouseup", handleMouseUp);
+  }, [onNotesChange]);
+
+  const handleHighlight = (highlight: HighlightColor) => {
+    if (!selection || !onNotesChange) return;
+    const target = { kind: "report" as const, quote: selection.quote, occurrence: selection.occurrence };
+    onNotesChange(saveAnnotation(notes, createAnnotation(target, { highlight })));
+    window.getSelection()?.removeAllRanges();
+    setSelection(null);
+  };
+
+  return (
+    <>
+      {selection && (
+        <div
+          className="absolute z-30 -translate-x-1/2 -translate-y-full -mt-2 flex items-center gap-1.5 bg-slate-800 rounded-full px-3 py-2 shadow-lg print:hidden"
+          style={{ top: selection.top, left: selection.left }}
+          // Keeps the selection alive while a color is clicked.
+          onMouseDown={e => e.preventDefault()}
+        >
+          <Highlighter size={14} className="text-white mr-1" />
+          {(Object.keys(HIGHLIGHT_COLORS) as HighlightColor[]).map(color => (
+            <button
+              key={color}
+              onClick={() => handleHighlight(color)}
+              title={`Highlight ${color}`}
+              className="w-5 h-5 rounded-full border border-white/50 hover:scale-110 transition-transform"
+              style={{ backgroundColor: HIGHLIGHT_COLORS[color] }}
+            />
+          ))}
+        </div>
+      )}
+
+      {reportNotes.length > 0 && (
+        <section className="mt-12 pt-8 border-t border-slate-200 break-inside-avoid">
+          <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+            <Highlighter size={14} />
+            Your Highlights
+          </h2>
+          <ul className="space-y-6">
+            {reportNotes.map(annotation => (
+              <li key={annotation.id} className="group">
+                <div className="flex items-start gap-2">
+                  <blockquote
+                    className="flex-1 pl-3 border-l-4 font-serif italic text-slate-600"
+                    style={{ borderLeftColor: HIGHLIGHT_COLORS[annotation.highlight ?? "yellow"] }}
+                  >
+                    {annotation.target.quote}
+                  </blockquote>
+                  {onNotesChange && (
+                    <button
+                      onClick={() => onNotesChange(removeAnnotation(notes, annotation.id))}
+                      title="Remove highlight"
+                      className="p-1.5 text-slate-300 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors opacity-0 group-hover:opacity-100 print:hidden"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </div>
+                <AnnotationControl target={annotation.target} notes={notes} onNotesChange={onNotesChange} />
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </>
+  );
+};
+
+export default ReportAnnotations;
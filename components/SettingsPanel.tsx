@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from "react";
+import { Settings, X } from "lucide-react";
+import { PROVIDER_OPTIONS, type ProviderId, type ProviderSettings } from "../services/providers";
+import { cacheStats, clearCache, type CacheSettings } from "../services/cache";
+
+interface SettingsPanelProps {
+  settings: ProviderSettings;
+  cache: CacheSettings;
+  onSave: (settings: ProviderSettings, cache: CacheSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-200 focus:border-indigo-400";
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const SettingsPanel = ({ settings, cache, onSave, onClose }: SettingsPanelProps) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const [cacheDraft, setCacheDraft] = useState<CacheSettings>(cache);
+  const [stats, setStats] = useState<{ entries: number; bytes: number } | null>(null);
+
+  useEffect(() => {
+    cacheStats().then(setStats).catch(() => setStats(null));
+  }, []);
+
+  const handleClearCache = async () => {
+    await clearCache();
+    setStats({ entries: 0, bytes: 0 });
+  };
+
+  const handleProviderChange = (provider: ProviderId) => {
+    const option = PROVIDER_OPTIONS.find(p => p.id === provider)!;
+    setDraft({ ...draft, provider, ...option.defaults });
+  };
+
+  const update = (field: keyof ProviderSettings) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setDraft({ ...draft, [field]: e.target.value });
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/30 backdrop-blur-sm flex items-center justify-center z-50 p-6 print:hidden" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-md p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Settings size={18} className="text-indigo-500" />
+            Model Settings
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded-full">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <label className="block">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Provider</span>
+            <select
+              value={draft.provider}
+              onChange={e => handleProviderChange(e.target.value as ProviderId)}
+              className={`${inputClass} mt-1 bg-white`}
+            >
+              {PROVIDER_OPTIONS.map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Model</span>
+            <input
+              value={draft.model}
+              onChange={update("model")}
+              placeholder={draft.provider === "server" ? "The server's default model" : undefined}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+
+          {draft.provider === "server" && (
+            <label className="block">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Server URL</span>
+              <input value={draft.endpoint} onChange={update("endpoint")} placeholder="/api" className={`${inputClass} mt-1`} />
+              <span className="text-xs text-slate-400 mt-1 block">The DeepRead server holds the API key; run it with <code>npm run server</code>.</span>
+            </label>
+          )}
+
+          {draft.provider === "openai" && (
+            <label className="block">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Endpoint</span>
+              <input
+                value={draft.endpoint}
+                onChange={update("endpoint")}
+                placeholder="http://localhost:11434/v1"
+                className={`${inputClass} mt-1`}
+              />
+              <span className="text-xs text-slate-400 mt-1 block">Any OpenAI-compatible base URL, including local Ollama or LM Studio servers.</span>
+            </label>
+          )}
+
+          {(draft.provider === "gemini" || draft.provider === "openai") && (
+            <label className="block">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">API Key</span>
+              <input
+                type="password"
+                value={draft.apiKey}
+                onChange={update("apiKey")}
+                placeholder={draft.provider === "gemini" ? "Your own Gemini API key" : "Optional for local endpoints"}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          )}
+
+          <div className="pt-4 border-t border-slate-100">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Response Cache</span>
+            <label className="flex items-center gap-2 mt-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={cacheDraft.enabled}
+                onChange={e => setCacheDraft({ ...cacheDraft, enabled: e.target.checked })}
+                className="accent-indigo-600"
+              />
+              Reuse answers when the same request is made again
+            </label>
+            <label className="flex items-center gap-2 mt-2 text-sm text-slate-600">
+              Keep up to
+              <input
+                type="number"
+                min={1}
+                value={cacheDraft.maxMegabytes}
+                onChange={e => setCacheDraft({ ...cacheDraft, maxMegabytes: Math.max(1, Number(e.target.value) || 1) })}
+                className={`${inputClass} w-20`}
+              />
+              MB
+            </label>
+            <div className="flex items-center justify-between mt-2 text-xs text-slate-400">
+              <span>{stats ? `${stats.entries} responses, ${formatMegabytes(stats.bytes)}` : "Not available in this browser"}</span>
+              {!!stats?.entries && (
+                <button onClick={handleClearCache} className="font-medium text-slate-500 hover:text-red-600 transition-colors">
+                  Clear cache
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-8">
+          <button onClick={onClose} className="px-4 py-2 rounded-full text-sm font-medium text-slate-500 hover:bg-slate-50">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft, cacheDraft)}
+            className="px-4 py-2 rounded-full text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
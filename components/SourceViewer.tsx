@@ -0,0 +1,151 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { BadgeCheck, ChevronLeft, ChevronRight, Quote, TriangleAlert, X } from "lucide-react";
+import type { SourceAnchor } from "../types";
+import type { ExtractedDocument, TextRange } from "../services/extraction";
+
+export interface Citation {
+  // What the passage is cited for, e.g. a concept term or chapter title.
+  label: string;
+  anchor: SourceAnchor;
+}
+
+interface ViewerSection extends TextRange {
+  title: string;
+}
+
+// Pages for paged documents, otherwise the spans between headings.
+const viewerSections = (doc: ExtractedDocument): ViewerSection[] => {
+  if (doc.pages.length) return doc.pages.map(p => ({ title: `Page ${p.number} of ${doc.pages.length}`, start: p.start, end: p.end }));
+  const sections: ViewerSection[] = [];
+  const first = doc.headings[0]?.offset ?? doc.text.length;
+  if (first > 0) sections.push({ title: "Beginning", start: 0, end: first });
+  doc.headings.forEach((h, i) => {
+    sections.push({ title: h.title, start: h.offset, end: doc.headings[i + 1]?.offset ?? doc.text.length });
+  });
+  return sections;
+};
+
+const initialSection = (sections: ViewerSection[], doc: ExtractedDocument, anchor: SourceAnchor) => {
+  if (anchor.start !== undefined) {
+    const index = sections.findIndex(s => anchor.start! >= s.start && anchor.start! < s.end);
+    if (index >= 0) return index;
+  }
+  if (anchor.page && doc.pages.length) return Math.min(anchor.page, doc.pages.length) - 1;
+  return 0;
+};
+
+// --- Citation chip ---
+
+export const CitationLink = ({ anchor, onOpen }: { anchor?: SourceAnchor; onOpen: (anchor: SourceAnchor) => void }) => {
+  if (!anchor) return null;
+  return (
+    <button
+      onClick={() => onOpen(anchor)}
+      title={anchor.quote}
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border transition-colors print:hidden ${
+        anchor.verified === false
+          ? "bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100"
+          : "bg-white text-slate-500 border-slate-200 hover:text-indigo-600 hover:border-indigo-200"
+      }`}
+    >
+      {anchor.verified === false ? <TriangleAlert size={12} /> : <Quote size={12} />}
+      {anchor.verified === false ? "Unverified" : anchor.page ? `p. ${anchor.page}` : "Source"}
+    </button>
+  );
+};
+
+// --- Viewer ---
+
+interface SourceViewerProps {
+  doc: ExtractedDocument | null;
+  citation: Citation;
+  onClose: () => void;
+}
+
+const SourceViewer = ({ doc, citation, onClose }: SourceViewerProps) => {
+  const { anchor } = citation;
+  const sections = useMemo(() => (doc ? viewerSections(doc) : []), [doc]);
+  const [index, setIndex] = useState(() => (doc ? initialSection(sections, doc, anchor) : 0));
+  const markRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    if (doc) setIndex(initialSection(sections, doc, anchor));
+  }, [anchor, doc, sections]);
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [index, anchor]);
+
+  const section = sections[index];
+  let body: React.ReactNode = null;
+  if (doc && section) {
+    const from = anchor.start !== undefined ? Math.max(anchor.start, section.start) : -1;
+    const to = anchor.end !== undefined ? Math.min(anchor.end, section.end) : -1;
+    body = from >= 0 && from < to ? (
+      <>
+        {doc.text.slice(section.start, from)}
+        <mark ref={markRef} className="bg-amber-200/70 text-slate-900 rounded px-0.5">{doc.text.slice(from, to)}</mark>
+        {doc.text.slice(to, section.end)}
+      </>
+    ) : doc.text.slice(section.start, section.end);
+  }
+
+  return (
+    <aside className="fixed top-0 right-0 h-screen w-full lg:w-[32rem] bg-white border-l border-slate-200 shadow-xl z-50 flex flex-col print:hidden">
+      <div className="p-6 border-b border-slate-100">
+        <div className="flex items-start justify-between gap-4 mb-3">
+          <div>
+            <div className="text-xs font-bold text-slate-400 uppercase tracking-wider">Source for</div>
+            <h3 className="font-bold text-slate-800">{citation.label}</h3>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded-full">
+            <X size={18} />
+          </button>
+        </div>
+        <blockquote className="text-sm text-slate-600 italic border-l-2 border-indigo-200 pl-3">“{anchor.quote}”</blockquote>
+        {anchor.verified === false ? (
+          <div className="mt-3 flex items-start gap-2 text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg p-2">
+            <TriangleAlert size={14} className="flex-shrink-0 mt-0.5" />
+            This quote could not be found in the extracted text. The claim it supports may not come from the document.
+          </div>
+        ) : (
+          <div className="mt-3 flex items-center gap-2 text-xs text-emerald-700">
+            <BadgeCheck size={14} />
+            Quote found in the document{anchor.page ? ` on page ${anchor.page}` : ""}.
+          </div>
+        )}
+      </div>
+
+      {doc && section ? (
+        <>
+          <div className="flex items-center justify-between px-6 py-2 border-b border-slate-100 text-sm">
+            <button
+              disabled={index === 0}
+              onClick={() => setIndex(index - 1)}
+              className="p-1 text-slate-400 hover:text-indigo-600 disabled:opacity-30"
+            >
+              <ChevronLeft size={18} />
+            </button>
+            <span className="font-medium text-slate-600 truncate">{section.title}</span>
+            <button
+              disabled={index === sections.length - 1}
+              onClick={() => setIndex(index + 1)}
+              className="p-1 text-slate-400 hover:text-indigo-600 disabled:opacity-30"
+            >
+              <ChevronRight size={18} />
+            </button>
+          </div>
+          <div className="flex-1 overflow-y-auto p-6 font-serif text-sm text-slate-700 leading-relaxed whitespace-pre-wrap">
+            {body}
+          </div>
+        </>
+      ) : (
+        <div className="flex-1 flex items-center justify-center p-6 text-sm text-slate-400 text-center">
+          The source text is not available for this document.
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default SourceViewer;
@@ -0,0 +1,127 @@
+import React from "react";
+import { Gauge, X } from "lucide-react";
+import type { UsageRecord } from "../types";
+import { formatCost, formatTokens, groupUsage, summarizeUsage, type UsageSummary } from "../services/usage";
+
+interface UsagePanelProps {
+  title: string;
+  records: UsageRecord[];
+  // Per-document breakdown for the library summary.
+  documents?: { name: string; records: UsageRecord[] }[];
+  onClose: () => void;
+}
+
+const Stat = ({ label, value, hint }: { label: string; value: string; hint?: string }) => (
+  <div className="bg-slate-50 rounded-xl p-4">
+    <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">{label}</p>
+    <p className="text-2xl font-bold text-slate-800 mt-1">{value}</p>
+    {hint && <p className="text-xs text-slate-400 mt-0.5">{hint}</p>}
+  </div>
+);
+
+const UsageTable = ({ heading, rows }: { heading: string; rows: ({ name: string } & UsageSummary)[] }) => (
+  <table className="w-full text-sm">
+    <thead className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+      <tr>
+        <th className="text-left py-2">{heading}</th>
+        <th className="text-right py-2">Calls</th>
+        <th className="text-right py-2">Input</th>
+        <th className="text-right py-2">Output</th>
+        <th className="text-right py-2">Cost</th>
+      </tr>
+    </thead>
+    <tbody className="divide-y divide-slate-100 text-slate-600">
+      {rows.map((row, i) => (
+        <tr key={i}>
+          <td className="py-2 pr-4 text-slate-800 truncate max-w-[16rem]">{row.name}</td>
+          <td className="py-2 text-right">{row.calls}{row.cachedCalls > 0 && <span className="text-emerald-600"> ({row.cachedCalls} cached)</span>}</td>
+          <td className="py-2 text-right">{formatTokens(row.inputTokens)}</td>
+          <td className="py-2 text-right">{formatTokens(row.outputTokens)}</td>
+          <td className="py-2 text-right">{formatCost(row.cost)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// Token counts and estimated spend, for one document or the whole library.
+const UsagePanel = ({ title, records, documents, onClose }: UsagePanelProps) => {
+  const summary = summarizeUsage(records);
+  return (
+    <div className="fixed inset-0 bg-slate-900/30 backdrop-blur-sm flex items-center justify-center z-50 p-6 print:hidden" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-3xl max-h-full flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <div>
+            <h2 className="font-serif font-bold text-xl text-slate-800 flex items-center gap-2">
+              <Gauge size={18} className="text-indigo-500" />
+              Usage
+            </h2>
+            <p className="text-sm text-slate-500">{title}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded-full transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+        <div className="overflow-y-auto px-6 py-5 space-y-6">
+          {!records.length ? (
+            <p className="text-sm text-slate-400">No model calls recorded yet.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <Stat label="Calls" value={String(summary.calls)} hint={summary.cachedCalls ? `${summary.cachedCalls} from cache` : undefined} />
+                <Stat label="Input" value={formatTokens(summary.inputTokens)} hint="tokens" />
+                <Stat label="Output" value={formatTokens(summary.outputTokens)} hint="tokens" />
+                <Stat
+                  label="Cost"
+                  value={formatCost(summary.cost)}
+                  hint={summary.saved > 0 ? `${formatCost(summary.saved)} saved by cache` : "estimated from list prices"}
+                />
+              </div>
+              {summary.estimated && (
+                <p className="text-xs text-slate-400">Some providers report no token counts; those calls are estimated from their text length.</p>
+              )}
+              {documents && documents.length > 0 && (
+                <UsageTable
+                  heading="Document"
+                  rows={documents
+                    .map(d => ({ name: d.name, ...summarizeUsage(d.records) }))
+                    .filter(row => row.calls > 0)
+                    .sort((a, b) => (b.cost ?? 0) - (a.cost ?? 0))}
+                />
+              )}
+              <UsageTable heading="Model" rows={groupUsage(records, r => r.model || r.provider)} />
+              <UsageTable heading="Task" rows={groupUsage(records, r => r.task)} />
+              {!documents && (
+                <div>
+                  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Calls</h3>
+                  <ol className="text-sm divide-y divide-slate-100">
+                    {[...records].reverse().map((r, i) => (
+                      <li key={i} className="py-2 flex items-center justify-between gap-4 text-slate-600">
+                        <span>
+                          <span className="text-slate-800 font-medium">{r.task}</span>{" "}
+                          <span className="text-slate-400">· {r.model} · {new Date(r.at).toLocaleString()}</span>
+                        </span>
+                        <span className="text-right whitespace-nowrap">
+                          {r.cached ? (
+                            <span className="text-emerald-600">cached</span>
+                          ) : (
+                            <>
+                              {formatTokens(r.inputTokens)} → {formatTokens(r.outputTokens)}
+                              {r.estimated && "*"} · {(r.latencyMs / 1000).toFixed(1)} s
+                            </>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,178 @@
+import type { AnalysisData, SynthesisResult } from "../types";
+
+// Deterministic responses for the mock provider, keyed by `ModelRequest.task`.
+
+const analysis: AnalysisData = {
+  metadata: {
+    title: "The Sample Reader",
+    author: "A. N. Author",
+    genre: "Non-fiction",
+    readingTime: "25 min",
+    language: "English",
+  },
+  executiveSummary:
+    "A short fixture document used to exercise DeepRead without calling a model. It argues that deliberate reading, note-taking and review turn information into lasting understanding.",
+  chapterBreakdown: [
+    {
+      title: "Why Reading Fades",
+      summary: "Most of what we read is forgotten within days unless it is revisited or used.",
+      insight: "Retention depends more on what happens after reading than during it.",
+      summarySource: { quote: "Most of what we read is forgotten within days", page: 1 },
+    },
+    {
+      title: "Reading With Questions",
+      summary: "Framing questions before reading focuses attention on the arguments that matter.",
+      insight: "A question turns passive reading into a search.",
+    },
+    {
+      title: "From Notes to Knowledge",
+      summary: "Notes become useful when they are rewritten in one's own words and reviewed over time.",
+      insight: "Summaries are for the future reader, who is usually yourself.",
+    },
+  ],
+  keyConcepts: [
+    {
+      term: "Active Reading",
+      definition: "Engaging with a text by questioning, summarizing and connecting it to prior knowledge.",
+      importance: 92,
+      source: { quote: "Reading is the foundation of learning", page: 1 },
+      chapters: ["Reading With Questions"],
+    },
+    {
+      term: "Spaced Review",
+      definition: "Revisiting material at increasing intervals to strengthen long-term memory.",
+      importance: 85,
+      chapters: ["Why Reading Fades", "From Notes to Knowledge"],
+    },
+    {
+      term: "Note Synthesis",
+      definition: "Combining notes from several sources into a single coherent argument.",
+      importance: 71,
+      chapters: ["From Notes to Knowledge"],
+    },
+    {
+      term: "Skimming",
+      definition: "Reading quickly for structure and main ideas before a closer pass.",
+      importance: 48,
+      chapters: ["Reading With Questions"],
+    },
+  ],
+  conceptRelations: [
+    { from: "Note Synthesis", to: "Active Reading", type: "depends_on" },
+    { from: "Skimming", to: "Active Reading", type: "contrasts_with" },
+    { from: "Spaced Review", to: "Active Reading", type: "example_of" },
+  ],
+  topicStats: [
+    { topic: "Memory", relevance: 88 },
+    { topic: "Study Habits", relevance: 76 },
+    { topic: "Note-taking", relevance: 64 },
+    { topic: "Attention", relevance: 41 },
+  ],
+  fullMarkdownReport: `# The Sample Reader
+
+## Summary
+A short fixture document used to exercise DeepRead without calling a model.
+
+## Key Ideas
+- **Active Reading** — engage with the text by asking questions.
+- **Spaced Review** — revisit material at increasing intervals.
+- **Note Synthesis** — combine sources into one argument.
+
+## Takeaway
+Retention depends more on what happens *after* reading than during it.
+`,
+};
+
+const synthesis: SynthesisResult = {
+  overview: "Both works treat reading as an active skill, but they disagree on how much structure note-taking needs.",
+  agreements: [
+    { claim: "Reviewing material at increasing intervals improves long-term retention.", sources: [1, 2] },
+  ],
+  contradictions: [
+    {
+      topic: "Note-taking",
+      positions: [
+        { source: 1, position: "Notes should be synthesized into a single argument." },
+        { source: 2, position: "Brief marginal notes are enough if they are reviewed." },
+      ],
+    },
+  ],
+  gaps: [
+    { claim: "Neither work measures how reading speed affects comprehension.", sources: [1, 2] },
+  ],
+};
+
+export const mockFixtures: Record<string, unknown> = {
+  analysis,
+  "analysis-reduce": {
+    executiveSummary: analysis.executiveSummary,
+    fullMarkdownReport: analysis.fullMarkdownReport,
+  },
+  ask: "The document argues that **active reading** — questioning and summarizing as you go — is what makes reading stick [1]. It adds that notes only pay off when they are reviewed later [2].",
+  synthesis,
+  flashcards: {
+    cards: [
+      { kind: "cloze", front: "Revisiting material at increasing intervals is called _____.", back: "Spaced review", importance: 85 },
+      { kind: "qa", front: "Why does the author say notes often fail to help?", back: "Because they are rarely reviewed after they are written.", importance: 70 },
+    ],
+  },
+  "refine-chapter": {
+    summary: "Most of what we read fades within days. Memories that are never retrieved weaken fastest, so a single reading leaves little behind.",
+    insight: "What you do after reading decides what you keep.",
+  },
+  "refine-concept": {
+    definition: "Reading with a pencil in hand: asking questions of the text, summarizing each section and linking it to what you already know.",
+  },
+  "refine-summary": {
+    executiveSummary: "Reading alone rarely produces lasting understanding. The document shows how questions, notes in your own words and spaced review turn a single reading into knowledge you keep.",
+  },
+  "refine-report": {
+    fullMarkdownReport: `${analysis.fullMarkdownReport}
+## Examples
+- Before a chapter, write down two questions and answer them afterwards.
+- Review yesterday's notes for five minutes before starting new reading.
+`,
+  },
+  translate: {
+    genre: "Sachbuch",
+    executiveSummary:
+      "Ein kurzes Testdokument, mit dem DeepRead ohne Modellaufruf geprüft wird. Es argumentiert, dass bewusstes Lesen, Notizen und Wiederholung Informationen in dauerhaftes Verständnis verwandeln.",
+    keyConcepts: [
+      { term: "Aktives Lesen", definition: "Sich mit einem Text auseinandersetzen, indem man ihn hinterfragt, zusammenfasst und mit Vorwissen verknüpft." },
+      { term: "Verteilte Wiederholung", definition: "Stoff in wachsenden Abständen erneut durchgehen, um das Langzeitgedächtnis zu stärken." },
+      { term: "Notizsynthese", definition: "Notizen aus mehreren Quellen zu einem einzigen schlüssigen Argument verbinden." },
+      { term: "Überfliegen", definition: "Schnell nach Aufbau und Hauptgedanken lesen, bevor man genauer liest." },
+    ],
+    chapterBreakdown: [
+      {
+        title: "Warum Gelesenes verblasst",
+        summary: "Das meiste, was wir lesen, ist nach wenigen Tagen vergessen, wenn es nicht wiederholt oder genutzt wird.",
+        insight: "Was man behält, hängt mehr davon ab, was nach dem Lesen geschieht, als davon, was währenddessen geschieht.",
+      },
+      {
+        title: "Lesen mit Fragen",
+        summary: "Fragen vor dem Lesen lenken die Aufmerksamkeit auf die Argumente, auf die es ankommt.",
+        insight: "Eine Frage macht aus passivem Lesen eine Suche.",
+      },
+      {
+        title: "Von Notizen zu Wissen",
+        summary: "Notizen werden nützlich, wenn man sie in eigenen Worten neu schreibt und mit der Zeit wiederholt.",
+        insight: "Zusammenfassungen sind für den künftigen Leser, und das ist meist man selbst.",
+      },
+    ],
+    topics: ["Gedächtnis", "Lerngewohnheiten", "Notizen", "Aufmerksamkeit"],
+    fullMarkdownReport: `# The Sample Reader
+
+## Zusammenfassung
+Ein kurzes Testdokument, mit dem DeepRead ohne Modellaufruf geprüft wird.
+
+## Kerngedanken
+- **Aktives Lesen** — sich mit dem Text auseinandersetzen, indem man Fragen stellt.
+- **Verteilte Wiederholung** — Stoff in wachsenden Abständen erneut durchgehen.
+- **Notizsynthese** — Quellen zu einem Argument verbinden.
+
+## Fazit
+Was man behält, hängt mehr davon ab, was *nach* dem Lesen geschieht, als davon, was währenddessen geschieht.
+`,
+  },
+};
@@ -1,54 +1,104 @@
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useMemo, useEffect } from "react";
 import { createRoot } from "react-dom/client";
-import { GoogleGenAI, Type } from "@google/genai";
 import { 
   BookOpen, 
   Upload, 
   FileText, 
   Loader2, 
-  Download, 
   Printer, 
   BarChart2, 
   List, 
   BrainCircuit,
-  AlertCircle
+  AlertCircle,
+  Settings,
+  Check,
+  RefreshCw,
+  Library,
+  MessageSquare,
+  Layers,
+  ClipboardList,
+  NotebookPen,
+  Network,
+  LayoutGrid,
+  Table2,
+  Gauge,
+  CheckCircle2,
+  Circle,
+  ClipboardPaste
 } from "lucide-react";
-
-// --- Types ---
-
-interface AnalysisData {
-  metadata: {
-    title: string;
-    author: string;
-    genre: string;
-    readingTime: string;
-  };
-  executiveSummary: string;
-  keyConcepts: {
-    term: string;
-    definition: string;
-    importance: number; // 1-100
-  }[];
-  chapterBreakdown: {
-    title: string;
-    summary: string;
-    insight: string;
-  }[];
-  topicStats: {
-    topic: string;
-    relevance: number; // 1-100
-  }[];
-  fullMarkdownReport: string;
-}
-
-type ViewState = "upload" | "processing" | "dashboard";
-type DashboardTab = "overview" | "concepts" | "visuals" | "full-report";
+import type {
+  AnalysisData,
+  AnalysisProfile,
+  AnalysisVersion,
+  AnnotationTarget,
+  ChatMessage,
+  Flashcard,
+  RefineAction,
+  RefineFields,
+  ReadingProgress,
+  RefineTarget,
+  UsageRecord,
+  UserNotes,
+  ViewState,
+  DashboardTab,
+} from "./types";
+import { createProvider, providerLabel, resolveModel, type ProviderSettings } from "./services/providers";
+import { LARGE_ANALYSIS_TOKENS, estimateAnalysis, formatCost, formatTokens, recordOtherUsage, summarizeUsage, trackUsage, type AnalysisEstimate } from "./services/usage";
+import { loadCacheSettings, saveCacheSettings, withCache, type CacheSettings } from "./services/cache";
+import { analyzeChunks, mergeChunkAnalyses, previewAnalysis, withDocumentStats, type ChunkState, type ReducedFields } from "./services/analysis";
+import { chunkDocument } from "./services/chunking";
+import { extractDocument, formatMinutes, type ExtractedDocument, type SourceFile } from "./services/extraction";
+import { createEntry, finishAnalysis, isSupportedFile, readSource } from "./services/pipeline";
+import { SUPPORTED_EXTENSIONS } from "./services/extraction";
+import { isRetryable, toErrorInfo, type ErrorInfo } from "./services/errors";
+import { cardsFromAnalysis, retextCards, withUniqueIds } from "./services/flashcards";
+import { findByHash, getDocument, hashContent, saveEntry, updateEntry, type LibraryEntry } from "./services/library";
+import { loadProviderSettings, saveProviderSettings } from "./services/settings";
+import { parseAnalysisExport } from "./services/exporters";
+import { BUILT_IN_PROFILES, findProfile, loadCustomProfiles, loadSelectedProfileId, saveCustomProfiles, saveSelectedProfileId } from "./services/profiles";
+import SettingsPanel from "./components/SettingsPanel";
+import LibraryView from "./components/LibraryView";
+import SourceViewer, { CitationLink, type Citation } from "./components/SourceViewer";
+import MarkdownView, { TableOfContents } from "./components/MarkdownView";
+import AskPanel from "./components/AskPanel";
+import FlashcardsPanel from "./components/FlashcardsPanel";
+import ErrorNotice from "./components/ErrorNotice";
+import ExportMenu from "./components/ExportMenu";
+import CompareView from "./components/CompareView";
+import ProfilesPanel, { ProfileSelect } from "./components/ProfilesPanel";
+import ProfileFieldView from "./components/ProfileFieldView";
+import { headingId, parseMarkdownBlocks, tableOfContents } from "./services/markdown";
+import { emptyNotes, findAnnotation, renameConceptTargets } from "./services/annotations";
+import ReportAnnotations from "./components/ReportAnnotations";
+import NotesPanel from "./components/NotesPanel";
+import ConceptGraph from "./components/ConceptGraph";
+import { conceptChapters } from "./services/conceptGraph";
+import { applyFields, createVersion, currentFields, refineSection, refineTargetLabel } from "./services/refinement";
+import { RefineMenu, VersionHistory, type RefineContext } from "./components/RefineControls";
+import { isBilingual, loadOutputLanguage, renamedConcepts, saveOutputLanguage, translateAnalysis } from "./services/language";
+import { GlossaryTable, LanguageSelect, TranslateMenu } from "./components/LanguageControls";
+import { AnnotationControl, TagList, highlightStyle } from "./components/AnnotationControls";
+import UsagePanel from "./components/UsagePanel";
+import ReadingPlanPanel from "./components/ReadingPlanPanel";
+import { chapterMinutes, emptyProgress, isChapterRead, toggleChapterRead } from "./services/readingPlan";
 
 // --- Components ---
 
+// Pasted text becomes a file like any upload, named after its title or first line.
+const pastedFile = (text: string) => {
+  const isHtml = /^\s*(<!doctype html|<html|<body)/i.test(text);
+  const title = isHtml
+    ? text.match(/<title\b[^>]*>([^<]*)<\/title>/i)?.[1]
+    : text.split("\n").find(line => line.trim());
+  const base = (title ?? "").replace(/^#+\s*/, "").replace(/[\\/:*?"<>|]+/g, " ").trim().slice(0, 60) || "Pasted text";
+  return new File([text], `${base}${isHtml ? ".html" : ".txt"}`, { type: isHtml ? "text/html" : "text/plain" });
+};
+
 // 1. File Upload
-const FileUpload = ({ onFileSelect }: { onFileSelect: (file: File) => void }) => {
+const FileUpload = ({ onFilesSelect }: { onFilesSelect: (files: File[]) => void }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [isPasting, setIsPasting] = useState(false);
+  const [pasted, setPasted] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDrag = (e: React.DragEvent) => {
@@ -66,27 +116,33 @@ const FileUpload = ({ onFileSelect }: { onFileSelect: (file: File) => void }) =>
     e.stopPropagation();
     setIsDragging(false);
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      validateAndProcess(e.dataTransfer.files[0]);
+      validateAndProcess(Array.from(e.dataTransfer.files));
     }
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      validateAndProcess(e.target.files[0]);
+      validateAndProcess(Array.from(e.target.files));
     }
+    e.target.value = "";
   };
 
-  const validateAndProcess = (file: File) => {
-    const validTypes = ['text/markdown', 'text/plain', 'application/pdf'];
-    // Basic validation - extension check fallback
-    const isMd = file.name.endsWith('.md') || file.name.endsWith('.markdown');
-    const isPdf = file.type === 'application/pdf' || file.name.endsWith('.pdf');
-    
-    if (isMd || isPdf || validTypes.includes(file.type)) {
-      onFileSelect(file);
-    } else {
-      alert("Please upload a PDF or Markdown file.");
+  const isSupported = (file: File) => isSupportedFile(file.name, file.type);
+
+  const validateAndProcess = (files: File[]) => {
+    const rejected = files.filter(f => !isSupported(f));
+    if (rejected.length) {
+      alert(`Please upload PDF, EPUB, Word, HTML, Markdown or text files. Skipping: ${rejected.map(f => f.name).join(", ")}`);
     }
+    const accepted = files.filter(isSupported);
+    if (accepted.length) onFilesSelect(accepted);
+  };
+
+  const submitPasted = () => {
+    if (!pasted.trim()) return;
+    onFilesSelect([pastedFile(pasted)]);
+    setPasted("");
+    setIsPasting(false);
   };
 
   return (
@@ -115,7 +171,8 @@ const FileUpload = ({ onFileSelect }: { onFileSelect: (file: File) => void }) =>
           type="file" 
           ref={fileInputRef} 
           onChange={handleChange} 
-          accept=".md,.markdown,.pdf,.txt" 
+          accept={SUPPORTED_EXTENSIONS.join(",")}
+          multiple
           className="hidden" 
         />
         
@@ -131,34 +188,176 @@ const FileUpload = ({ onFileSelect }: { onFileSelect: (file: File) => void }) =>
             {isDragging ? "Drop to Analyze" : "Drop your book or paper here"}
           </h3>
           <p className="text-slate-400 text-sm">
-            Supports PDF & Markdown. 
+            Supports PDF, EPUB, Word, HTML, Markdown & plain text.
+            <br />
+            Drop several files at once to compare them.
             <br />
             We'll analyze structure, key concepts, and sentiment.
           </p>
         </div>
 
         <div className="flex gap-3 mt-2">
-          <span className="px-3 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-500 border border-slate-200">.PDF</span>
-          <span className="px-3 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-500 border border-slate-200">.MD</span>
+          {[".PDF", ".EPUB", ".DOCX", ".HTML", ".MD", ".TXT"].map(ext => (
+            <span key={ext} className="px-3 py-1 rounded-md bg-slate-100 text-xs font-medium text-slate-500 border border-slate-200">{ext}</span>
+          ))}
         </div>
       </div>
+
+      {isPasting ? (
+        <div className="w-full max-w-xl mt-6">
+          <textarea
+            value={pasted}
+            onChange={e => setPasted(e.target.value)}
+            autoFocus
+            rows={8}
+            placeholder="Paste an article's text, Markdown, or a saved page's HTML"
+            className="w-full p-4 rounded-2xl border border-slate-200 bg-white text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-200 focus:border-indigo-400"
+          />
+          <div className="flex justify-end gap-2 mt-2">
+            <button
+              onClick={() => setIsPasting(false)}
+              className="px-4 py-2 rounded-full text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={submitPasted}
+              disabled={!pasted.trim()}
+              className="px-4 py-2 rounded-full text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              Analyze
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsPasting(true)}
+          className="flex items-center gap-1.5 mt-6 text-sm font-medium text-slate-500 hover:text-indigo-600 transition-colors"
+        >
+          <ClipboardPaste size={14} />
+          Or paste text or HTML
+        </button>
+      )}
     </div>
   );
 };
 
 // 2. Processing State
-const ProcessingView = () => (
-  <div className="flex flex-col items-center justify-center min-h-[60vh] p-8 animate-in fade-in duration-700">
-    <div className="relative">
-      <div className="absolute inset-0 bg-indigo-200 rounded-full blur-xl opacity-50 animate-pulse"></div>
-      <Loader2 size={64} className="text-indigo-600 animate-spin relative z-10" />
+type ProcessingStage = "reading" | "mapping" | "reducing";
+
+interface ProcessingViewProps {
+  providerName: string;
+  // Position within a multi-document upload, e.g. "Document 2 of 3: notes.md".
+  batchLabel?: string | null;
+  stage: ProcessingStage;
+  chunks: ChunkState[];
+  reduceError: ErrorInfo | null;
+  onRetryChunk: (index: number) => void;
+  onRetryFailed: () => void;
+  onRetryMerge: () => void;
+  onCancel: () => void;
+}
+
+const ProcessingView = ({ providerName, batchLabel, stage, chunks, reduceError, onRetryChunk, onRetryFailed, onRetryMerge, onCancel }: ProcessingViewProps) => {
+  const done = chunks.filter(c => c.status === "done").length;
+  const failed = chunks.filter(c => c.status === "error");
+  const busy = !failed.length && !reduceError;
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[60vh] p-8 animate-in fade-in duration-700 w-full max-w-xl">
+      <div className="relative">
+        <div className={`absolute inset-0 bg-indigo-200 rounded-full blur-xl opacity-50 ${busy ? "animate-pulse" : ""}`}></div>
+        {busy
+          ? <Loader2 size={64} className="text-indigo-600 animate-spin relative z-10" />
+          : <AlertCircle size={64} className="text-red-500 relative z-10" />}
+      </div>
+      {batchLabel && <p className="mt-8 -mb-6 text-sm font-medium text-indigo-600 max-w-md truncate">{batchLabel}</p>}
+      <h2 className="mt-8 text-2xl font-serif font-bold text-slate-800">
+        {stage === "reading" ? "Reading Document..." : stage === "reducing" ? "Combining Sections..." : "Reading & Analyzing..."}
+      </h2>
+      <p className="text-slate-500 mt-2 max-w-md text-center">
+        {providerName} is digesting the content, identifying key themes, and structuring your notes. This may take a moment for large files.
+      </p>
+
+      {chunks.length > 1 && (
+        <div className="w-full mt-8">
+          <div className="flex justify-between text-sm mb-1">
+            <span className="font-medium text-slate-700">{done} of {chunks.length} sections analyzed</span>
+            <span className="text-slate-400">{Math.round((done / chunks.length) * 100)}%</span>
+          </div>
+          <div className="h-3 bg-slate-100 rounded-full overflow-hidden mb-6">
+            <div
+              className="h-full bg-indigo-500 rounded-full transition-all duration-500 ease-out"
+              style={{ width: `${(done / chunks.length) * 100}%` }}
+            />
+          </div>
+          <ul className="space-y-2 max-h-64 overflow-y-auto">
+            {chunks.map((c, i) => (
+              <li key={i} className="flex items-center gap-3 text-sm">
+                {c.status === "done" && <Check size={16} className="text-emerald-500 flex-shrink-0" />}
+                {c.status === "running" && <Loader2 size={16} className="text-indigo-500 animate-spin flex-shrink-0" />}
+                {c.status === "pending" && <div className="w-4 h-4 rounded-full border-2 border-slate-200 flex-shrink-0" />}
+                {c.status === "error" && <AlertCircle size={16} className="text-red-500 flex-shrink-0" />}
+                <span className={`truncate ${c.status === "error" ? "text-red-600" : "text-slate-600"}`} title={c.error?.message}>
+                  {c.chunk.label}
+                </span>
+                {c.status === "error" && (
+                  <button onClick={() => onRetryChunk(i)} className="ml-auto flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800">
+                    <RefreshCw size={12} />
+                    Retry
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {failed.length > 0 && (
+        <ErrorNotice
+          error={failed[0].error!}
+          context={chunks.length > 1 ? (failed.length > 1 ? `${failed.length} sections failed` : failed[0].chunk.label) : undefined}
+          onRetry={onRetryFailed}
+          className="mt-6 w-full"
+        />
+      )}
+
+      {reduceError && (
+        <ErrorNotice error={reduceError} context="Combining sections" onRetry={onRetryMerge} className="mt-6 w-full" />
+      )}
+
+      <button onClick={onCancel} className="mt-8 px-4 py-2 rounded-full text-sm font-medium text-slate-500 hover:bg-slate-50">
+        Cancel
+      </button>
     </div>
-    <h2 className="mt-8 text-2xl font-serif font-bold text-slate-800">Reading & Analyzing...</h2>
-    <p className="text-slate-500 mt-2 max-w-md text-center">
-      Gemini is digesting the content, identifying key themes, and structuring your notes. This may take a moment for large files.
-    </p>
-  </div>
-);
+  );
+};
+
+// Shown above a dashboard that is still filling in.
+const StreamingBanner = ({ stage, chunks, onCancel }: { stage: ProcessingStage; chunks: ChunkState[]; onCancel: () => void }) => {
+  const done = chunks.filter(c => c.status === "done").length;
+  return (
+    <div className="flex items-center gap-4 bg-indigo-50 border border-indigo-100 rounded-2xl px-6 py-4 mb-8 print:hidden">
+      <Loader2 size={20} className="text-indigo-600 animate-spin flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-indigo-900">
+          {stage === "reducing" ? "Combining sections into one report..." : "Writing your notes as the model reads..."}
+        </p>
+        {chunks.length > 1 && (
+          <div className="flex items-center gap-3 mt-2">
+            <div className="flex-1 h-1.5 bg-indigo-100 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 rounded-full transition-all duration-500" style={{ width: `${(done / chunks.length) * 100}%` }} />
+            </div>
+            <span className="text-xs text-indigo-700">{done} of {chunks.length} sections</span>
+          </div>
+        )}
+      </div>
+      <button onClick={onCancel} className="px-4 py-2 rounded-full text-sm font-medium text-indigo-700 hover:bg-indigo-100 transition-colors">
+        Cancel
+      </button>
+    </div>
+  );
+};
 
 // 3. Charts
 const BarChart = ({ data }: { data: { label: string; value: number }[] }) => {
@@ -184,189 +383,722 @@ const BarChart = ({ data }: { data: { label: string; value: number }[] }) => {
 };
 
 // 4. Dashboard Components
-const ConceptCard: React.FC<{ concept: AnalysisData['keyConcepts'][0], index: number }> = ({ concept, index }) => (
-  <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm hover:shadow-md transition-all hover:-translate-y-1">
+type CiteHandler = (citation: Citation) => void;
+
+type NotesProps = { notes: UserNotes, onNotesChange?: (notes: UserNotes) => void };
+
+type ChapterLink = { index: number, title: string };
+
+const ConceptCard: React.FC<{
+  concept: AnalysisData['keyConcepts'][0],
+  index: number,
+  onCite: CiteHandler,
+  chapters: ChapterLink[],
+  onOpenChapter: (index: number) => void,
+  refine?: RefineContext,
+} & NotesProps> = ({ concept, index, onCite, chapters, onOpenChapter, refine, notes, onNotesChange }) => (
+  <div id={`concept-${index}`} className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm hover:shadow-md transition-all hover:-translate-y-1 scroll-mt-24">
+    <div className="flex justify-between items-start mb-3">
+      <div>
+        <h3 className="font-bold text-lg text-slate-800">
+          <span style={highlightStyle(findAnnotation(notes, { kind: "concept", term: concept.term }))}>{concept.term}</span>
+        </h3>
+        {concept.originalTerm && concept.originalTerm !== concept.term && (
+          <p className="text-sm italic text-slate-400">{concept.originalTerm}</p>
+        )}
+      </div>
+      <div className="flex items-center gap-1">
+        <span className={`px-2 py-1 text-xs font-bold rounded-full ${
+          concept.importance > 80 ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-600'
+        }`}>
+          {concept.importance} Impact
+        </span>
+        {refine && <RefineMenu target={{ kind: "concept", index }} refine={refine} />}
+      </div>
+    </div>
+    <p className="text-slate-600 text-sm leading-relaxed">{concept.definition}</p>
+    {concept.source && (
+      <div className="mt-3">
+        <CitationLink anchor={concept.source} onOpen={anchor => onCite({ label: concept.term, anchor })} />
+      </div>
+    )}
+    {chapters.length > 0 && (
+      <div className="mt-3 flex flex-wrap items-center gap-1.5 text-xs">
+        <span className="text-slate-400">Discussed in</span>
+        {chapters.map(ch => (
+          <button
+            key={ch.index}
+            onClick={() => onOpenChapter(ch.index)}
+            className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 hover:bg-indigo-50 hover:text-indigo-700 transition-colors"
+          >
+            {ch.title}
+          </button>
+        ))}
+      </div>
+    )}
+    <AnnotationControl target={{ kind: "concept", term: concept.term }} notes={notes} onNotesChange={onNotesChange} />
+  </div>
+);
+
+const UserConceptCard: React.FC<{ concept: UserNotes['concepts'][0] }> = ({ concept }) => (
+  <div className="bg-white p-6 rounded-xl border border-dashed border-indigo-200 shadow-sm">
     <div className="flex justify-between items-start mb-3">
       <h3 className="font-bold text-lg text-slate-800">{concept.term}</h3>
-      <span className={`px-2 py-1 text-xs font-bold rounded-full ${
-        concept.importance > 80 ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-600'
-      }`}>
-        {concept.importance} Impact
-      </span>
+      <span className="px-2 py-1 text-xs font-bold rounded-full bg-indigo-50 text-indigo-600">Yours</span>
     </div>
     <p className="text-slate-600 text-sm leading-relaxed">{concept.definition}</p>
+    {concept.tags.length > 0 && <div className="mt-3"><TagList tags={concept.tags} /></div>}
   </div>
 );
 
-const ChapterRow: React.FC<{ chapter: AnalysisData['chapterBreakdown'][0], index: number }> = ({ chapter, index }) => (
-  <div className="relative pl-8 pb-8 border-l-2 border-slate-200 last:border-l-0 last:pb-0">
-    <div className="absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-indigo-500 border-4 border-white shadow-sm"></div>
-    <div className="mb-1 text-xs font-bold tracking-wider text-indigo-500 uppercase">Section {index + 1}</div>
-    <h3 className="text-xl font-serif font-bold text-slate-800 mb-2">{chapter.title}</h3>
-    <p className="text-slate-600 mb-3 leading-relaxed">{chapter.summary}</p>
-    <div className="bg-indigo-50 p-3 rounded-lg text-sm text-indigo-900 border border-indigo-100 flex gap-2 items-start">
-      <BrainCircuit size={16} className="mt-0.5 flex-shrink-0" />
-      <span><span className="font-bold">Key Insight:</span> {chapter.insight}</span>
+const ChapterRow: React.FC<{
+  chapter: AnalysisData['chapterBreakdown'][0],
+  index: number,
+  onCite: CiteHandler,
+  refine?: RefineContext,
+  minutes: number,
+  read: boolean,
+  onToggleRead?: () => void,
+} & NotesProps> = ({ chapter, index, onCite, refine, minutes, read, onToggleRead, notes, onNotesChange }) => {
+  const annotation = findAnnotation(notes, { kind: "chapter", index });
+  return (
+    <div id={`chapter-${index}`} className="relative pl-8 pb-8 border-l-2 border-slate-200 last:border-l-0 last:pb-0 scroll-mt-24">
+      <div className={`absolute -left-[9px] top-0 w-4 h-4 rounded-full border-4 border-white shadow-sm ${read ? "bg-emerald-500" : "bg-indigo-500"}`}></div>
+      <div className="mb-1 flex items-center gap-3">
+        <span className="text-xs font-bold tracking-wider text-indigo-500 uppercase">Section {index + 1}</span>
+        <span className="text-xs text-slate-400">{formatMinutes(minutes)}</span>
+        {onToggleRead && (
+          <button
+            onClick={onToggleRead}
+            className={`flex items-center gap-1 text-xs font-medium transition-colors print:hidden ${
+              read ? "text-emerald-600 hover:text-emerald-800" : "text-slate-400 hover:text-indigo-600"
+            }`}
+          >
+            {read ? <CheckCircle2 size={14} /> : <Circle size={14} />}
+            {read ? "Read" : "Mark as read"}
+          </button>
+        )}
+      </div>
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <h3 className="text-xl font-serif font-bold text-slate-800">
+          <span style={highlightStyle(annotation)}>{chapter.title}</span>
+        </h3>
+        {refine && <RefineMenu target={{ kind: "chapter", index }} refine={refine} />}
+      </div>
+      <p className="text-slate-600 mb-3 leading-relaxed">
+        {chapter.summary}{" "}
+        <CitationLink anchor={chapter.summarySource} onOpen={anchor => onCite({ label: chapter.title, anchor })} />
+      </p>
+      <div className={`p-3 rounded-lg text-sm flex gap-2 items-start border ${
+        annotation?.flag === "important" ? "bg-amber-50 text-amber-900 border-amber-200" : "bg-indigo-50 text-indigo-900 border-indigo-100"
+      }`}>
+        <BrainCircuit size={16} className="mt-0.5 flex-shrink-0" />
+        <span>
+          <span className="font-bold">Key Insight:</span> {chapter.insight}{" "}
+          <CitationLink anchor={chapter.insightSource} onOpen={anchor => onCite({ label: `${chapter.title} — Key Insight`, anchor })} />
+        </span>
+      </div>
+      <AnnotationControl target={{ kind: "chapter", index }} notes={notes} onNotesChange={onNotesChange} />
+    </div>
+  );
+};
+
+const FullReport = ({ markdown, notes, onNotesChange }: {
+  markdown: string;
+  notes: UserNotes;
+  onNotesChange?: (notes: UserNotes) => void;
+}) => {
+  const reportRef = useRef<HTMLDivElement>(null);
+  const blocks = useMemo(() => parseMarkdownBlocks(markdown), [markdown]);
+  const toc = useMemo(() => tableOfContents(blocks), [blocks]);
+  const [activeId, setActiveId] = useState<string>();
+
+  // Highlight the section currently at the top of the viewport.
+  useEffect(() => {
+    const headings = toc.map(entry => document.getElementById(entry.id)).filter((el): el is HTMLElement => !!el);
+    const observer = new IntersectionObserver(
+      entries => {
+        const visible = entries.filter(e => e.isIntersecting).sort((a, b) => a.boundingClientRect.top - b.boundingClientRect.top);
+        if (visible[0]) setActiveId(visible[0].target.id);
+      },
+      { rootMargin: "-80px 0px -70% 0px" }
+    );
+    headings.forEach(h => observer.observe(h));
+    return () => observer.disconnect();
+  }, [toc]);
+
+  // Honour deep links such as #key-ideas, or #report-key-ideas as the headings are named, once the report is on screen.
+  useEffect(() => {
+    const id = decodeURIComponent(window.location.hash.slice(1));
+    if (id) document.getElementById(headingId(id))?.scrollIntoView();
+  }, [blocks]);
+
+  const hasToc = toc.length > 1;
+  return (
+    <div className={hasToc ? "lg:grid lg:grid-cols-[13rem_minmax(0,1fr)] lg:gap-12" : ""}>
+      {hasToc && (
+        <aside className="hidden lg:block print:hidden">
+          <div className="sticky top-24 max-h-[calc(100vh-8rem)] overflow-y-auto">
+            <TableOfContents entries={toc} activeId={activeId} />
+          </div>
+        </aside>
+      )}
+      <article className="min-w-0 relative">
+        <div ref={reportRef}>
+          <MarkdownView blocks={blocks} />
+        </div>
+        <ReportAnnotations containerRef={reportRef} markdown={markdown} notes={notes} onNotesChange={onNotesChange} />
+      </article>
+    </div>
+  );
+};
+
+// 5. Duplicate Upload Prompt
+const DuplicatePrompt = ({ entry, onOpen, onReanalyze, onClose }: {
+  entry: LibraryEntry;
+  onOpen: () => void;
+  onReanalyze: () => void;
+  onClose: () => void;
+}) => (
+  <div className="fixed inset-0 bg-slate-900/30 backdrop-blur-sm flex items-center justify-center z-50 p-6" onClick={onClose}>
+    <div className="bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-md p-6" onClick={e => e.stopPropagation()}>
+      <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2 mb-2">
+        <Library size={18} className="text-indigo-500" />
+        Already in your library
+      </h2>
+      <p className="text-sm text-slate-600 leading-relaxed">
+        <span className="font-medium">{entry.analysis.metadata.title}</span> was analyzed on{" "}
+        {new Date(entry.analyzedAt).toLocaleDateString()} with {providerLabel(entry.provider)} {entry.model}.
+        Open the saved analysis instead of calling the model again?
+      </p>
+      <div className="flex justify-end gap-2 mt-6">
+        <button onClick={onReanalyze} className="px-4 py-2 rounded-full text-sm font-medium text-slate-500 hover:bg-slate-50">
+          Analyze Again
+        </button>
+        <button onClick={onOpen} className="px-4 py-2 rounded-full text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 transition-colors">
+          Open Saved
+        </button>
+      </div>
     </div>
   </div>
 );
 
-const FullReport = ({ markdown }: { markdown: string }) => (
-  <article className="prose prose-slate prose-lg max-w-none font-serif">
-    <div className="whitespace-pre-wrap">{markdown}</div>
-  </article>
+// 6. Cost Estimate Prompt
+const CostPrompt = ({ doc, estimate, onConfirm, onClose }: {
+  doc: ExtractedDocument;
+  estimate: AnalysisEstimate;
+  onConfirm: () => void;
+  onClose: () => void;
+}) => (
+  <div className="fixed inset-0 bg-slate-900/30 backdrop-blur-sm flex items-center justify-center z-50 p-6" onClick={onClose}>
+    <div className="bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-md p-6" onClick={e => e.stopPropagation()}>
+      <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2 mb-2">
+        <Gauge size={18} className="text-indigo-500" />
+        This is a large document
+      </h2>
+      <p className="text-sm text-slate-600 leading-relaxed">
+        <span className="font-medium">{doc.fileName}</span> has{" "}
+        {doc.pages.length > 0 && `${doc.pages.length.toLocaleString()} pages and `}
+        {doc.wordCount.toLocaleString()} words. Analyzing it takes about {estimate.calls} model calls and{" "}
+        {formatTokens(estimate.inputTokens + estimate.outputTokens)} tokens.
+      </p>
+      <p className="text-sm text-slate-600 mt-3">
+        Estimated cost: <span className="font-bold text-slate-800">{formatCost(estimate.cost)}</span>
+      </p>
+      <div className="flex justify-end gap-2 mt-6">
+        <button onClick={onClose} className="px-4 py-2 rounded-full text-sm font-medium text-slate-500 hover:bg-slate-50">
+          Cancel
+        </button>
+        <button onClick={onConfirm} className="px-4 py-2 rounded-full text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 transition-colors">
+          Analyze
+        </button>
+      </div>
+    </div>
+  </div>
 );
 
 // --- Main Application ---
 
+interface AnalysisJob {
+  source: SourceFile;
+  contentHash: string;
+  doc: ExtractedDocument;
+  profile: AnalysisProfile;
+  // Language to write the notes in; unset follows the document.
+  language?: string;
+  // Receives the saved entry instead of opening the dashboard, e.g. while analyzing a batch.
+  onDone?: (entry: LibraryEntry) => void;
+  // Model calls made so far, including those of earlier attempts at failed parts.
+  usage: UsageRecord[];
+}
+
+const readSourceFile = async (file: File) => readSource(file.name, new Uint8Array(await file.arrayBuffer()), file.type);
+
 const App = () => {
   const [view, setView] = useState<ViewState>("upload");
   const [activeTab, setActiveTab] = useState<DashboardTab>("overview");
   const [data, setData] = useState<AnalysisData | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  // Failure shown on the upload screen, with a way to try the same file again when that can help.
+  const [error, setError] = useState<{ info: ErrorInfo; retry?: () => void } | null>(null);
+  const [settings, setSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [cacheSettings, setCacheSettings] = useState<CacheSettings>(loadCacheSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [customProfiles, setCustomProfiles] = useState<AnalysisProfile[]>(loadCustomProfiles);
+  const [profileId, setProfileId] = useState(loadSelectedProfileId);
+  const [outputLanguage, setOutputLanguage] = useState(loadOutputLanguage);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [stage, setStage] = useState<ProcessingStage>("reading");
+  const [chunkStates, setChunkStates] = useState<ChunkState[]>([]);
+  const [reduceError, setReduceError] = useState<ErrorInfo | null>(null);
+  const [sourceDocument, setSourceDocument] = useState<ExtractedDocument | null>(null);
+  const [citation, setCitation] = useState<Citation | null>(null);
+  const [job, setJob] = useState<AnalysisJob | null>(null);
+  const [duplicate, setDuplicate] = useState<{ source: SourceFile; contentHash: string; entry: LibraryEntry } | null>(null);
+  const [costPrompt, setCostPrompt] = useState<{ source: SourceFile; contentHash: string; doc: ExtractedDocument; estimate: AnalysisEstimate } | null>(null);
+  // Library entry behind the dashboard, so follow-up state like the chat can be saved back to it.
+  const [entry, setEntry] = useState<LibraryEntry | null>(null);
+  const [chat, setChat] = useState<ChatMessage[]>([]);
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [notes, setNotes] = useState<UserNotes>(emptyNotes);
+  const [versions, setVersions] = useState<AnalysisVersion[]>([]);
+  const [usage, setUsage] = useState<UsageRecord[]>([]);
+  const [progress, setProgress] = useState<ReadingProgress>(emptyProgress);
+  const [showUsage, setShowUsage] = useState(false);
+  const [refining, setRefining] = useState<RefineTarget | null>(null);
+  const [refineError, setRefineError] = useState<{ target: RefineTarget; action: RefineAction; info: ErrorInfo } | null>(null);
+  const [historyTarget, setHistoryTarget] = useState<RefineTarget | null>(null);
+  const [translating, setTranslating] = useState<string | null>(null);
+  const [translateError, setTranslateError] = useState<{ language: string; info: ErrorInfo } | null>(null);
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [compareEntries, setCompareEntries] = useState<LibraryEntry[]>([]);
+  const [batchLabel, setBatchLabel] = useState<string | null>(null);
+  // Incremented on every new run or cancel so stale async work can tell it was superseded.
+  const runIdRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
+  // True while the dashboard shows an analysis that is still being written.
+  const [streaming, setStreaming] = useState(false);
 
-  const handleFileSelect = async (file: File) => {
-    setView("processing");
-    setError(null);
+  const makeProvider = (onRecord: (record: UsageRecord) => void) =>
+    trackUsage(withCache(createProvider(settings), cacheSettings, () => resolveModel(settings)), onRecord);
+
+  const runAnalysis = async (states: ChunkState[], { source, contentHash, doc, profile, language, onDone, usage: calls }: AnalysisJob) => {
+    const runId = ++runIdRef.current;
+    const isCurrent = () => runId === runIdRef.current;
+    const provider = makeProvider(record => calls.push(record));
+    abortRef.current?.abort();
+    const { signal } = (abortRef.current = new AbortController());
+    setReduceError(null);
+    setStage("mapping");
+
+    // Opens the dashboard as soon as anything arrives and keeps it filling in; batches skip this.
+    let previewing = false;
+    const preview = (next: ChunkState[], reduced?: Partial<ReducedFields>) => {
+      if (onDone || !isCurrent()) return;
+      const partial = previewAnalysis(next, profile, reduced);
+      if (!partial) return;
+      setData(withDocumentStats({ ...partial, metadata: { ...partial.metadata, title: partial.metadata.title || source.name } }, doc));
+      if (previewing) return;
+      previewing = true;
+      setEntry(null);
+      setChat([]);
+      setCards([]);
+      setNotes(emptyNotes());
+      setVersions([]);
+      setUsage([]);
+      setProgress(emptyProgress());
+      setRefineError(null);
+      setTranslateError(null);
+      setCitation(null);
+      setActiveTab("overview");
+      setStreaming(true);
+      setView("dashboard");
+    };
+    // Errors are handled on the processing screen, which has the retry controls.
+    const showFailure = () => {
+      setStreaming(false);
+      setView("processing");
+    };
 
+    const mapped = await analyzeChunks(provider, states, next => {
+      if (!isCurrent()) return;
+      setChunkStates(next);
+      preview(next);
+    }, { profile, language, signal });
+    if (!isCurrent()) return;
+    if (mapped.some(s => s.status === "error")) return showFailure();
+
+    setStage("reducing");
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      // Helper to read file as base64
-      const readFileBase64 = (f: File): Promise<string> => {
-        return new Promise((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = () => {
-            const result = reader.result as string;
-            // Remove data URL prefix (e.g., "data:application/pdf;base64,")
-            const base64 = result.split(',')[1];
-            resolve(base64);
-          };
-          reader.onerror = reject;
-          reader.readAsDataURL(f);
-        });
-      };
-
-      const base64Data = await readFileBase64(file);
-      const mimeType = file.type || (file.name.endsWith('.md') ? 'text/plain' : 'application/pdf');
-
-      // Define Schema
-      const analysisSchema = {
-        type: Type.OBJECT,
-        properties: {
-          metadata: {
-            type: Type.OBJECT,
-            properties: {
-              title: { type: Type.STRING },
-              author: { type: Type.STRING },
-              genre: { type: Type.STRING },
-              readingTime: { type: Type.STRING, description: "Estimated reading time for the document" }
-            },
-            required: ["title", "author", "genre", "readingTime"]
-          },
-          executiveSummary: { type: Type.STRING },
-          keyConcepts: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                term: { type: Type.STRING },
-                definition: { type: Type.STRING },
-                importance: { type: Type.INTEGER, description: "Relevance score 1-100" }
-              },
-              required: ["term", "definition", "importance"]
-            }
-          },
-          chapterBreakdown: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                title: { type: Type.STRING },
-                summary: { type: Type.STRING },
-                insight: { type: Type.STRING, description: "One sentence critical takeaway" }
-              },
-              required: ["title", "summary", "insight"]
-            }
-          },
-          topicStats: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                topic: { type: Type.STRING },
-                relevance: { type: Type.INTEGER, description: "1-100" }
-              },
-              required: ["topic", "relevance"]
-            }
-          },
-          fullMarkdownReport: { 
-            type: Type.STRING, 
-            description: "A complete, well-formatted Markdown study note of the document." 
-          }
-        },
-        required: ["metadata", "executiveSummary", "keyConcepts", "chapterBreakdown", "topicStats", "fullMarkdownReport"]
-      };
-
-      const parts = [
-        {
-          inlineData: {
-            mimeType: mimeType === 'text/markdown' ? 'text/plain' : mimeType,
-            data: base64Data
-          }
-        },
-        {
-          text: "Analyze this document thoroughly. Create a comprehensive reading note. Be analytical, identifying deep structures and arguments. Ensure the fullMarkdownReport is formatted beautifully with headers, lists, and bold text."
-        }
-      ];
-
-      const result = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: { role: "user", parts },
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: analysisSchema,
-        }
+      const merged = await mergeChunkAnalyses(provider, mapped, {
+        profile,
+        language,
+        signal,
+        onPartial: reduced => preview(mapped, reduced),
       });
+      if (!isCurrent()) return;
+      const analysis = finishAnalysis(merged, doc);
+      const saved = { ...createEntry({ source, contentHash }, provider, analysis), usage: [...calls] };
+      saveEntry(saved, doc).catch(err => console.error("Failed to save to library", err));
+      if (onDone) return onDone(saved);
+      setData(analysis);
+      setEntry(saved);
+      setChat([]);
+      setCards(saved.flashcards!);
+      setNotes(emptyNotes());
+      setVersions([]);
+      setUsage(saved.usage);
+      setProgress(emptyProgress());
+      setRefineError(null);
+      setTranslateError(null);
+      setStreaming(false);
+      // Leave the reader where they are if they have been following along.
+      if (!previewing) {
+        setCitation(null);
+        setActiveTab("overview");
+        setView("dashboard");
+      }
+    } catch (err) {
+      console.error(err);
+      if (!isCurrent()) return;
+      setReduceError(toErrorInfo(err, "Failed to combine sections."));
+      showFailure();
+    }
+  };
 
-      const responseText = result.text;
-      if (!responseText) throw new Error("No content generated");
-      
-      const jsonResponse = JSON.parse(responseText) as AnalysisData;
-      
-      setData(jsonResponse);
-      setView("dashboard");
+  const handleRetryChunk = (index: number) =>
+    runAnalysis(chunkStates.map((s, i) => (i === index ? { ...s, status: "pending" } : s)), job!);
 
-    } catch (err: any) {
+  const handleRetryFailed = () =>
+    runAnalysis(chunkStates.map(s => (s.status === "error" ? { ...s, status: "pending" } : s)), job!);
+
+  const handleCancel = () => {
+    runIdRef.current++;
+    abortRef.current?.abort();
+    setStreaming(false);
+    setBatchLabel(null);
+    setView("upload");
+  };
+
+  // `extracted` is passed once the reader has accepted the cost estimate for a large document.
+  const startAnalysis = async (source: SourceFile, contentHash: string, onDone?: AnalysisJob["onDone"], extracted?: ExtractedDocument) => {
+    setView("processing");
+    setStage("reading");
+    setChunkStates([]);
+    setReduceError(null);
+    const runId = ++runIdRef.current;
+
+    try {
+      const doc = extracted ?? await extractDocument(source);
+      if (runId !== runIdRef.current) return;
+      const chunks = chunkDocument(doc, source);
+      const model = await resolveModel(settings);
+      if (runId !== runIdRef.current) return;
+      // Batches were asked for as a whole, so only single documents stop to confirm.
+      const estimate = estimateAnalysis(doc, chunks, model);
+      if (!extracted && !onDone && estimate.inputTokens > LARGE_ANALYSIS_TOKENS) {
+        setCostPrompt({ source, contentHash, doc, estimate });
+        setView("upload");
+        return;
+      }
+      const nextJob = { source, contentHash, doc, profile: findProfile(profiles, profileId), language: outputLanguage || undefined, onDone, usage: [] };
+      setJob(nextJob);
+      setSourceDocument(doc);
+      await runAnalysis(chunks.map(chunk => ({ chunk, status: "pending" })), nextJob);
+    } catch (err) {
       console.error(err);
-      setError(err.message || "Failed to process file.");
+      const info = toErrorInfo(err, "Failed to process file.");
+      setError({ info, retry: isRetryable(info.category) ? () => startAnalysis(source, contentHash, onDone) : undefined });
       setView("upload");
     }
   };
 
-  const handleDownload = () => {
+  const handleFileSelect = async (file: File) => {
+    setError(null);
+    try {
+      const { source, contentHash } = await readSourceFile(file);
+      const existing = await findByHash(contentHash).catch(() => undefined);
+      if (existing) {
+        setDuplicate({ source, contentHash, entry: existing });
+        return;
+      }
+      await startAnalysis(source, contentHash);
+    } catch (err) {
+      console.error(err);
+      setError({ info: toErrorInfo(err, "Failed to process file.") });
+    }
+  };
+
+  // Analyzes several files one after another, reusing saved analyses, then compares them.
+  const analyzeBatch = async (files: File[], done: LibraryEntry[] = []) => {
+    if (done.length === files.length) {
+      setBatchLabel(null);
+      openComparison(done);
+      return;
+    }
+    const file = files[done.length];
+    const next = (entry: LibraryEntry) => analyzeBatch(files, [...done, entry]);
+    setBatchLabel(`Document ${done.length + 1} of ${files.length}: ${file.name}`);
+    try {
+      const { source, contentHash } = await readSourceFile(file);
+      const existing = await findByHash(contentHash).catch(() => undefined);
+      if (existing) return next(existing);
+      await startAnalysis(source, contentHash, next);
+    } catch (err) {
+      console.error(err);
+      setBatchLabel(null);
+      setError({ info: toErrorInfo(err, `Failed to process ${file.name}.`) });
+      setView("upload");
+    }
+  };
+
+  const handleFilesSelect = (files: File[]) => {
+    setBatchLabel(null);
+    if (files.length === 1) handleFileSelect(files[0]);
+    else analyzeBatch(files);
+  };
+
+  const openComparison = (entries: LibraryEntry[]) => {
+    // The same file uploaded twice only needs one column.
+    setCompareEntries(entries.filter((e, i) => entries.findIndex(other => other.id === e.id) === i));
+    setView("compare");
+  };
+
+  const openEntry = async (entry: LibraryEntry) => {
+    setDuplicate(null);
+    setData(entry.analysis);
+    setEntry(entry);
+    setChat(entry.chat ?? []);
+    // Decks saved before duplicate fronts were numbered may repeat ids.
+    setCards(entry.flashcards ? withUniqueIds(entry.flashcards) : cardsFromAnalysis(entry.analysis));
+    setNotes(entry.notes ?? emptyNotes());
+    setVersions(entry.versions ?? []);
+    setUsage(entry.usage ?? []);
+    setProgress(entry.progress ?? emptyProgress());
+    setRefineError(null);
+    setTranslateError(null);
+    setSourceDocument((await getDocument(entry.id).catch(() => undefined)) ?? null);
+    setCitation(null);
+    setActiveTab("overview");
+    setView("dashboard");
+  };
+
+  // Imports a JSON export as a new library entry and opens it.
+  const handleImport = async (file: File) => {
+    const imported = parseAnalysisExport(await file.text());
+    const { document, format, version, exportedAt, ...fields } = imported;
+    const restored: LibraryEntry = {
+      ...fields,
+      id: crypto.randomUUID(),
+      fileName: imported.fileName ?? file.name,
+      contentHash: imported.contentHash ?? await hashContent(new Uint8Array(await file.arrayBuffer())),
+      analyzedAt: imported.analyzedAt ?? exportedAt,
+      provider: imported.provider ?? settings.provider,
+      model: imported.model ?? settings.model,
+    };
+    await saveEntry(restored, document);
+    await openEntry(restored);
+  };
+
+  const saveToEntry = (patch: Partial<LibraryEntry>) => {
+    if (!entry) return;
+    updateEntry(entry.id, current => ({ ...current, ...patch })).catch(err => console.error("Failed to save to library", err));
+  };
+
+  const handleChatChange = (next: ChatMessage[]) => {
+    setChat(next);
+    saveToEntry({ chat: next });
+  };
+
+  const handleCardsChange = (next: Flashcard[]) => {
+    setCards(next);
+    saveToEntry({ flashcards: next });
+  };
+
+  const handleNotesChange = (next: UserNotes) => {
+    setNotes(next);
+    saveToEntry({ notes: next });
+  };
+
+  const handleProgressChange = (next: ReadingProgress) => {
+    setProgress(next);
+    saveToEntry({ progress: next });
+  };
+
+  // Replaces one section of the analysis and records the edit so it can be reverted.
+  // The result is saved to the entry it was made for, even if another one has been opened since.
+  const commitRefinement = (base: AnalysisData, target: RefineTarget, action: AnalysisVersion["action"], after: RefineFields) => {
+    const next = applyFields(base, target, after);
+    const nextVersions = [...versions, createVersion(target, action, currentFields(base, target), after)];
+    saveToEntry({ analysis: next, versions: nextVersions });
+    setData(current => (current === base ? next : current));
+    setVersions(current => (current === versions ? nextVersions : current));
+  };
+
+  const handleRefine = async (target: RefineTarget, action: RefineAction) => {
     if (!data) return;
-    const blob = new Blob([data.fullMarkdownReport], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${data.metadata.title.replace(/\s+/g, '_')}_Notes.md`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    setRefining(target);
+    setRefineError(null);
+    try {
+      commitRefinement(data, target, action, await refineSection(provider, data, sourceDocument, target, action));
+    } catch (err) {
+      console.error(err);
+      setRefineError({ target, action, info: toErrorInfo(err, "Failed to refine this section.") });
+    } finally {
+      setRefining(null);
+    }
   };
 
+  // Rewrites the whole analysis in another language; notes and cards follow the renamed concepts.
+  const handleTranslate = async (language: string) => {
+    if (!data) return;
+    const base = data;
+    setTranslating(language);
+    setTranslateError(null);
+    try {
+      const next = await translateAnalysis(provider, base, language);
+      const nextNotes = renameConceptTargets(notes, renamedConcepts(base, next));
+      const nextCards = retextCards(cards, base, next);
+      saveToEntry({ analysis: next, notes: nextNotes, flashcards: nextCards });
+      setData(current => (current === base ? next : current));
+      setNotes(current => (current === notes ? nextNotes : current));
+      setCards(current => (current === cards ? nextCards : current));
+    } catch (err) {
+      console.error(err);
+      setTranslateError({ language, info: toErrorInfo(err, "Failed to translate the analysis.") });
+    } finally {
+      setTranslating(null);
+    }
+  };
+
+  // Opens the tab holding an annotated item and scrolls it into view.
+  const openTarget = (target: AnnotationTarget) => {
+    if (target.kind === "report") return setActiveTab("full-report");
+    const id = target.kind === "chapter"
+      ? `chapter-${target.index}`
+      : `concept-${data?.keyConcepts.findIndex(c => c.term.toLowerCase() === target.term.toLowerCase())}`;
+    setActiveTab(target.kind === "chapter" ? "overview" : "concepts");
+    requestAnimationFrame(() => document.getElementById(id)?.scrollIntoView({ behavior: "smooth" }));
+  };
+
+  const handleSaveSettings = (next: ProviderSettings, nextCache: CacheSettings) => {
+    saveProviderSettings(next);
+    saveCacheSettings(nextCache);
+    setSettings(next);
+    setCacheSettings(nextCache);
+    setShowSettings(false);
+  };
+
+  const handleOutputLanguageChange = (language: string) => {
+    saveOutputLanguage(language);
+    setOutputLanguage(language);
+  };
+
+  const handleProfileChange = (id: string) => {
+    saveSelectedProfileId(id);
+    setProfileId(id);
+  };
+
+  const handleSaveProfiles = (custom: AnalysisProfile[]) => {
+    saveCustomProfiles(custom);
+    setCustomProfiles(custom);
+    if (!custom.some(p => p.id === profileId) && !BUILT_IN_PROFILES.some(p => p.id === profileId)) {
+      handleProfileChange(BUILT_IN_PROFILES[0].id);
+    }
+    setShowProfiles(false);
+  };
+
+  // Calls made from the dashboard count towards the open entry; the rest are kept separately.
+  const recordUsage = useRef<(record: UsageRecord) => void>(() => {});
+  recordUsage.current = record => {
+    if (!entry || view !== "dashboard") return recordOtherUsage(record);
+    setUsage(current => [...current, record]);
+    updateEntry(entry.id, current => ({ ...current, usage: [...(current.usage ?? []), record] }))
+      .catch(err => console.error("Failed to save to library", err));
+  };
+  const provider = useMemo(() => makeProvider(record => recordUsage.current(record)), [settings, cacheSettings]);
+  const minutes = useMemo(() => (data ? chapterMinutes(data, sourceDocument) : []), [data, sourceDocument]);
+  const profiles = useMemo(() => [...BUILT_IN_PROFILES, ...customProfiles], [customProfiles]);
+
+  const settingsPanel = showSettings && (
+    <SettingsPanel settings={settings} cache={cacheSettings} onSave={handleSaveSettings} onClose={() => setShowSettings(false)} />
+  );
+
   if (view === "upload") {
     return (
-      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-white text-slate-900 font-sans">
+      <div className="relative min-h-screen bg-gradient-to-b from-slate-50 to-white text-slate-900 font-sans">
          {error && (
-           <div className="fixed top-4 left-1/2 -translate-x-1/2 bg-red-50 text-red-600 px-6 py-3 rounded-full shadow-lg flex items-center gap-2 z-50 border border-red-100">
-             <AlertCircle size={20} />
-             {error}
+           <div className="fixed top-4 left-1/2 -translate-x-1/2 w-full max-w-lg px-4 z-50">
+             <ErrorNotice
+               error={error.info}
+               onRetry={error.retry && (() => { setError(null); error.retry!(); })}
+               onDismiss={() => setError(null)}
+               className="shadow-lg"
+             />
            </div>
          )}
-         <FileUpload onFileSelect={handleFileSelect} />
+         <div className="absolute top-4 right-4 flex items-center gap-1">
+           <button
+             onClick={() => setView("library")}
+             className="flex items-center gap-2 px-3 py-2 text-sm text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+           >
+             <Library size={18} />
+             <span>Library</span>
+           </button>
+           <button
+             onClick={() => setShowSettings(true)}
+             className="flex items-center gap-2 px-3 py-2 text-sm text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+           >
+             <Settings size={18} />
+             <span>{providerLabel(settings.provider)} · {settings.model || "default model"}</span>
+           </button>
+         </div>
+         <FileUpload onFilesSelect={handleFilesSelect} />
+         <div className="w-full max-w-xl mx-auto -mt-6 px-6 pb-12 space-y-4">
+           <ProfileSelect profiles={profiles} value={profileId} onChange={handleProfileChange} onManage={() => setShowProfiles(true)} />
+           <LanguageSelect value={outputLanguage} onChange={handleOutputLanguageChange} />
+         </div>
+         {duplicate && (
+           <DuplicatePrompt
+             entry={duplicate.entry}
+             onOpen={() => openEntry(duplicate.entry)}
+             onReanalyze={() => {
+               setDuplicate(null);
+               startAnalysis(duplicate.source, duplicate.contentHash);
+             }}
+             onClose={() => setDuplicate(null)}
+           />
+         )}
+         {costPrompt && (
+           <CostPrompt
+             doc={costPrompt.doc}
+             estimate={costPrompt.estimate}
+             onConfirm={() => {
+               setCostPrompt(null);
+               startAnalysis(costPrompt.source, costPrompt.contentHash, undefined, costPrompt.doc);
+             }}
+             onClose={() => setCostPrompt(null)}
+           />
+         )}
+         {settingsPanel}
+         {showProfiles && (
+           <ProfilesPanel profiles={profiles} onSave={handleSaveProfiles} onClose={() => setShowProfiles(false)} />
+         )}
+      </div>
+    );
+  }
+
+  if (view === "library") {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-white text-slate-900 font-sans">
+        <LibraryView onOpen={openEntry} onUpload={() => setView("upload")} onImport={handleImport} onCompare={openComparison} />
+      </div>
+    );
+  }
+
+  if (view === "compare") {
+    return (
+      <div className="min-h-screen bg-slate-50 text-slate-900 font-sans">
+        <CompareView entries={compareEntries} provider={provider} onOpen={openEntry} onBack={() => setView("library")} />
       </div>
     );
   }
@@ -374,153 +1106,344 @@ const App = () => {
   if (view === "processing") {
     return (
       <div className="min-h-screen bg-white flex items-center justify-center">
-        <ProcessingView />
+        <ProcessingView
+          providerName={providerLabel(settings.provider)}
+          batchLabel={batchLabel}
+          stage={stage}
+          chunks={chunkStates}
+          reduceError={reduceError}
+          onRetryChunk={handleRetryChunk}
+          onRetryFailed={handleRetryFailed}
+          onRetryMerge={() => runAnalysis(chunkStates, job!)}
+          onCancel={handleCancel}
+        />
       </div>
     );
   }
 
   if (!data) return null;
 
+  const profileFields = data.profile?.fields ?? [];
+  const usageSummary = summarizeUsage(usage);
+  const activeField = profileFields.find(f => activeTab === `profile:${f.key}`);
+  // Notes need a library entry to be saved to, so they are read-only until streaming finishes.
+  const onNotesChange = streaming ? undefined : handleNotesChange;
+  // Progress is saved to the entry too.
+  const onProgressChange = streaming ? undefined : handleProgressChange;
+  // Refining rewrites saved sections, so it also waits for the analysis to finish.
+  const refine: RefineContext | undefined = streaming
+    ? undefined
+    : { busy: refining, versions, onRefine: handleRefine, onShowHistory: setHistoryTarget };
+
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 font-sans pb-20 print:bg-white print:pb-0">
-      {/* Header */}
-      <header className="bg-white border-b border-slate-200 sticky top-0 z-40 print:hidden">
-        <div className="max-w-5xl mx-auto px-6 h-16 flex items-center justify-between">
-          <div className="flex items-center gap-2 text-indigo-600 cursor-pointer" onClick={() => setView('upload')}>
-            <BookOpen size={24} />
-            <span className="font-serif font-bold text-xl text-slate-800">DeepRead</span>
-          </div>
-          <div className="flex items-center gap-3">
-             <button onClick={() => window.print()} className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors">
-               <Printer size={20} />
-             </button>
-             <button onClick={handleDownload} className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-full text-sm font-medium hover:bg-indigo-700 transition-colors">
-               <Download size={16} />
-               <span>Export MD</span>
-             </button>
+      <div className={citation ? "lg:mr-[32rem] print:mr-0" : ""}>
+        {/* Header */}
+        <header className="bg-white border-b border-slate-200 sticky top-0 z-40 print:hidden">
+          <div className="max-w-5xl mx-auto px-6 h-16 flex items-center justify-between">
+            <div className="flex items-center gap-2 text-indigo-600 cursor-pointer" onClick={() => setView('upload')}>
+              <BookOpen size={24} />
+              <span className="font-serif font-bold text-xl text-slate-800">DeepRead</span>
+            </div>
+            <div className="flex items-center gap-3">
+               <button onClick={() => setView("library")} className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors">
+                 <Library size={20} />
+               </button>
+               <button onClick={() => setShowSettings(true)} className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors">
+                 <Settings size={20} />
+               </button>
+               <button onClick={() => window.print()} className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors">
+                 <Printer size={20} />
+               </button>
+               {!streaming && (
+                 <TranslateMenu current={data.language ?? data.metadata.language} busy={!!translating} onTranslate={handleTranslate} />
+               )}
+               {!streaming && <ExportMenu context={{ ...entry, analysis: data, doc: sourceDocument, chat, flashcards: cards, notes, versions, usage, progress }} />}
+            </div>
           </div>
-        </div>
-      </header>
+        </header>
 
-      {/* Main Content */}
-      <main className="max-w-5xl mx-auto px-6 py-8">
+        {/* Main Content */}
+        <main className="max-w-5xl mx-auto px-6 py-8">
         
-        {/* Document Header Card */}
-        <div className="bg-white rounded-2xl p-8 shadow-sm border border-slate-200 mb-8 print:shadow-none print:border-0">
-          <div className="flex flex-col md:flex-row md:items-start justify-between gap-6">
-            <div>
-              <div className="flex items-center gap-2 mb-3">
-                <span className="px-3 py-1 bg-indigo-50 text-indigo-700 text-xs font-bold uppercase tracking-wider rounded-full">
-                  {data.metadata.genre}
-                </span>
-                <span className="flex items-center gap-1 text-slate-400 text-xs font-medium">
-                  <FileText size={12} />
-                  {data.metadata.readingTime} read
-                </span>
+          {streaming && <StreamingBanner stage={stage} chunks={chunkStates} onCancel={handleCancel} />}
+
+          {/* Document Header Card */}
+          <div className="bg-white rounded-2xl p-8 shadow-sm border border-slate-200 mb-8 print:shadow-none print:border-0">
+            <div className="flex flex-col md:flex-row md:items-start justify-between gap-6">
+              <div>
+                <div className="flex items-center gap-2 mb-3">
+                  {data.metadata.genre && (
+                    <span className="px-3 py-1 bg-indigo-50 text-indigo-700 text-xs font-bold uppercase tracking-wider rounded-full">
+                      {data.metadata.genre}
+                    </span>
+                  )}
+                  <span className="flex items-center gap-1 text-slate-400 text-xs font-medium">
+                    <FileText size={12} />
+                    {data.metadata.readingTime} read
+                  </span>
+                  {data.metadata.pageCount && (
+                    <span className="text-slate-400 text-xs font-medium">· {data.metadata.pageCount} pages</span>
+                  )}
+                  {data.metadata.wordCount && (
+                    <span className="text-slate-400 text-xs font-medium">· {data.metadata.wordCount.toLocaleString()} words</span>
+                  )}
+                  {usage.length > 0 && (
+                    <button
+                      onClick={() => setShowUsage(true)}
+                      className="text-slate-400 text-xs font-medium hover:text-indigo-600 transition-colors print:hidden"
+                    >
+                      · {formatTokens(usageSummary.inputTokens + usageSummary.outputTokens)} tokens · {formatCost(usageSummary.cost)}
+                    </button>
+                  )}
+                </div>
+                <h1 className="text-4xl font-serif font-bold text-slate-900 mb-2">{data.metadata.title}</h1>
+                {data.metadata.author && <p className="text-lg text-slate-500">by {data.metadata.author}</p>}
+              </div>
+              <div className="bg-slate-50 p-6 rounded-xl max-w-md">
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Executive Summary</h4>
+                  {refine && <RefineMenu target={{ kind: "summary" }} refine={refine} />}
+                </div>
+                <p className="text-slate-700 leading-relaxed text-sm">{data.executiveSummary}</p>
               </div>
-              <h1 className="text-4xl font-serif font-bold text-slate-900 mb-2">{data.metadata.title}</h1>
-              <p className="text-lg text-slate-500">by {data.metadata.author}</p>
-            </div>
-            <div className="bg-slate-50 p-6 rounded-xl max-w-md">
-              <h4 className="text-xs font-bold text-slate-400 uppercase mb-2 tracking-wider">Executive Summary</h4>
-              <p className="text-slate-700 leading-relaxed text-sm">{data.executiveSummary}</p>
             </div>
           </div>
-        </div>
 
-        {/* Navigation Tabs */}
-        <div className="flex gap-1 mb-8 bg-white p-1 rounded-xl border border-slate-200 w-max print:hidden shadow-sm">
-          {[
-            { id: 'overview', label: 'Overview', icon: List },
-            { id: 'concepts', label: 'Key Concepts', icon: BrainCircuit },
-            { id: 'visuals', label: 'Analytics', icon: BarChart2 },
-            { id: 'full-report', label: 'Full Report', icon: FileText },
-          ].map((tab) => (
-            <button
-              key={tab.id}
-              onClick={() => setActiveTab(tab.id as DashboardTab)}
-              className={`
-                flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all
-                ${activeTab === tab.id 
-                  ? 'bg-indigo-600 text-white shadow-md' 
-                  : 'text-slate-500 hover:bg-slate-50 hover:text-slate-900'}
-              `}
-            >
-              <tab.icon size={16} />
-              {tab.label}
-            </button>
-          ))}
-        </div>
+          {/* Navigation Tabs */}
+          <div className="flex flex-wrap gap-1 mb-8 bg-white p-1 rounded-xl border border-slate-200 w-max max-w-full print:hidden shadow-sm">
+            {[
+              { id: 'overview', label: 'Overview', icon: List },
+              { id: 'concepts', label: 'Key Concepts', icon: BrainCircuit },
+              { id: 'visuals', label: 'Analytics', icon: BarChart2 },
+              { id: 'full-report', label: 'Full Report', icon: FileText },
+              ...profileFields.map(f => ({ id: `profile:${f.key}`, label: f.label, icon: ClipboardList })),
+              // Flashcards and Ask work from the finished, saved analysis.
+              ...(streaming ? [] : [
+                { id: 'flashcards', label: 'Flashcards', icon: Layers },
+                { id: 'ask', label: 'Ask', icon: MessageSquare },
+                { id: 'notes', label: 'My Notes', icon: NotebookPen },
+              ]),
+            ].map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id as DashboardTab)}
+                className={`
+                  flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all
+                  ${activeTab === tab.id 
+                    ? 'bg-indigo-600 text-white shadow-md' 
+                    : 'text-slate-500 hover:bg-slate-50 hover:text-slate-900'}
+                `}
+              >
+                <tab.icon size={16} />
+                {tab.label}
+              </button>
+            ))}
+          </div>
 
-        {/* Tab Views */}
-        <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
-          
-          {activeTab === 'overview' && (
-            <div className="bg-white rounded-2xl p-8 border border-slate-200 shadow-sm">
-               <h2 className="text-2xl font-serif font-bold text-slate-800 mb-8 flex items-center gap-2">
-                 <List className="text-indigo-500" />
-                 Structural Breakdown
-               </h2>
-               <div className="space-y-0">
-                 {data.chapterBreakdown.map((chapter, idx) => (
-                   <ChapterRow key={idx} chapter={chapter} index={idx} />
-                 ))}
-               </div>
-            </div>
+          {refineError && (
+            <ErrorNotice
+              error={refineError.info}
+              context={refineTargetLabel(data, refineError.target)}
+              onRetry={() => handleRefine(refineError.target, refineError.action)}
+              onDismiss={() => setRefineError(null)}
+              className="mb-8"
+            />
           )}
-
-          {activeTab === 'concepts' && (
-            <div>
-              <h2 className="text-2xl font-serif font-bold text-slate-800 mb-6">Core Concepts</h2>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {data.keyConcepts.map((concept, idx) => (
-                  <ConceptCard key={idx} concept={concept} index={idx} />
-                ))}
-              </div>
-            </div>
+          {translateError && (
+            <ErrorNotice
+              error={translateError.info}
+              context={`Translation to ${translateError.language}`}
+              onRetry={() => handleTranslate(translateError.language)}
+              onDismiss={() => setTranslateError(null)}
+              className="mb-8"
+            />
           )}
 
-          {activeTab === 'visuals' && (
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          {/* Tab Views */}
+          <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+          
+            {activeTab === 'overview' && data.chapterBreakdown.length > 0 && (
+              <ReadingPlanPanel
+                analysis={data}
+                minutes={minutes}
+                progress={progress}
+                uid={entry?.id ?? "preview"}
+                onProgressChange={onProgressChange}
+                onOpenChapter={index => openTarget({ kind: "chapter", index })}
+              />
+            )}
+
+            {activeTab === 'overview' && (
               <div className="bg-white rounded-2xl p-8 border border-slate-200 shadow-sm">
-                <h3 className="font-bold text-slate-700 mb-6 flex items-center gap-2">
-                  <BarChart2 size={18} className="text-indigo-500"/>
-                  Top Themes
-                </h3>
-                <BarChart data={data.topicStats.map(t => ({ label: t.topic, value: t.relevance }))} />
+                 <h2 className="text-2xl font-serif font-bold text-slate-800 mb-8 flex items-center gap-2">
+                   <List className="text-indigo-500" />
+                   Structural Breakdown
+                 </h2>
+                 <div className="space-y-0">
+                   {data.chapterBreakdown.map((chapter, idx) => (
+                     <ChapterRow
+                       key={idx}
+                       chapter={chapter}
+                       index={idx}
+                       onCite={setCitation}
+                       refine={refine}
+                       minutes={minutes[idx]}
+                       read={isChapterRead(progress, idx)}
+                       onToggleRead={onProgressChange && (() => onProgressChange(toggleChapterRead(progress, idx)))}
+                       notes={notes}
+                       onNotesChange={onNotesChange}
+                     />
+                   ))}
+                 </div>
               </div>
+            )}
+
+            {activeTab === 'concepts' && (
+              <div>
+                <div className="flex items-center justify-between mb-6">
+                  <h2 className="text-2xl font-serif font-bold text-slate-800">Core Concepts</h2>
+                  {isBilingual(data) && (
+                    <div className="flex bg-slate-100 rounded-full p-1 print:hidden">
+                      {[
+                        { glossary: false, label: "Cards", Icon: LayoutGrid },
+                        { glossary: true, label: "Glossary", Icon: Table2 },
+                      ].map(({ glossary, label, Icon }) => (
+                        <button
+                          key={label}
+                          onClick={() => setShowGlossary(glossary)}
+                          className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                            showGlossary === glossary ? "bg-white text-indigo-700 shadow-sm" : "text-slate-500 hover:text-slate-700"
+                          }`}
+                        >
+                          <Icon size={14} />
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {isBilingual(data) && showGlossary ? (
+                  <GlossaryTable analysis={data} />
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {data.keyConcepts.map((concept, idx) => (
+                      <ConceptCard
+                        key={idx}
+                        concept={concept}
+                        index={idx}
+                        onCite={setCitation}
+                        chapters={conceptChapters(data, idx).map(i => ({ index: i, title: data.chapterBreakdown[i].title }))}
+                        onOpenChapter={i => openTarget({ kind: "chapter", index: i })}
+                        refine={refine}
+                        notes={notes}
+                        onNotesChange={onNotesChange}
+                      />
+                    ))}
+                    {notes.concepts.map(concept => (
+                      <UserConceptCard key={concept.id} concept={concept} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {activeTab === 'visuals' && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                <div className="bg-white rounded-2xl p-8 border border-slate-200 shadow-sm">
+                  <h3 className="font-bold text-slate-700 mb-6 flex items-center gap-2">
+                    <BarChart2 size={18} className="text-indigo-500"/>
+                    Top Themes
+                  </h3>
+                  <BarChart data={data.topicStats.map(t => ({ label: t.topic, value: t.relevance }))} />
+                </div>
               
-              <div className="bg-white rounded-2xl p-8 border border-slate-200 shadow-sm">
-                <h3 className="font-bold text-slate-700 mb-6 flex items-center gap-2">
-                  <BrainCircuit size={18} className="text-amber-500"/>
-                  Concept Impact Distribution
-                </h3>
-                <div className="space-y-4">
-                   {data.keyConcepts.slice(0,5).map((c, i) => (
-                     <div key={i} className="flex items-center gap-4">
-                        <div className="w-24 text-sm font-medium text-slate-600 truncate">{c.term}</div>
-                        <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
-                          <div 
-                            className="h-full bg-amber-400 rounded-full" 
-                            style={{ width: `${c.importance}%` }}
-                          />
-                        </div>
-                        <div className="text-xs text-slate-400 w-8">{c.importance}</div>
-                     </div>
-                   ))}
+                <div className="bg-white rounded-2xl p-8 border border-slate-200 shadow-sm">
+                  <h3 className="font-bold text-slate-700 mb-6 flex items-center gap-2">
+                    <BrainCircuit size={18} className="text-amber-500"/>
+                    Concept Impact Distribution
+                  </h3>
+                  <div className="space-y-4">
+                     {data.keyConcepts.slice(0,5).map((c, i) => (
+                       <div key={i} className="flex items-center gap-4">
+                          <div className="w-24 text-sm font-medium text-slate-600 truncate">{c.term}</div>
+                          <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                            <div 
+                              className="h-full bg-amber-400 rounded-full" 
+                              style={{ width: `${c.importance}%` }}
+                            />
+                          </div>
+                          <div className="text-xs text-slate-400 w-8">{c.importance}</div>
+                       </div>
+                     ))}
+                  </div>
+                </div>
+
+                <div className="md:col-span-2 bg-white rounded-2xl p-8 border border-slate-200 shadow-sm">
+                  <h3 className="font-bold text-slate-700 mb-1 flex items-center gap-2">
+                    <Network size={18} className="text-indigo-500"/>
+                    Concept Map
+                  </h3>
+                  <p className="text-sm text-slate-400 mb-6">Hover a node to trace its connections; click it to jump to the concept or chapter.</p>
+                  <ConceptGraph analysis={data} onOpen={openTarget} />
                 </div>
               </div>
-            </div>
-          )}
+            )}
 
-          {activeTab === 'full-report' && (
-             <div className="bg-white rounded-2xl p-12 border border-slate-200 shadow-sm print:border-0 print:shadow-none print:p-0">
-               <FullReport markdown={data.fullMarkdownReport} />
-             </div>
-          )}
+            {activeTab === 'full-report' && (
+               <div className="relative bg-white rounded-2xl p-12 border border-slate-200 shadow-sm print:border-0 print:shadow-none print:p-0">
+                 {refine && (
+                   <div className="absolute top-4 right-4">
+                     <RefineMenu target={{ kind: "report" }} refine={refine} />
+                   </div>
+                 )}
+                 <FullReport markdown={data.fullMarkdownReport} notes={notes} onNotesChange={onNotesChange} />
+               </div>
+            )}
 
-        </div>
-      </main>
+            {activeField && <ProfileFieldView field={activeField} value={data.profileData?.[activeField.key]} />}
+
+            {activeTab === 'ask' && (
+              <AskPanel
+                analysis={data}
+                doc={sourceDocument}
+                provider={provider}
+                history={chat}
+                onHistoryChange={handleChatChange}
+                onCite={setCitation}
+              />
+            )}
+
+            {activeTab === 'flashcards' && (
+              <FlashcardsPanel
+                analysis={data}
+                cards={cards}
+                onCardsChange={handleCardsChange}
+                provider={provider}
+                onCite={setCitation}
+              />
+            )}
+
+            {activeTab === 'notes' && (
+              <NotesPanel analysis={data} notes={notes} onNotesChange={handleNotesChange} onOpenTarget={openTarget} />
+            )}
+
+          </div>
+        </main>
+      </div>
+      {citation && <SourceViewer doc={sourceDocument} citation={citation} onClose={() => setCitation(null)} />}
+      {historyTarget && (
+        <VersionHistory
+          title={refineTargetLabel(data, historyTarget)}
+          target={historyTarget}
+          versions={versions}
+          current={currentFields(data, historyTarget)}
+          onRestore={fields => commitRefinement(data, historyTarget, "revert", fields)}
+          onClose={() => setHistoryTarget(null)}
+        />
+      )}
+      {showUsage && <UsagePanel title={data.metadata.title} records={usage} onClose={() => setShowUsage(false)} />}
+      {settingsPanel}
     </div>
   );
 };
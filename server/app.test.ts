@@ -0,0 +1,83 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, request } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createMockProvider, type ProviderSettings } from "../services/providers";
+import { createApp } from "./app";
+import type { ServerConfig } from "./config";
+
+const upstream: ProviderSettings = { provider: "mock", model: "fixture", endpoint: "", apiKey: "" };
+
+const withServer = async (overrides: Partial<ServerConfig>, run: (base: string) => Promise<void>) => {
+  const config: ServerConfig = {
+    port: 0, upstream, models: [upstream.model], rateLimit: 10, maxBodyBytes: 10_000, trustProxy: false, allowedOrigins: [], staticDir: "",
+    ...overrides,
+  };
+  const server = createServer(createApp(config, { providerFor: model => createMockProvider({ ...upstream, model }), log: () => {} }));
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  try {
+    await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  } finally {
+    server.close();
+  }
+};
+
+const body = JSON.stringify({ task: "analysis", parts: [{ text: "Some text." }] });
+
+const generate = (base: string, headers: Record<string, string> = {}, data = body) =>
+  fetch(`${base}/api/generate`, { method: "POST", headers: { "Content-Type": "application/json", ...headers }, body: data });
+
+test("generate answers JSON requests and counts them against the rate limit", async () => {
+  await withServer({ rateLimit: 2 }, async base => {
+    assert.equal((await generate(base)).status, 200);
+    assert.equal((await generate(base)).status, 200);
+    const limited = await generate(base);
+    assert.equal(limited.status, 429);
+    assert.ok(Number(limited.headers.get("retry-after")) > 0);
+  });
+});
+
+test("oversized bodies are refused, with or without a Content-Length", async () => {
+  await withServer({ maxBodyBytes: 1_000 }, async base => {
+    const large = JSON.stringify({ task: "analysis", parts: [{ text: "x".repeat(5_000) }] });
+    assert.equal((await generate(base, {}, large)).status, 413);
+
+    // Chunked, so the limit is only found while reading.
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const req = request(`${base}/api/generate`, { method: "POST", headers: { "Content-Type": "application/json" } }, res => {
+        res.resume();
+        resolve(res.statusCode);
+      });
+      req.on("error", reject);
+      req.write(large.slice(0, 2_500));
+      req.end(large.slice(2_500));
+    });
+    assert.equal(status, 413);
+  });
+});
+
+test("requests that are not JSON are refused", async () => {
+  await withServer({}, async base => {
+    assert.equal((await generate(base, { "Content-Type": "text/plain" })).status, 415);
+    assert.equal((await generate(base, { "Content-Type": "application/x-www-form-urlencoded" })).status, 415);
+    assert.equal((await generate(base, { "Content-Type": "application/json; charset=utf-8" })).status, 200);
+  });
+});
+
+test("browsers on other sites are refused unless their origin is allowed", async () => {
+  await withServer({ allowedOrigins: ["https://notes.example.com"] }, async base => {
+    assert.equal((await generate(base, { Origin: "https://evil.example.com" })).status, 403);
+    assert.equal((await generate(base, { Origin: "null" })).status, 403);
+    assert.equal((await generate(base, { Origin: "https://notes.example.com" })).status, 200);
+    assert.equal((await generate(base, { Origin: base })).status, 200);
+    assert.equal((await generate(base)).status, 200);
+  });
+});
+
+test("a badly encoded path is a bad request", async () => {
+  await withServer({}, async base => {
+    const res = await fetch(`${base}/%E0%A4%A`);
+    assert.equal(res.status, 400);
+    assert.match((await res.json()).error.message, /not correctly encoded/);
+  });
+});
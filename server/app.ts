@@ -0,0 +1,260 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { createProvider, type ContentPart, type ModelProvider, type ModelRequest, type ReportedUsage } from "../services/providers";
+import { isAbortError, toErrorInfo, type ErrorCategory, type ErrorInfo } from "../services/errors";
+import type { ServerConfig } from "./config";
+import { createRateLimiter } from "./rateLimit";
+
+// --- Wire format ---
+
+// Body of POST /api/generate; mirrors ModelRequest plus the model to use.
+export interface GenerateBody {
+  // Empty for the server's own model.
+  model: string;
+  task: string;
+  parts: ContentPart[];
+  schema?: Record<string, unknown>;
+  // Answer as server-sent events, one `data: {"text": ...}` per piece, then `data: {"usage": ...}`
+  // when the upstream reported token counts, ending with `data: [DONE]`.
+  stream?: boolean;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly category: ErrorCategory = "unknown",
+    readonly headers?: Record<string, string>
+  ) {
+    super(message);
+  }
+}
+
+const STATUS_FOR_CATEGORY: Record<ErrorCategory, number> = {
+  auth: 502,
+  quota: 429,
+  safety: 422,
+  "invalid-output": 502,
+  network: 504,
+  unknown: 500,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPart = (part: unknown): part is ContentPart => {
+  if (!isRecord(part)) return false;
+  if (typeof part.text === "string" && Object.keys(part).length === 1) return true;
+  return isRecord(part.inlineData) && typeof part.inlineData.mimeType === "string" && typeof part.inlineData.data === "string";
+};
+
+const parseBody = (raw: string, { upstream, models }: ServerConfig): GenerateBody => {
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, "The request body is not valid JSON.");
+  }
+  if (!isRecord(body)) throw new HttpError(400, "The request body must be a JSON object.");
+  const { task, parts, schema, model: requested, stream } = body;
+  if (typeof task !== "string" || !Array.isArray(parts) || !parts.length || !parts.every(isPart)) {
+    throw new HttpError(400, "Expected a task and a non-empty list of text or inlineData parts.");
+  }
+  if (schema !== undefined && !isRecord(schema)) {
+    throw new HttpError(400, "schema must be an object.");
+  }
+  const model = requested || upstream.model;
+  if (typeof model !== "string") throw new HttpError(400, "model must be a string.");
+  if (!models.includes(model)) {
+    throw new HttpError(400, `This server does not offer the model "${model}". Available: ${models.join(", ")}.`);
+  }
+  return { model, task, parts, schema: isRecord(schema) ? schema : undefined, stream: stream === true };
+};
+
+// Reads the body, giving up as soon as it passes the limit rather than buffering all of it. The rest
+// is never read: the handler closes the connection once the error is sent.
+const readBody = (req: IncomingMessage, limit: number) =>
+  new Promise<string>((resolve, reject) => {
+    const tooLarge = () => new HttpError(413, "The request is too large.", "unknown", { Connection: "close" });
+    if (Number(req.headers["content-length"]) > limit) return reject(tooLarge());
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        req.pause();
+        reject(tooLarge());
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, value: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(value));
+};
+
+const sendError = (res: ServerResponse, status: number, error: ErrorInfo, headers?: Record<string, string>) =>
+  sendJson(res, status, { error }, headers);
+
+// --- Static files ---
+
+const MIME_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript",
+  ".mjs": "text/javascript",
+  ".css": "text/css",
+  ".json": "application/json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".ico": "image/x-icon",
+  ".woff2": "font/woff2",
+};
+
+const decodePath = (pathname: string) => {
+  try {
+    return decodeURIComponent(pathname);
+  } catch {
+    throw new HttpError(400, "The path is not correctly encoded.");
+  }
+};
+
+// Serves the built front end; unknown paths get index.html so the app can load.
+const serveStatic = async (res: ServerResponse, root: string, pathname: string) => {
+  const base = path.resolve(root);
+  const requested = path.resolve(base, `.${decodePath(pathname)}`);
+  const inside = requested.startsWith(base + path.sep);
+  const file = inside && (await stat(requested).catch(() => null))?.isFile() ? requested : path.join(base, "index.html");
+  try {
+    const data = await readFile(file);
+    res.writeHead(200, { "Content-Type": MIME_TYPES[path.extname(file)] ?? "application/octet-stream" });
+    res.end(data);
+  } catch {
+    sendError(res, 404, { category: "unknown", message: "Not found." });
+  }
+};
+
+// --- Handler ---
+
+export interface AppOptions {
+  // Builds the upstream provider for a model; tests pass a fixture-backed one.
+  providerFor?: (model: string) => ModelProvider;
+  log?: (line: string) => void;
+}
+
+export const createApp = (config: ServerConfig, { providerFor, log = console.log }: AppOptions = {}) => {
+  const limiter = createRateLimiter({ limit: config.rateLimit, windowMs: 60_000 });
+  const providers = new Map<string, ModelProvider>();
+  const provider = (model: string) => {
+    if (!providers.has(model)) {
+      providers.set(model, providerFor?.(model) ?? createProvider({ ...config.upstream, model }));
+    }
+    return providers.get(model)!;
+  };
+  const pruneTimer = setInterval(() => limiter.prune(), 60_000);
+  pruneTimer.unref();
+
+  const clientId = (req: IncomingMessage) => {
+    const forwarded = config.trustProxy ? String(req.headers["x-forwarded-for"] ?? "").split(",")[0].trim() : "";
+    return forwarded || req.socket.remoteAddress || "unknown";
+  };
+
+  // Browsers send an Origin with every POST; other clients, such as the CLI, send none and are not limited by it.
+  // Pages served by this server, including through the Vite dev proxy, share its Host.
+  const checkOrigin = (req: IncomingMessage) => {
+    const origin = req.headers.origin;
+    if (!origin || config.allowedOrigins.includes(origin)) return;
+    const forwardedHost = config.trustProxy ? String(req.headers["x-forwarded-host"] ?? "").split(",")[0].trim() : "";
+    const host = URL.canParse(origin) ? new URL(origin).host : null;
+    if (host && (host === req.headers.host || host === forwardedHost)) return;
+    throw new HttpError(403, `Requests from ${origin} are not allowed. Add it to DEEPREAD_ALLOWED_ORIGINS to permit it.`);
+  };
+
+  const generate = async (req: IncomingMessage, res: ServerResponse, client: string, note: (detail: string) => void) => {
+    checkOrigin(req);
+    // Also keeps cross-site form posts, which cannot send JSON, from reaching the model.
+    const contentType = String(req.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase();
+    if (contentType !== "application/json") throw new HttpError(415, "Send the request as application/json.");
+    const limit = limiter.take(client);
+    if (!limit.allowed) {
+      throw new HttpError(429, `Too many requests. Try again in ${limit.retryAfter} s.`, "quota", {
+        "Retry-After": String(limit.retryAfter),
+      });
+    }
+    const body = parseBody(await readBody(req, config.maxBodyBytes), config);
+    note(`task=${body.task}`);
+
+    // Stops the upstream call when the browser goes away, e.g. after a cancel.
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    const upstream = provider(body.model);
+    let usage: ReportedUsage | undefined;
+    const request: ModelRequest = {
+      task: body.task,
+      parts: body.parts,
+      schema: body.schema,
+      signal: controller.signal,
+      onUsage: ({ inputTokens, outputTokens }) => {
+        usage = { inputTokens, outputTokens, model: upstream.model };
+        note(`tokens=${inputTokens}/${outputTokens}`);
+      },
+    };
+
+    if (!body.stream) {
+      const { text } = await upstream.generate(request);
+      return sendJson(res, 200, { text, usage });
+    }
+    res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+    try {
+      for await (const text of upstream.generateStream(request)) {
+        res.write(`data: ${JSON.stringify({ text })}\n\n`);
+      }
+      if (usage) res.write(`data: ${JSON.stringify({ usage })}\n\n`);
+      res.write("data: [DONE]\n\n");
+    } catch (err) {
+      // Headers are gone by now, so the failure travels as an event.
+      if (!isAbortError(err)) res.write(`data: ${JSON.stringify({ error: toErrorInfo(err) })}\n\n`);
+    }
+    res.end();
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const started = Date.now();
+    const client = clientId(req);
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    // Task and token counts, once known.
+    const details: string[] = [];
+    res.on("close", () => {
+      const aborted = res.writableFinished ? "" : " aborted";
+      log(`${new Date().toISOString()} ${client} ${req.method} ${pathname} ${res.statusCode} ${Date.now() - started}ms${details.map(d => ` ${d}`).join("")}${aborted}`);
+    });
+
+    try {
+      if (pathname === "/api/health" && req.method === "GET") {
+        return sendJson(res, 200, { ok: true, upstream: config.upstream.provider, model: config.upstream.model, models: config.models });
+      }
+      if (pathname === "/api/generate") {
+        if (req.method !== "POST") throw new HttpError(405, "Use POST.");
+        return await generate(req, res, client, detail => details.push(detail));
+      }
+      if (pathname.startsWith("/api/")) throw new HttpError(404, "Unknown endpoint.");
+      if (req.method !== "GET" && req.method !== "HEAD") throw new HttpError(405, "Method not allowed.");
+      return await serveStatic(res, config.staticDir, pathname);
+    } catch (err) {
+      if (res.headersSent) return res.end();
+      // A body left unread, e.g. past the size limit, is dropped with the connection rather than drained.
+      if (!req.complete) res.once("finish", () => req.destroy());
+      if (err instanceof HttpError) return sendError(res, err.status, { category: err.category, message: err.message }, err.headers);
+      if (isAbortError(err)) return res.end();
+      const info = toErrorInfo(err);
+      log(`${new Date().toISOString()} ${client} upstream error: ${info.message}`);
+      sendError(res, STATUS_FOR_CATEGORY[info.category], info);
+    }
+  };
+};
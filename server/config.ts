@@ -0,0 +1,51 @@
+import { PROVIDER_OPTIONS, type ProviderSettings } from "../services/providers";
+
+// --- Config ---
+
+export interface ServerConfig {
+  port: number;
+  // Model the server calls on the clients' behalf; its key never leaves the server.
+  upstream: ProviderSettings;
+  // Models clients may ask for; the upstream model is always allowed.
+  models: string[];
+  // Requests per client per minute.
+  rateLimit: number;
+  // Largest request body accepted, in bytes. Documents travel inline, so this bounds the upload size.
+  maxBodyBytes: number;
+  // Use X-Forwarded-For to identify clients, for servers behind a reverse proxy.
+  trustProxy: boolean;
+  // Browser origins other than the server's own that may call the API, e.g. "https://notes.example.com".
+  allowedOrigins: string[];
+  // Built front end to serve alongside the API, if present.
+  staticDir: string;
+}
+
+const UPSTREAMS = ["gemini", "openai", "mock"] as const;
+
+const number = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const list = (value: string | undefined) =>
+  (value ?? "").split(",").map(item => item.trim()).filter(Boolean);
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+  const provider = UPSTREAMS.find(id => id === env.DEEPREAD_UPSTREAM) ?? "gemini";
+  const defaults = PROVIDER_OPTIONS.find(p => p.id === provider)!.defaults;
+  const apiKey = provider === "gemini" ? env.GEMINI_API_KEY ?? "" : env.DEEPREAD_UPSTREAM_KEY ?? "";
+  if (provider === "gemini" && !apiKey) {
+    throw new Error("GEMINI_API_KEY is not set. Set it, or use DEEPREAD_UPSTREAM=mock for the local stand-in model.");
+  }
+  const model = env.DEEPREAD_MODEL || defaults.model;
+  return {
+    port: number(env.DEEPREAD_PORT, 8787),
+    upstream: { provider, model, endpoint: env.DEEPREAD_UPSTREAM_ENDPOINT || defaults.endpoint, apiKey },
+    models: [...new Set([model, ...list(env.DEEPREAD_MODELS)])],
+    rateLimit: number(env.DEEPREAD_RATE_LIMIT, 30),
+    maxBodyBytes: number(env.DEEPREAD_MAX_BODY_MB, 20) * 1024 * 1024,
+    trustProxy: env.DEEPREAD_TRUST_PROXY === "1",
+    allowedOrigins: list(env.DEEPREAD_ALLOWED_ORIGINS),
+    staticDir: env.DEEPREAD_STATIC_DIR || "dist",
+  };
+};
@@ -0,0 +1,22 @@
+import { createServer } from "node:http";
+import { loadConfig } from "./config";
+import { createApp } from "./app";
+
+// Holds the model API key and answers the front end's model calls, so the key never reaches the browser.
+// Reads its settings from the environment and, when present, from .env.local.
+
+try {
+  process.loadEnvFile(".env.local");
+} catch {
+  // No local env file; the environment alone configures the server.
+}
+
+const config = loadConfig();
+const server = createServer(createApp(config));
+
+server.listen(config.port, () => {
+  console.log(
+    `DeepRead server on http://localhost:${config.port} using ${config.upstream.provider} (${config.models.join(", ")}), ` +
+      `${config.rateLimit} requests/min per client, ${config.maxBodyBytes / 1024 / 1024} MB max request`
+  );
+});
@@ -0,0 +1,13 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createRateLimiter } from "./rateLimit";
+
+test("each client gets its own window of requests", () => {
+  const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+  assert.equal(limiter.take("a", 0).allowed, true);
+  assert.equal(limiter.take("a", 1_000).allowed, true);
+  assert.deepEqual(limiter.take("a", 20_500), { allowed: false, retryAfter: 40 });
+  assert.equal(limiter.take("b", 20_500).allowed, true);
+  // A new window starts once the old one is over.
+  assert.deepEqual(limiter.take("a", 60_000), { allowed: true, retryAfter: 0 });
+});
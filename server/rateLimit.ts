@@ -0,0 +1,34 @@
+// --- Rate limiting ---
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the client may send again; 0 when allowed.
+  retryAfter: number;
+}
+
+// Fixed-window counter per client: at most `limit` requests in each `windowMs`.
+export const createRateLimiter = ({ limit, windowMs }: { limit: number; windowMs: number }) => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  const take = (client: string, now = Date.now()): RateLimitResult => {
+    const current = windows.get(client);
+    if (!current || now - current.start >= windowMs) {
+      windows.set(client, { start: now, count: 1 });
+      return { allowed: true, retryAfter: 0 };
+    }
+    if (current.count >= limit) {
+      return { allowed: false, retryAfter: Math.ceil((current.start + windowMs - now) / 1000) };
+    }
+    current.count++;
+    return { allowed: true, retryAfter: 0 };
+  };
+
+  // Drops finished windows so clients that went away do not accumulate.
+  const prune = (now = Date.now()) => {
+    for (const [client, window] of windows) {
+      if (now - window.start >= windowMs) windows.delete(client);
+    }
+  };
+
+  return { take, prune };
+};
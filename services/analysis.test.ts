@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AnalysisData } from "../types";
+import { mockFixtures } from "../fixtures/mockFixtures";
+import { createMockProvider } from "./providers";
+import { mergeChunkAnalyses, type ChunkState } from "./analysis";
+import type { DocumentChunk } from "./chunking";
+
+const provider = createMockProvider({ provider: "mock", model: "fixture", endpoint: "", apiKey: "" });
+
+const chunk = (label: string, start: number, end: number): DocumentChunk => ({ label, start, end, content: { text: "" } });
+
+const part = (overrides: Partial<AnalysisData>): AnalysisData => ({
+  metadata: { title: "Unknown", author: "Unknown", genre: "Essay", readingTime: "10 min" },
+  executiveSummary: "",
+  keyConcepts: [],
+  chapterBreakdown: [],
+  topicStats: [],
+  fullMarkdownReport: "",
+  ...overrides,
+});
+
+test("merged chunks keep chapters in order and one copy of each concept", async () => {
+  const first = part({
+    metadata: { title: "The Book", author: "Unknown", genre: "Essay", readingTime: "10 min" },
+    keyConcepts: [{ term: "Spaced Review", definition: "First.", importance: 40, chapters: ["One"] }],
+    chapterBreakdown: [{ title: "One", summary: "", insight: "" }],
+    topicStats: [{ topic: "Memory", relevance: 100 }],
+  });
+  const second = part({
+    metadata: { title: "Unknown", author: "A. Writer", genre: "Essay", readingTime: "1 h 5 min" },
+    keyConcepts: [{ term: "spaced  review", definition: "Second.", importance: 80, chapters: ["Two"] }],
+    chapterBreakdown: [{ title: "Two", summary: "", insight: "" }],
+    topicStats: [{ topic: "memory", relevance: 40 }, { topic: "Habits", relevance: 60 }],
+  });
+  const states: ChunkState[] = [
+    { chunk: chunk("Part 1", 0, 100), status: "done", result: first },
+    { chunk: chunk("Part 2", 100, 400), status: "done", result: second },
+  ];
+
+  const merged = await mergeChunkAnalyses(provider, states);
+  assert.equal(merged.metadata.title, "The Book");
+  assert.equal(merged.metadata.author, "A. Writer");
+  assert.equal(merged.metadata.readingTime, "1 h 15 min");
+  assert.deepEqual(merged.chapterBreakdown.map(ch => ch.title), ["One", "Two"]);
+  assert.deepEqual(merged.keyConcepts, [{ term: "spaced  review", definition: "Second.", importance: 80, chapters: ["One", "Two"] }]);
+  // Relevance is weighted by each part's share of the text: Memory 100·¼ + 40·¾, Habits 60·¾.
+  assert.deepEqual(merged.topicStats, [{ topic: "Memory", relevance: 55 }, { topic: "Habits", relevance: 45 }]);
+  assert.equal(merged.executiveSummary, (mockFixtures["analysis-reduce"] as AnalysisData).executiveSummary);
+});
+
+test("a run with unfinished chunks is not merged", async () => {
+  const states: ChunkState[] = [
+    { chunk: chunk("Part 1", 0, 100), status: "done", result: part({}) },
+    { chunk: chunk("Part 2", 100, 200), status: "pending" },
+  ];
+  await assert.rejects(mergeChunkAnalyses(provider, states), /Part 2 has not been analyzed/);
+});
@@ -0,0 +1,459 @@
+import { Type } from "@google/genai";
+import type { AnalysisData, AnalysisProfile, ConceptRelation, ConceptRelationType, ProfileItem } from "../types";
+import type { ModelProvider } from "./providers";
+import type { DocumentChunk } from "./chunking";
+import { streamJson } from "./validation";
+import { ModelError, isAbortError, isRetryable, toErrorInfo, type ErrorInfo } from "./errors";
+import { estimateReadingTime, formatMinutes, type ExtractedDocument } from "./extraction";
+import { BUILT_IN_PROFILES, mergeProfileData, profilePrompt, profileSchema, toSnapshot } from "./profiles";
+
+const sourceAnchorSchema = {
+  type: Type.OBJECT,
+  description: "Supporting passage from the document",
+  properties: {
+    quote: { type: Type.STRING, description: "Verbatim excerpt of at most 40 words, copied exactly from the text" },
+    page: { type: Type.INTEGER, description: "Page number from the nearest [Page N] marker, if any" }
+  },
+  required: ["quote"]
+};
+
+const RELATION_TYPES: ConceptRelationType[] = ["depends_on", "contrasts_with", "example_of"];
+
+export const analysisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    metadata: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING },
+        author: { type: Type.STRING },
+        genre: { type: Type.STRING },
+        readingTime: { type: Type.STRING, description: "Estimated reading time for the document" },
+        language: { type: Type.STRING, description: "Language the document is written in, e.g. German" }
+      },
+      required: ["title", "author", "genre", "readingTime"]
+    },
+    executiveSummary: { type: Type.STRING },
+    chapterBreakdown: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          summary: { type: Type.STRING },
+          insight: { type: Type.STRING, description: "One sentence critical takeaway" },
+          summarySource: sourceAnchorSchema,
+          insightSource: sourceAnchorSchema
+        },
+        required: ["title", "summary", "insight"]
+      }
+    },
+    keyConcepts: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          term: { type: Type.STRING },
+          definition: { type: Type.STRING },
+          importance: { type: Type.INTEGER, description: "Relevance score 1-100", minimum: 1, maximum: 100 },
+          source: sourceAnchorSchema,
+          originalTerm: { type: Type.STRING, description: "The term exactly as the document writes it, in the document's language" },
+          chapters: {
+            type: Type.ARRAY,
+            description: "Titles of the chapters that discuss this concept, copied exactly from chapterBreakdown",
+            items: { type: Type.STRING }
+          }
+        },
+        required: ["term", "definition", "importance"]
+      }
+    },
+    conceptRelations: {
+      type: Type.ARRAY,
+      description: "How the key concepts relate to one another, naming each by its exact term",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          from: { type: Type.STRING },
+          to: { type: Type.STRING },
+          type: {
+            type: Type.STRING,
+            enum: RELATION_TYPES,
+            description: "from depends_on to, from contrasts_with to, or from is an example_of to"
+          }
+        },
+        required: ["from", "to", "type"]
+      }
+    },
+    topicStats: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          topic: { type: Type.STRING },
+          relevance: { type: Type.INTEGER, description: "1-100", minimum: 1, maximum: 100 }
+        },
+        required: ["topic", "relevance"]
+      }
+    },
+    fullMarkdownReport: {
+      type: Type.STRING,
+      description: "A complete, well-formatted Markdown study note of the document."
+    }
+  },
+  required: ["metadata", "executiveSummary", "keyConcepts", "chapterBreakdown", "topicStats", "fullMarkdownReport"],
+  // Streamed in this order, so the dashboard can show the summary first and the long report last.
+  propertyOrdering: ["metadata", "executiveSummary", "chapterBreakdown", "keyConcepts", "conceptRelations", "topicStats", "fullMarkdownReport"]
+};
+
+// The base schema plus the profile's own fields, when it has any.
+export const analysisSchemaFor = (profile: Pick<AnalysisProfile, "fields">) => {
+  const extension = profileSchema(profile);
+  return extension
+    ? {
+        ...analysisSchema,
+        properties: { ...analysisSchema.properties, profileData: extension },
+        propertyOrdering: [...analysisSchema.propertyOrdering.slice(0, -1), "profileData", "fullMarkdownReport"],
+      }
+    : analysisSchema;
+};
+
+const CITATION_INSTRUCTIONS =
+  "For every key concept, chapter summary and chapter insight, cite the passage that supports it by copying a short excerpt word for word from the document, with its page number when pages are marked.";
+
+export const languageInstruction = (language?: string) =>
+  language
+    ? `Write every text field in ${language}, whatever language the document is in. ` +
+      "Keep source quotes verbatim in the document's language, and give each key concept's originalTerm exactly as the document writes it."
+    : "Write every text field in the same language as the document.";
+
+const RELATION_INSTRUCTIONS =
+  "For each key concept, list the chapters that discuss it. In conceptRelations, record where one concept depends on, contrasts with, or is an example of another.";
+
+export const ANALYSIS_PROMPT =
+  "Analyze this document thoroughly. Create a comprehensive reading note. Be analytical, identifying deep structures and arguments. Ensure the fullMarkdownReport is formatted beautifully with headers, lists, and bold text. " +
+  CITATION_INSTRUCTIONS + " " + RELATION_INSTRUCTIONS;
+
+const reduceSchema = {
+  type: Type.OBJECT,
+  properties: {
+    executiveSummary: { type: Type.STRING },
+    fullMarkdownReport: {
+      type: Type.STRING,
+      description: "A complete, well-formatted Markdown study note of the whole document."
+    }
+  },
+  required: ["executiveSummary", "fullMarkdownReport"]
+};
+
+export type ChunkStatus = "pending" | "running" | "done" | "error";
+
+export interface ChunkState {
+  chunk: DocumentChunk;
+  status: ChunkStatus;
+  result?: AnalysisData;
+  // Unvalidated fields received so far while the chunk is still streaming.
+  partial?: Partial<AnalysisData>;
+  error?: ErrorInfo;
+}
+
+export interface StreamOptions<T> {
+  profile?: AnalysisProfile;
+  // Output language; empty for the document's own.
+  language?: string;
+  signal?: AbortSignal;
+  onPartial?: (partial: Partial<T>) => void;
+}
+
+const basePrompt = (chunk: DocumentChunk, index: number, total: number) =>
+  total === 1
+    ? ANALYSIS_PROMPT
+    : `This is part ${index + 1} of ${total} (${chunk.label}) of a larger document. ` +
+      "Analyze only this part, but as thoroughly as if it were the whole document. " +
+      "List every chapter or section it contains in chapterBreakdown, in order. " +
+      "Fill metadata from whatever this part reveals, with readingTime estimated for this part only. " +
+      "Ensure the fullMarkdownReport is formatted beautifully with headers, lists, and bold text. " +
+      CITATION_INSTRUCTIONS + " " + RELATION_INSTRUCTIONS;
+
+const chunkPrompt = (chunk: DocumentChunk, index: number, total: number, profile: AnalysisProfile, language?: string) =>
+  [basePrompt(chunk, index, total), languageInstruction(language), profilePrompt(profile)].filter(Boolean).join("\n\n");
+
+export const analyzeChunk = async (
+  provider: ModelProvider,
+  chunk: DocumentChunk,
+  index: number,
+  total: number,
+  { profile = BUILT_IN_PROFILES[0], language, signal, onPartial = () => {} }: StreamOptions<AnalysisData> = {}
+): Promise<AnalysisData> => {
+  const parts = [chunk.content, { text: chunkPrompt(chunk, index, total, profile, language) }];
+  return streamJson<AnalysisData>(provider, { task: "analysis", parts, schema: analysisSchemaFor(profile), signal }, onPartial);
+};
+
+// Analyzes every pending chunk, retrying each on its own. Failures are recorded on the chunk, never thrown.
+export const analyzeChunks = async (
+  provider: ModelProvider,
+  states: ChunkState[],
+  onUpdate: (states: ChunkState[]) => void,
+  { concurrency = 2, maxAttempts = 2, profile, language, signal }:
+    { concurrency?: number; maxAttempts?: number } & Omit<StreamOptions<AnalysisData>, "onPartial"> = {}
+): Promise<ChunkState[]> => {
+  const current = [...states];
+  const update = (i: number, patch: Partial<ChunkState>) => {
+    current[i] = { ...current[i], ...patch };
+    onUpdate([...current]);
+  };
+  const queue = current.map((_, i) => i).filter(i => current[i].status === "pending");
+
+  const worker = async () => {
+    while (queue.length && !signal?.aborted) {
+      const i = queue.shift()!;
+      for (let attempt = 1; ; attempt++) {
+        update(i, { status: "running", error: undefined, partial: undefined });
+        try {
+          const onPartial = (partial: Partial<AnalysisData>) => update(i, { partial });
+          const result = await analyzeChunk(provider, current[i].chunk, i, current.length, { profile, language, signal, onPartial });
+          update(i, { status: "done", result, partial: undefined });
+          break;
+        } catch (err) {
+          if (isAbortError(err) || signal?.aborted) {
+            update(i, { status: "pending", partial: undefined });
+            break;
+          }
+          const error = toErrorInfo(err, "Failed to analyze section.");
+          if (attempt >= maxAttempts || !isRetryable(error.category)) {
+            update(i, { status: "error", error });
+            break;
+          }
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+  return current;
+};
+
+// --- Merging ---
+
+export const normalizeKey = (s: string) => s.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+
+const isKnown = (value: string) => !!value && !/^(unknown|n\/a|none|not specified)$/i.test(value.trim());
+
+export const parseMinutes = (readingTime: string): number | null => {
+  const hours = readingTime.match(/(\d+(?:\.\d+)?)\s*h/i);
+  const minutes = readingTime.match(/(\d+(?:\.\d+)?)\s*m/i);
+  if (!hours && !minutes) return null;
+  return (hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseFloat(minutes[1]) : 0);
+};
+
+const mergeMetadata = (results: AnalysisData[]): AnalysisData["metadata"] => {
+  const pick = (field: "title" | "author" | "genre") =>
+    results.map(r => r.metadata[field]).find(isKnown) ?? results[0].metadata[field];
+  const minutes = results.map(r => parseMinutes(r.metadata.readingTime));
+  const language = results.map(r => r.metadata.language ?? "").find(isKnown);
+  return {
+    title: pick("title"),
+    author: pick("author"),
+    genre: pick("genre"),
+    ...(language ? { language } : {}),
+    readingTime: minutes.every(m => m !== null)
+      ? formatMinutes((minutes as number[]).reduce((a, b) => a + b, 0))
+      : results[0].metadata.readingTime,
+  };
+};
+
+export const mergeKeyConcepts = (results: AnalysisData[]): AnalysisData["keyConcepts"] => {
+  const byTerm = new Map<string, AnalysisData["keyConcepts"][0]>();
+  for (const concept of results.flatMap(r => r.keyConcepts)) {
+    const key = normalizeKey(concept.term);
+    const existing = byTerm.get(key);
+    // A concept discussed in several parts keeps the chapters from all of them.
+    const chapters = [...new Set([...(existing?.chapters ?? []), ...(concept.chapters ?? [])])];
+    const kept = !existing || concept.importance > existing.importance ? concept : existing;
+    byTerm.set(key, chapters.length ? { ...kept, chapters } : kept);
+  }
+  return [...byTerm.values()].sort((a, b) => b.importance - a.importance);
+};
+
+// Keeps one copy of each relation, dropping any whose concepts did not survive the merge.
+export const mergeConceptRelations = (
+  results: AnalysisData[],
+  concepts: AnalysisData["keyConcepts"]
+): AnalysisData["conceptRelations"] => {
+  const terms = new Map(concepts.map(c => [normalizeKey(c.term), c.term]));
+  const seen = new Set<string>();
+  return results.flatMap(r => r.conceptRelations ?? []).flatMap(relation => {
+    const from = terms.get(normalizeKey(relation.from));
+    const to = terms.get(normalizeKey(relation.to));
+    const key = `${from}|${relation.type}|${to}`;
+    if (!from || !to || from === to || seen.has(key)) return [];
+    seen.add(key);
+    return [{ from, to, type: relation.type }];
+  });
+};
+
+// Weights each chunk's topic relevance by the chunk's share of the document.
+export const mergeTopicStats = (results: AnalysisData[], weights: number[]): AnalysisData["topicStats"] => {
+  const totalWeight = weights.reduce((a, b) => a + b, 0) || 1;
+  const byTopic = new Map<string, { topic: string; relevance: number }>();
+  results.forEach((r, i) => {
+    for (const stat of r.topicStats) {
+      const key = normalizeKey(stat.topic);
+      const entry = byTopic.get(key) ?? { topic: stat.topic, relevance: 0 };
+      entry.relevance += (stat.relevance * weights[i]) / totalWeight;
+      byTopic.set(key, entry);
+    }
+  });
+  return [...byTopic.values()]
+    .map(t => ({ topic: t.topic, relevance: Math.max(1, Math.round(t.relevance)) }))
+    .sort((a, b) => b.relevance - a.relevance)
+    .slice(0, 10);
+};
+
+const chunkWeight = (chunk: DocumentChunk) => chunk.end - chunk.start || 1;
+
+// Records which profile shaped the analysis; the general profile leaves no trace.
+const withProfile = (analysis: AnalysisData, profile: AnalysisProfile): AnalysisData => {
+  const { profile: _, profileData, ...rest } = analysis;
+  return profile.fields.length ? { ...rest, profile: toSnapshot(profile), profileData: profileData ?? {} } : rest;
+};
+
+// Records the chosen output language, or none when the notes follow the document.
+const withLanguage = (analysis: AnalysisData, language?: string): AnalysisData => {
+  const { language: _, ...rest } = analysis;
+  return language ? { ...rest, language } : rest;
+};
+
+// Combines per-chunk analyses; only the prose sections need another model call.
+export type ReducedFields = Pick<AnalysisData, "executiveSummary" | "fullMarkdownReport">;
+
+export const mergeChunkAnalyses = async (
+  provider: ModelProvider,
+  states: ChunkState[],
+  { profile = BUILT_IN_PROFILES[0], language, signal, onPartial = () => {} }: StreamOptions<ReducedFields> = {}
+): Promise<AnalysisData> => {
+  // A cancelled run leaves chunks without results; there is nothing to merge for them.
+  signal?.throwIfAborted();
+  const unfinished = states.find(s => !s.result);
+  if (unfinished) throw new ModelError(unfinished.error?.category ?? "unknown", `${unfinished.chunk.label} has not been analyzed.`);
+  const results = states.map(s => s.result!);
+  if (results.length === 1) return withLanguage(withProfile(results[0], profile), language);
+
+  const digest = states.map((s, i) =>
+    `## Part ${i + 1} (${s.chunk.label})\n\n### Summary\n${s.result!.executiveSummary}\n\n### Notes\n${s.result!.fullMarkdownReport}`
+  ).join("\n\n");
+
+  const { executiveSummary, fullMarkdownReport } = await streamJson<ReducedFields>(provider, {
+    task: "analysis-reduce",
+    parts: [{
+      text: "Below are reading notes for consecutive parts of one document. " +
+        "Write a single executiveSummary for the whole document and a single fullMarkdownReport that combines the notes " +
+        "into one coherent study note, removing repetition and keeping the document's order. " +
+        "Ensure the fullMarkdownReport is formatted beautifully with headers, lists, and bold text. " +
+        languageInstruction(language) + "\n\n" + digest
+    }],
+    schema: reduceSchema,
+    signal,
+  }, onPartial);
+
+  const keyConcepts = mergeKeyConcepts(results);
+  return withLanguage(withProfile({
+    metadata: mergeMetadata(results),
+    executiveSummary,
+    keyConcepts,
+    chapterBreakdown: results.flatMap(r => r.chapterBreakdown),
+    conceptRelations: mergeConceptRelations(results, keyConcepts),
+    topicStats: mergeTopicStats(results, states.map(s => chunkWeight(s.chunk))),
+    fullMarkdownReport,
+    profileData: mergeProfileData(results, profile.fields),
+  }, profile), language);
+};
+
+// Runs the whole map-reduce pipeline, failing if any chunk still fails after its retries.
+export const analyzeDocument = async (
+  provider: ModelProvider,
+  chunks: DocumentChunk[],
+  onUpdate: (states: ChunkState[]) => void = () => {},
+  { concurrency, profile, language, signal }: { concurrency?: number } & Omit<StreamOptions<AnalysisData>, "onPartial"> = {}
+): Promise<AnalysisData> => {
+  const pending = chunks.map((chunk): ChunkState => ({ chunk, status: "pending" }));
+  const states = await analyzeChunks(provider, pending, onUpdate, { concurrency, profile, language, signal });
+  const failed = states.find(s => s.status === "error");
+  if (failed) {
+    throw new ModelError(failed.error?.category ?? "unknown", `${failed.chunk.label}: ${failed.error?.message ?? "analysis failed"}`);
+  }
+  return mergeChunkAnalyses(provider, states, { profile, language, signal });
+};
+
+// --- Preview ---
+
+const asArray = <T>(value: unknown): Partial<T>[] =>
+  Array.isArray(value) ? value.filter(item => item && typeof item === "object") : [];
+
+const partialProfileData = (value: unknown): AnalysisData["profileData"] =>
+  value && typeof value === "object"
+    ? Object.fromEntries(Object.entries(value).map(([key, v]) => [
+        key,
+        typeof v === "string"
+          ? v
+          : (asArray<ProfileItem>(v).filter(item => typeof item.title === "string" && typeof item.detail === "string") as ProfileItem[]),
+      ]))
+    : undefined;
+
+// Fills the gaps in a partial response so it can be rendered, dropping list items that have barely begun.
+const fromPartial = (partial: Partial<AnalysisData>): AnalysisData => ({
+  metadata: { title: "", author: "", genre: "", readingTime: "", ...partial.metadata },
+  executiveSummary: typeof partial.executiveSummary === "string" ? partial.executiveSummary : "",
+  keyConcepts: asArray<AnalysisData["keyConcepts"][0]>(partial.keyConcepts)
+    .filter(c => typeof c.term === "string" && typeof c.definition === "string")
+    .map(c => ({
+      term: c.term!,
+      definition: c.definition!,
+      importance: typeof c.importance === "number" ? c.importance : 0,
+      originalTerm: typeof c.originalTerm === "string" ? c.originalTerm : undefined,
+      chapters: Array.isArray(c.chapters) ? c.chapters.filter((t): t is string => typeof t === "string") : undefined,
+    })),
+  chapterBreakdown: asArray<AnalysisData["chapterBreakdown"][0]>(partial.chapterBreakdown)
+    .filter(ch => typeof ch.title === "string" && typeof ch.summary === "string")
+    .map(ch => ({ title: ch.title!, summary: ch.summary!, insight: typeof ch.insight === "string" ? ch.insight : "" })),
+  conceptRelations: asArray<ConceptRelation>(partial.conceptRelations)
+    .filter(r => typeof r.from === "string" && typeof r.to === "string" && RELATION_TYPES.includes(r.type!)) as ConceptRelation[],
+  topicStats: asArray<AnalysisData["topicStats"][0]>(partial.topicStats)
+    .filter(t => typeof t.topic === "string" && typeof t.relevance === "number") as AnalysisData["topicStats"],
+  fullMarkdownReport: typeof partial.fullMarkdownReport === "string" ? partial.fullMarkdownReport : "",
+  profileData: partialProfileData(partial.profileData),
+});
+
+// Best-effort analysis from whatever has arrived so far, or null before anything has.
+// Citations are left out until the final result, since partial quotes cannot be anchored.
+export const previewAnalysis = (
+  states: ChunkState[],
+  profile: AnalysisProfile = BUILT_IN_PROFILES[0],
+  reduced: Partial<ReducedFields> = {}
+): AnalysisData | null => {
+  const arrived = states.filter(s => s.result || s.partial);
+  if (!arrived.length) return null;
+  const results = arrived.map(s => fromPartial(s.result ?? s.partial!));
+  if (states.length === 1) return withProfile(results[0], profile);
+
+  const keyConcepts = mergeKeyConcepts(results);
+  return withProfile({
+    metadata: mergeMetadata(results),
+    executiveSummary: reduced.executiveSummary || results[0].executiveSummary,
+    keyConcepts,
+    chapterBreakdown: results.flatMap(r => r.chapterBreakdown),
+    conceptRelations: mergeConceptRelations(results, keyConcepts),
+    topicStats: mergeTopicStats(results, arrived.map(s => chunkWeight(s.chunk))),
+    fullMarkdownReport: reduced.fullMarkdownReport || results.map(r => r.fullMarkdownReport).filter(Boolean).join("\n\n"),
+    profileData: mergeProfileData(results, profile.fields),
+  }, profile);
+};
+
+// Replaces the model's guesses with what extraction actually measured.
+export const withDocumentStats = (analysis: AnalysisData, doc: ExtractedDocument): AnalysisData => ({
+  ...analysis,
+  metadata: {
+    ...analysis.metadata,
+    ...(doc.wordCount ? { readingTime: estimateReadingTime(doc.wordCount), wordCount: doc.wordCount } : {}),
+    ...(doc.pages.length ? { pageCount: doc.pages.length } : {}),
+  },
+});
@@ -0,0 +1,240 @@
+import type {
+  AnalysisData,
+  Annotation,
+  AnnotationFlag,
+  AnnotationTarget,
+  HighlightColor,
+  UserConcept,
+  UserNotes,
+} from "../types";
+
+// --- Targets ---
+
+export const HIGHLIGHT_COLORS: Record<HighlightColor, string> = {
+  yellow: "#fde68a",
+  green: "#bbf7d0",
+  blue: "#bfdbfe",
+  pink: "#fbcfe8",
+};
+
+export const FLAG_LABELS: Record<AnnotationFlag, string> = {
+  important: "Important",
+  disagree: "I disagree",
+};
+
+export const sameTarget = (a: AnnotationTarget, b: AnnotationTarget) => {
+  switch (a.kind) {
+    case "chapter":
+      return b.kind === "chapter" && a.index === b.index;
+    case "concept":
+      return b.kind === "concept" && a.term.toLowerCase() === b.term.toLowerCase();
+    case "report":
+      return b.kind === "report" && a.quote === b.quote && a.occurrence === b.occurrence;
+  }
+};
+
+export const targetLabel = (analysis: AnalysisData, target: AnnotationTarget) => {
+  switch (target.kind) {
+    case "chapter":
+      return analysis.chapterBreakdown[target.index]?.title ?? `Section ${target.index + 1}`;
+    case "concept":
+      return target.term;
+    case "report":
+      return "Full Report";
+  }
+};
+
+// --- Editing ---
+
+export const emptyNotes = (): UserNotes => ({ annotations: [], concepts: [] });
+
+export const hasNotes = (notes?: UserNotes) => !!notes && (notes.annotations.length > 0 || notes.concepts.length > 0);
+
+export const findAnnotation = (notes: UserNotes, target: AnnotationTarget) =>
+  notes.annotations.find(a => sameTarget(a.target, target));
+
+export const createAnnotation = (target: AnnotationTarget, patch: Partial<Annotation> = {}): Annotation => {
+  const now = new Date().toISOString();
+  return { id: crypto.randomUUID(), target, tags: [], createdAt: now, updatedAt: now, ...patch };
+};
+
+// An annotation with nothing left in it is removed rather than kept as an empty shell.
+export const isBlank = (a: Annotation) => !a.highlight && !a.flag && !a.comment?.trim() && !a.tags.length;
+
+export const saveAnnotation = (notes: UserNotes, annotation: Annotation): UserNotes => {
+  const others = notes.annotations.filter(a => a.id !== annotation.id);
+  if (isBlank(annotation)) return { ...notes, annotations: others };
+  const updated = { ...annotation, updatedAt: new Date().toISOString() };
+  const exists = others.length !== notes.annotations.length;
+  return {
+    ...notes,
+    annotations: exists ? notes.annotations.map(a => (a.id === annotation.id ? updated : a)) : [...notes.annotations, updated],
+  };
+};
+
+export const removeAnnotation = (notes: UserNotes, id: string): UserNotes =>
+  ({ ...notes, annotations: notes.annotations.filter(a => a.id !== id) });
+
+export const saveUserConcept = (notes: UserNotes, concept: UserConcept): UserNotes => {
+  const exists = notes.concepts.some(c => c.id === concept.id);
+  return {
+    ...notes,
+    concepts: exists ? notes.concepts.map(c => (c.id === concept.id ? concept : c)) : [...notes.concepts, concept],
+  };
+};
+
+export const removeUserConcept = (notes: UserNotes, id: string): UserNotes =>
+  ({ ...notes, concepts: notes.concepts.filter(c => c.id !== id) });
+
+// "#Memory, open question" -> ["Memory", "open-question"]
+export const parseTags = (input: string) =>
+  [...new Set(
+    input
+      .split(/[,\n]|(?=#)/)
+      .map(tag => tag.replace(/^#/, "").trim().replace(/\s+/g, "-").replace(/[^\p{L}\p{N}_/-]/gu, ""))
+      .filter(Boolean)
+  )];
+
+// Points concept notes at the new terms after the analysis was translated.
+export const renameConceptTargets = (notes: UserNotes, renames: Map<string, string>): UserNotes => ({
+  ...notes,
+  annotations: notes.annotations.map(a =>
+    a.target.kind === "concept" && renames.has(a.target.term) ? { ...a, target: { kind: "concept", term: renames.get(a.target.term)! } } : a
+  ),
+});
+
+export const allTags = (notes: UserNotes) =>
+  [...new Set([...notes.annotations, ...notes.concepts].flatMap(n => n.tags))].sort((a, b) => a.localeCompare(b));
+
+type Fields<T> = { [K in keyof T]?: unknown };
+
+const isTarget = (value: unknown): value is AnnotationTarget => {
+  const t = value as Fields<{ kind: string; index: number; term: string; quote: string; occurrence: number }> | null;
+  return (
+    (t?.kind === "chapter" && typeof t.index === "number") ||
+    (t?.kind === "concept" && typeof t.term === "string") ||
+    (t?.kind === "report" && typeof t.quote === "string" && typeof t.occurrence === "number")
+  );
+};
+
+const isAnnotation = (value: unknown): value is Omit<Annotation, "tags"> => {
+  const a = value as Fields<Annotation> | null;
+  return typeof a?.id === "string" && isTarget(a.target);
+};
+
+const isUserConcept = (value: unknown): value is Omit<UserConcept, "tags"> => {
+  const c = value as Fields<UserConcept> | null;
+  return typeof c?.id === "string" && typeof c.term === "string" && typeof c.definition === "string";
+};
+
+const tagsOf = (value: object) => {
+  const { tags } = value as { tags?: unknown };
+  return Array.isArray(tags) ? tags.filter((t): t is string => typeof t === "string") : [];
+};
+
+// Checks notes read back from an export, keeping only entries with the expected shape.
+export const parseUserNotes = (value: unknown): UserNotes | undefined => {
+  const notes = value as Fields<UserNotes> | null;
+  if (!notes || !Array.isArray(notes.annotations) || !Array.isArray(notes.concepts)) return undefined;
+  return {
+    annotations: notes.annotations.filter(isAnnotation).map(a => ({ ...a, tags: tagsOf(a) })),
+    concepts: notes.concepts.filter(isUserConcept).map(c => ({ ...c, tags: tagsOf(c) })),
+  };
+};
+
+// --- Markdown export ---
+
+const CALLOUTS: Record<AnnotationFlag | "note", { type: string; title: string }> = {
+  important: { type: "important", title: "Important" },
+  disagree: { type: "warning", title: "I disagree" },
+  note: { type: "note", title: "My note" },
+};
+
+const tagLine = (tags: string[]) => tags.map(t => `#${t}`).join(" ");
+
+// Obsidian and GitHub style callout, e.g. "> [!note] My note".
+export const annotationCallout = (annotation: Annotation) => {
+  const { type, title } = CALLOUTS[annotation.flag ?? "note"];
+  const paragraphs = [
+    annotation.target.kind === "report" ? [`*“${annotation.target.quote}”*`] : [],
+    annotation.comment?.trim() ? annotation.comment.trim().split("\n") : [],
+    annotation.tags.length ? [tagLine(annotation.tags)] : [],
+  ].filter(p => p.length);
+  const body = paragraphs.map(lines => lines.map(line => `> ${line}`.trimEnd()).join("\n")).join("\n>\n");
+  return body ? `> [!${type}] ${title}\n${body}` : `> [!${type}] ${title}`;
+};
+
+// Rendered text has no Markdown syntax, so blocks are compared with it stripped.
+const plainText = (markdown: string) =>
+  markdown
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^\s{0,3}(#{1,6}\s+|>\s?|[-*+]\s+|\d+[.)]\s+)/gm, "")
+    .replace(/[*_`~]/g, "")
+    .replace(/\s+/g, " ");
+
+const countOccurrences = (text: string, quote: string) => {
+  let count = 0;
+  for (let i = text.indexOf(quote); i >= 0; i = text.indexOf(quote, i + quote.length)) count++;
+  return count;
+};
+
+// Splits the report into blocks separated by blank lines, keeping fenced code intact.
+const splitBlocks = (markdown: string) => {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+  for (const line of markdown.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (!inFence && !line.trim()) {
+      if (current.length) blocks.push(current.join("\n"));
+      current = [];
+    } else {
+      current.push(line);
+    }
+  }
+  if (current.length) blocks.push(current.join("\n"));
+  return blocks;
+};
+
+// The full report with a callout after each highlighted passage, followed by the rest of the reader's notes.
+export const annotatedMarkdown = (analysis: AnalysisData, notes?: UserNotes) => {
+  if (!notes || !hasNotes(notes)) return analysis.fullMarkdownReport;
+
+  const blocks = splitBlocks(analysis.fullMarkdownReport);
+  const after = blocks.map(() => [] as string[]);
+  const unplaced: Annotation[] = [];
+  for (const annotation of notes.annotations) {
+    if (annotation.target.kind !== "report") continue;
+    const quote = annotation.target.quote.replace(/\s+/g, " ").trim();
+    let remaining = annotation.target.occurrence;
+    const index = blocks.findIndex(block => {
+      const found = countOccurrences(plainText(block), quote);
+      if (remaining < found) return true;
+      remaining -= found;
+      return false;
+    });
+    if (index >= 0) after[index].push(annotationCallout(annotation));
+    else unplaced.push(annotation);
+  }
+
+  const sections: string[] = [];
+  const section = (title: string, items: Annotation[]) => {
+    if (!items.length) return;
+    sections.push(`## ${title}`, ...items.map(a => `### ${targetLabel(analysis, a.target)}\n\n${annotationCallout(a)}`));
+  };
+  const byKind = (kind: AnnotationTarget["kind"]) => notes.annotations.filter(a => a.target.kind === kind);
+  section("Notes on Chapters", byKind("chapter").sort((a, b) =>
+    (a.target as { index: number }).index - (b.target as { index: number }).index));
+  section("Notes on Concepts", byKind("concept"));
+  section("Other Highlights", unplaced);
+  if (notes.concepts.length) {
+    sections.push("## My Concepts", notes.concepts.map(c =>
+      `- **${c.term}** — ${c.definition}${c.tags.length ? ` ${tagLine(c.tags)}` : ""}`
+    ).join("\n"));
+  }
+
+  return [
+    ...blocks.flatMap((block, i) => [block, ...after[i]]),
+    ...(sections.length ? ["---", "# My Notes", ...sections] : []),
+  ].join("\n\n");
+};
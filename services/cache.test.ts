@@ -0,0 +1,20 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ModelRequest } from "./providers";
+import { cacheKey, evictionKeys, type CacheMeta } from "./cache";
+
+const meta = (key: string, size: number, lastUsedAt: number): CacheMeta => ({ key, task: "analysis", size, lastUsedAt });
+
+test("eviction drops the least recently used responses until the rest fit", () => {
+  const metas = [meta("recent", 40, 300), meta("oldest", 30, 100), meta("older", 20, 200), meta("newest", 10, 400)];
+  assert.deepEqual(evictionKeys(metas, 100), []);
+  assert.deepEqual(evictionKeys(metas, 70), ["oldest"]);
+  assert.deepEqual(evictionKeys(metas, 50), ["oldest", "older"]);
+  assert.deepEqual(evictionKeys(metas, 0), ["oldest", "older", "recent", "newest"]);
+});
+
+test("responses from different server models are kept apart", async () => {
+  const request: ModelRequest = { task: "analysis", parts: [{ text: "Some text." }] };
+  assert.notEqual(await cacheKey("server", "gemini-2.5-flash", request), await cacheKey("server", "gemini-2.5-pro", request));
+  assert.equal(await cacheKey("server", "gemini-2.5-flash", request), await cacheKey("server", "gemini-2.5-flash", { ...request }));
+});
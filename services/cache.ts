@@ -0,0 +1,211 @@
+import type { ModelProvider, ModelRequest, ReportedUsage } from "./providers";
+import { hashContent } from "./library";
+
+// Stores model responses by a hash of everything that shapes them: provider, model, task, schema and
+// the full prompt including the document. Asking the same thing about the same file again is free.
+
+// --- Settings ---
+
+export interface CacheSettings {
+  enabled: boolean;
+  maxMegabytes: number;
+}
+
+const SETTINGS_KEY = "deepread.cacheSettings";
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = { enabled: true, maxMegabytes: 50 };
+
+export const loadCacheSettings = (): CacheSettings => {
+  try {
+    return { ...DEFAULT_CACHE_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "{}") };
+  } catch {
+    return DEFAULT_CACHE_SETTINGS;
+  }
+};
+
+export const saveCacheSettings = (settings: CacheSettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+// Refining asks for a new version on purpose, so a stored one would defeat it.
+const isCacheable = (task: string) => !task.startsWith("refine-");
+
+// --- Storage ---
+
+interface CachedResponse {
+  key: string;
+  text: string;
+  usage?: ReportedUsage;
+}
+
+// Kept apart from the responses so eviction can scan sizes without loading texts.
+export interface CacheMeta {
+  key: string;
+  task: string;
+  size: number;
+  lastUsedAt: number;
+}
+
+const DB_NAME = "deepread-cache";
+const DB_VERSION = 1;
+const RESPONSES = "responses";
+const META = "meta";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () =>
+  (dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(RESPONSES)) db.createObjectStore(RESPONSES, { keyPath: "key" });
+      if (!db.objectStoreNames.contains(META)) {
+        db.createObjectStore(META, { keyPath: "key" }).createIndex("lastUsedAt", "lastUsedAt");
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }));
+
+const promisify = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const readResponse = async (key: string): Promise<CachedResponse | undefined> => {
+  const tx = (await openDb()).transaction([RESPONSES, META], "readwrite");
+  const found = await promisify(tx.objectStore(RESPONSES).get(key) as IDBRequest<CachedResponse | undefined>);
+  if (found) {
+    const meta = await promisify(tx.objectStore(META).get(key) as IDBRequest<CacheMeta | undefined>);
+    if (meta) tx.objectStore(META).put({ ...meta, lastUsedAt: Date.now() });
+  }
+  await completion(tx);
+  return found;
+};
+
+// Keys of the least recently used responses to drop so the rest fit in `maxBytes`.
+export const evictionKeys = (metas: CacheMeta[], maxBytes: number): string[] => {
+  let total = metas.reduce((sum, m) => sum + m.size, 0);
+  const keys: string[] = [];
+  for (const meta of [...metas].sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+    if (total <= maxBytes) break;
+    keys.push(meta.key);
+    total -= meta.size;
+  }
+  return keys;
+};
+
+const evict = async (maxBytes: number) => {
+  const tx = (await openDb()).transaction([RESPONSES, META], "readwrite");
+  const metas = await promisify(tx.objectStore(META).index("lastUsedAt").getAll() as IDBRequest<CacheMeta[]>);
+  for (const key of evictionKeys(metas, maxBytes)) {
+    tx.objectStore(RESPONSES).delete(key);
+    tx.objectStore(META).delete(key);
+  }
+  await completion(tx);
+};
+
+const writeResponse = async (response: CachedResponse, task: string, maxBytes: number) => {
+  const size = response.text.length * 2;
+  if (size > maxBytes) return;
+  const tx = (await openDb()).transaction([RESPONSES, META], "readwrite");
+  tx.objectStore(RESPONSES).put(response);
+  tx.objectStore(META).put({ key: response.key, task, size, lastUsedAt: Date.now() } satisfies CacheMeta);
+  await completion(tx);
+  await evict(maxBytes);
+};
+
+// --- Public API ---
+
+export const cacheStats = async () => {
+  const tx = (await openDb()).transaction([META], "readonly");
+  const metas = await promisify(tx.objectStore(META).getAll() as IDBRequest<CacheMeta[]>);
+  return { entries: metas.length, bytes: metas.reduce((sum, m) => sum + m.size, 0) };
+};
+
+export const clearCache = async () => {
+  const tx = (await openDb()).transaction([RESPONSES, META], "readwrite");
+  tx.objectStore(RESPONSES).clear();
+  tx.objectStore(META).clear();
+  await completion(tx);
+};
+
+// `model` is the one that answers, which for the server provider is the server's default rather than
+// the empty name in the settings.
+export const cacheKey = (providerId: string, model: string, { task, parts, schema }: ModelRequest) =>
+  hashContent(new TextEncoder().encode(JSON.stringify({ provider: providerId, model, task, schema, parts })));
+
+// Answers repeated requests from the cache and stores new answers once they are complete.
+// The cache is best-effort: when IndexedDB fails, calls go straight to the provider.
+// `resolveModel` names the model behind the provider; responses are not cached while it is unknown.
+export const withCache = (
+  provider: ModelProvider,
+  settings: CacheSettings,
+  resolveModel = async () => provider.model
+): ModelProvider => {
+  if (!settings.enabled) return provider;
+  const maxBytes = settings.maxMegabytes * 1024 * 1024;
+
+  const lookup = async (request: ModelRequest) => {
+    const model = isCacheable(request.task) ? await resolveModel() : "";
+    if (!model) return { key: null, hit: undefined };
+    const key = await cacheKey(provider.id, model, request);
+    const hit = await readResponse(key).catch(err => {
+      console.warn("Response cache unavailable", err);
+      return undefined;
+    });
+    if (hit) request.onUsage?.({ ...(hit.usage ?? { inputTokens: 0, outputTokens: 0 }), cached: true });
+    return { key, hit };
+  };
+
+  // Keeps the provider's usage report so a later hit can show what the call cost.
+  const capture = (request: ModelRequest) => {
+    let usage: ReportedUsage | undefined;
+    const forwarded: ModelRequest = {
+      ...request,
+      onUsage: reported => {
+        usage = { inputTokens: reported.inputTokens, outputTokens: reported.outputTokens, model: reported.model };
+        request.onUsage?.(reported);
+      },
+    };
+    const store = (key: string | null, text: string) => {
+      if (!key || !text) return;
+      writeResponse({ key, text, usage }, request.task, maxBytes).catch(err => console.warn("Could not cache response", err));
+    };
+    return { forwarded, store };
+  };
+
+  return {
+    id: provider.id,
+    model: provider.model,
+    async generate(request) {
+      const { key, hit } = await lookup(request);
+      if (hit) return { text: hit.text };
+      const call = capture(request);
+      const response = await provider.generate(call.forwarded);
+      call.store(key, response.text);
+      return response;
+    },
+    async *generateStream(request) {
+      const { key, hit } = await lookup(request);
+      if (hit) {
+        yield hit.text;
+        return;
+      }
+      const call = capture(request);
+      let text = "";
+      for await (const piece of provider.generateStream(call.forwarded)) {
+        text += piece;
+        yield piece;
+      }
+      // Only complete answers are kept; a cancelled stream never gets here.
+      call.store(key, text);
+    },
+  };
+};
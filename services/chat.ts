@@ -0,0 +1,72 @@
+import type { AnalysisData, ChatMessage, SourceAnchor } from "../types";
+import type { ModelProvider } from "./providers";
+import type { Passage, PassageIndex } from "./retrieval";
+
+const PASSAGE_LIMIT = 6;
+// Earlier turns sent along so follow-up questions ("why?", "and the second one?") make sense.
+const HISTORY_MESSAGES = 6;
+const QUOTE_PREVIEW_CHARS = 280;
+
+export const passageAnchor = (passage: Passage): SourceAnchor => ({
+  quote: passage.text.length > QUOTE_PREVIEW_CHARS ? `${passage.text.slice(0, QUOTE_PREVIEW_CHARS).trimEnd()}…` : passage.text,
+  page: passage.page,
+  start: passage.start,
+  end: passage.end,
+  verified: true,
+});
+
+// Passage numbers an answer actually cites, e.g. "[2]" or "[1, 3]".
+export const citedNumbers = (answer: string) => {
+  const numbers = new Set<number>();
+  for (const group of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const n of group[1].split(",")) numbers.add(parseInt(n, 10));
+  }
+  return [...numbers].sort((a, b) => a - b);
+};
+
+const retrieve = (index: PassageIndex, history: ChatMessage[], question: string): Passage[] => {
+  const hits = index.search(question, PASSAGE_LIMIT);
+  const previous = [...history].reverse().find(m => m.role === "user");
+  if (hits.length >= PASSAGE_LIMIT / 2 || !previous) return hits.map(h => h.passage);
+
+  // Short follow-ups rarely share words with the text, so borrow the previous question's terms.
+  const seen = new Set(hits.map(h => h.passage.id));
+  const extra = index.search(`${previous.content} ${question}`, PASSAGE_LIMIT).filter(h => !seen.has(h.passage.id));
+  return [...hits, ...extra].slice(0, PASSAGE_LIMIT).map(h => h.passage);
+};
+
+const buildPrompt = (analysis: AnalysisData, passages: Passage[], history: ChatMessage[], question: string) => {
+  const { title, author } = analysis.metadata;
+  const context = passages.map((p, i) => {
+    const where = [p.page ? `p. ${p.page}` : null, p.heading].filter(Boolean).join(", ");
+    return `[${i + 1}]${where ? ` (${where})` : ""}\n${p.text}`;
+  }).join("\n\n");
+  const conversation = history.slice(-HISTORY_MESSAGES)
+    .map(m => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
+    .join("\n\n");
+
+  return [
+    `You answer questions about the document "${title}" by ${author}, using only the numbered passages below.`,
+    "Cite the passages you rely on inline, like [1] or [2, 3]. If the passages do not contain the answer, say so plainly instead of guessing.",
+    "Answer in concise Markdown.",
+    `Passages:\n\n${context || "(no matching passages were found)"}`,
+    conversation ? `Conversation so far:\n\n${conversation}` : "",
+    `Question: ${question}`,
+  ].filter(Boolean).join("\n\n");
+};
+
+// Retrieves passages for the question and streams an answer grounded in them.
+export const askDocument = (
+  provider: ModelProvider,
+  index: PassageIndex,
+  analysis: AnalysisData,
+  history: ChatMessage[],
+  question: string,
+  signal?: AbortSignal
+) => {
+  const passages = retrieve(index, history, question);
+  return {
+    sources: passages.map(passageAnchor),
+    stream: provider.generateStream({ task: "ask", parts: [{ text: buildPrompt(analysis, passages, history, question) }], signal }),
+  };
+};
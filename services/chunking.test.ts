@@ -0,0 +1,24 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseMarkdown } from "./extraction";
+import { chunkDocument } from "./chunking";
+
+const markdown = ["One", "Two", "Three"].map(title => `# ${title}\n\n${"Some words here. ".repeat(20)}\n`).join("\n");
+const doc = parseMarkdown(markdown, "notes.md", "text/markdown");
+const source = { name: "notes.md", mimeType: "text/markdown", bytes: new TextEncoder().encode(markdown) };
+
+test("chunks cover the text in order, cut at sections", () => {
+  const chunks = chunkDocument(doc, source, 800);
+  assert.ok(chunks.length > 1);
+  assert.equal(chunks[0].start, 0);
+  assert.equal(chunks[chunks.length - 1].end, doc.text.length);
+  chunks.slice(1).forEach((chunk, i) => assert.equal(chunk.start, chunks[i].end));
+  assert.ok(chunks.every(c => c.end - c.start <= 800));
+  assert.ok(chunks.every(c => doc.headings.some(h => h.offset === c.start)));
+});
+
+test("a small document is a single chunk", () => {
+  const chunks = chunkDocument(doc, source);
+  assert.equal(chunks.length, 1);
+  assert.equal(chunks[0].label, "One – Three");
+});
@@ -0,0 +1,140 @@
+import type { ContentPart } from "./providers";
+import { isPdf, pageAt, type ExtractedDocument, type SourceFile, type TextRange } from "./extraction";
+
+export interface DocumentChunk extends TextRange {
+  // Human-readable position in the document, e.g. "Pages 1–12" or "Introduction – Methods".
+  label: string;
+  content: ContentPart;
+}
+
+// Roughly 15k tokens of text per request, which keeps per-section analysis detailed.
+export const MAX_CHUNK_CHARS = 60000;
+
+// PDFs with less extractable text than this are probably scanned and are sent to the model whole.
+const MIN_PDF_TEXT_CHARS = 200;
+
+interface Unit extends TextRange {
+  label: string;
+}
+
+// --- Helpers ---
+
+export const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Pages for paged documents, otherwise the sections between top-level headings.
+const documentUnits = (doc: ExtractedDocument): Unit[] => {
+  if (doc.pages.length) {
+    return doc.pages.map(p => ({ label: `${p.number}`, start: p.start, end: p.end }));
+  }
+  const cuts = doc.headings.filter(h => h.level <= 3);
+  const units: Unit[] = [];
+  if (!cuts.length || cuts[0].offset > 0) {
+    units.push({ label: "", start: 0, end: cuts[0]?.offset ?? doc.text.length });
+  }
+  cuts.forEach((h, i) => {
+    units.push({ label: h.title, start: h.offset, end: cuts[i + 1]?.offset ?? doc.text.length });
+  });
+  return units.filter(u => doc.text.slice(u.start, u.end).trim());
+};
+
+// Breaks an oversized unit at paragraph boundaries, hard-cutting only where a single paragraph is too long.
+const splitOversized = (doc: ExtractedDocument, unit: Unit, maxChars: number): Unit[] => {
+  if (unit.end - unit.start <= maxChars) return [unit];
+  const breaks = doc.paragraphs
+    .map(p => p.start)
+    .filter(offset => offset > unit.start && offset < unit.end);
+  const pieces: Unit[] = [];
+  let start = unit.start;
+  while (unit.end - start > maxChars) {
+    const limit = start + maxChars;
+    const cut = breaks.filter(b => b > start && b <= limit).pop() ?? limit;
+    pieces.push({ ...unit, start, end: cut });
+    start = cut;
+  }
+  pieces.push({ ...unit, start, end: unit.end });
+  return pieces;
+};
+
+const describeStructure = (doc: ExtractedDocument, range: TextRange) => {
+  const lines = [`Source: ${doc.fileName}`];
+  const pages = doc.pages.filter(p => p.start < range.end && p.end > range.start);
+  if (pages.length) {
+    lines.push(`Pages: ${pages[0].number}–${pages[pages.length - 1].number} of ${doc.pages.length}`);
+  }
+  const headings = doc.headings.filter(h => h.offset >= range.start && h.offset < range.end);
+  if (headings.length) {
+    lines.push("Headings:");
+    for (const h of headings) {
+      lines.push(`${"  ".repeat(h.level - 1)}- ${h.title}${h.page ? ` (p. ${h.page})` : ""}`);
+    }
+  }
+  return lines.join("\n");
+};
+
+// Slices the document text, marking page starts so the model can tell where passages come from.
+const chunkText = (doc: ExtractedDocument, range: TextRange) => {
+  if (!doc.pages.length) return doc.text.slice(range.start, range.end);
+  let out = doc.pages.some(p => p.start === range.start) ? "" : `[Page ${pageAt(doc, range.start)}]\n`;
+  let cursor = range.start;
+  for (const page of doc.pages) {
+    if (page.start < range.start || page.start >= range.end) continue;
+    out += doc.text.slice(cursor, page.start) + `[Page ${page.number}]\n`;
+    cursor = page.start;
+  }
+  return out + doc.text.slice(cursor, range.end);
+};
+
+const rangeLabel = (doc: ExtractedDocument, first: Unit, last: Unit, index: number) => {
+  if (doc.pages.length) {
+    const from = pageAt(doc, first.start);
+    const to = pageAt(doc, last.end - 1);
+    return from === to ? `Page ${from}` : `Pages ${from}–${to}`;
+  }
+  if (!first.label) return `Part ${index + 1}`;
+  return last.label && last.label !== first.label ? `${first.label} – ${last.label}` : first.label;
+};
+
+// --- Public API ---
+
+// Splits an extracted document into model-sized chunks of text plus its structure.
+export const chunkDocument = (doc: ExtractedDocument, source: SourceFile, maxChars = MAX_CHUNK_CHARS): DocumentChunk[] => {
+  if (isPdf(source) && doc.text.replace(/\s+/g, "").length < MIN_PDF_TEXT_CHARS) {
+    return [{
+      label: "Whole document",
+      start: 0,
+      end: doc.text.length,
+      content: { inlineData: { mimeType: "application/pdf", data: bytesToBase64(source.bytes) } },
+    }];
+  }
+
+  const groups: Unit[][] = [];
+  let group: Unit[] = [];
+  let size = 0;
+  for (const unit of documentUnits(doc).flatMap(u => splitOversized(doc, u, maxChars))) {
+    const length = unit.end - unit.start;
+    if (group.length && size + length > maxChars) {
+      groups.push(group);
+      group = [];
+      size = 0;
+    }
+    group.push(unit);
+    size += length;
+  }
+  if (group.length) groups.push(group);
+  if (!groups.length) throw new Error("No readable text was found in this document.");
+
+  return groups.map((g, i) => {
+    const range = { start: g[0].start, end: g[g.length - 1].end };
+    return {
+      label: rangeLabel(doc, g[0], g[g.length - 1], i),
+      ...range,
+      content: { text: `${describeStructure(doc, range)}\n\n---\n\n${chunkText(doc, range)}` },
+    };
+  });
+};
@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AnalysisData } from "../types";
+import { mockFixtures } from "../fixtures/mockFixtures";
+import { parseMarkdown } from "./extraction";
+import { anchorCitations, createQuoteLocator } from "./citations";
+
+const doc = parseMarkdown(
+  "# Memory\n\nMost of what we read is forgotten within days — unless it is “revisited” or used.\n",
+  "notes.md",
+  "text/markdown"
+);
+
+test("quotes are found despite case, quote marks, dashes and ellipses", () => {
+  const locate = createQuoteLocator(doc);
+  const range = locate('"most of what we read ... forgotten within days - unless it is "revisited"."');
+  assert.ok(range);
+  assert.equal(doc.text.slice(range.start, range.end), "Most of what we read is forgotten within days — unless it is “revisited");
+  assert.equal(locate("Nothing like this is in the text"), null);
+});
+
+test("citations are anchored, or flagged when the quote is not in the text", () => {
+  const analysis = mockFixtures.analysis as AnalysisData;
+  const anchored = anchorCitations(
+    {
+      ...analysis,
+      keyConcepts: [{ ...analysis.keyConcepts[0], source: { quote: "An invented passage", page: 4 } }],
+      chapterBreakdown: [{ ...analysis.chapterBreakdown[0], summarySource: { quote: "forgotten within days" } }],
+    },
+    doc
+  );
+  assert.deepEqual(anchored.keyConcepts[0].source, { quote: "An invented passage", page: 4, verified: false });
+  const source = anchored.chapterBreakdown[0].summarySource!;
+  assert.equal(source.verified, true);
+  assert.equal(doc.text.slice(source.start, source.end), "forgotten within days");
+  assert.equal(anchored.chapterBreakdown[0].insightSource, undefined);
+});
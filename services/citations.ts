@@ -0,0 +1,91 @@
+import type { AnalysisData, SourceAnchor } from "../types";
+import { pageAt, type ExtractedDocument, type TextRange } from "./extraction";
+
+interface NormalizedText {
+  text: string;
+  // Index in the original string of each character in `text`.
+  offsets: number[];
+}
+
+// Folds case, ligatures, typographic quotes and dashes, and runs of whitespace, so that
+// a model's copy of a passage still matches text that pdf.js extracted slightly differently.
+const normalize = (source: string): NormalizedText => {
+  let text = "";
+  const offsets: number[] = [];
+  let pendingSpace = false;
+  for (let i = 0; i < source.length; ) {
+    const raw = String.fromCodePoint(source.codePointAt(i)!);
+    const index = i;
+    i += raw.length;
+    if (/\s/.test(raw)) {
+      pendingSpace = text.length > 0;
+      continue;
+    }
+    if (/[\u00ad\u200b]/.test(raw)) continue;
+    const folded = raw
+      .normalize("NFKC")
+      .toLowerCase()
+      .replace(/[‘’‚‛`]/g, "'")
+      .replace(/[“”„‟]/g, '"')
+      .replace(/[‐‑‒–—―]/g, "-");
+    if (pendingSpace) {
+      text += " ";
+      offsets.push(index);
+      pendingSpace = false;
+    }
+    for (const ch of folded) {
+      text += ch;
+      offsets.push(index);
+    }
+  }
+  return { text, offsets };
+};
+
+// Splits a quote at ellipses, dropping page markers and the punctuation models like to add around excerpts.
+const quoteSegments = (quote: string) =>
+  normalize(quote.replace(/\[page \d+\]/gi, " ")).text
+    .split("...")
+    .map(s => s.trim().replace(/^["'\s]+|["'\s.,;:!?]+$/g, ""))
+    .filter(s => s.length >= 3);
+
+// Returns a function that finds a quote in the document, or null when it is not there.
+export const createQuoteLocator = (doc: ExtractedDocument) => {
+  const haystack = normalize(doc.text);
+  return (quote: string): TextRange | null => {
+    const segments = quoteSegments(quote);
+    if (!segments.length) return null;
+    let from = 0;
+    let start = -1;
+    let end = -1;
+    for (const segment of segments) {
+      const at = haystack.text.indexOf(segment, from);
+      if (at < 0) return null;
+      if (start < 0) start = at;
+      end = at + segment.length;
+      from = end;
+    }
+    return { start: haystack.offsets[start], end: haystack.offsets[end - 1] + 1 };
+  };
+};
+
+// Locates every cited quote in the extracted text, marking the ones that cannot be found as unverified.
+export const anchorCitations = (analysis: AnalysisData, doc: ExtractedDocument): AnalysisData => {
+  const locate = createQuoteLocator(doc);
+  const anchor = (source?: SourceAnchor): SourceAnchor | undefined => {
+    if (!source?.quote?.trim()) return undefined;
+    const range = locate(source.quote);
+    return range
+      ? { quote: source.quote, page: pageAt(doc, range.start) ?? source.page, ...range, verified: true }
+      : { quote: source.quote, page: source.page, verified: false };
+  };
+
+  return {
+    ...analysis,
+    keyConcepts: analysis.keyConcepts.map(c => ({ ...c, source: anchor(c.source) })),
+    chapterBreakdown: analysis.chapterBreakdown.map(ch => ({
+      ...ch,
+      summarySource: anchor(ch.summarySource),
+      insightSource: anchor(ch.insightSource),
+    })),
+  };
+};
@@ -0,0 +1,142 @@
+import { Type } from "@google/genai";
+import type { AnalysisData, SynthesisResult } from "../types";
+import type { ModelProvider } from "./providers";
+import { normalizeKey } from "./analysis";
+import { generateJson } from "./validation";
+
+// --- Concepts and topics ---
+
+export interface ConceptComparison {
+  term: string;
+  // Indices of the documents that list this concept.
+  documents: number[];
+  definitions: { document: number; definition: string; importance: number }[];
+  // Highest importance any document gave it.
+  importance: number;
+}
+
+export interface TopicOverlay {
+  topic: string;
+  // Relevance per document, 0 where the document does not cover the topic.
+  values: number[];
+}
+
+// Loose match so "Spaced Repetition" and "spaced repetitions" count as the same concept.
+const conceptKey = (term: string) => normalizeKey(term).replace(/(\p{L}{3,})s\b/gu, "$1");
+
+export const compareConcepts = (analyses: AnalysisData[]): ConceptComparison[] => {
+  const byKey = new Map<string, ConceptComparison>();
+  analyses.forEach((analysis, document) => {
+    for (const concept of analysis.keyConcepts) {
+      const key = conceptKey(concept.term);
+      const entry = byKey.get(key) ?? { term: concept.term, documents: [], definitions: [], importance: 0 };
+      if (!entry.documents.includes(document)) entry.documents.push(document);
+      entry.definitions.push({ document, definition: concept.definition, importance: concept.importance });
+      entry.importance = Math.max(entry.importance, concept.importance);
+      byKey.set(key, entry);
+    }
+  });
+  return [...byKey.values()].sort((a, b) => b.documents.length - a.documents.length || b.importance - a.importance);
+};
+
+export const overlayTopics = (analyses: AnalysisData[], limit = 12): TopicOverlay[] => {
+  const byKey = new Map<string, TopicOverlay>();
+  analyses.forEach((analysis, document) => {
+    for (const stat of analysis.topicStats) {
+      const key = normalizeKey(stat.topic);
+      const entry = byKey.get(key) ?? { topic: stat.topic, values: analyses.map(() => 0) };
+      entry.values[document] = Math.max(entry.values[document], stat.relevance);
+      byKey.set(key, entry);
+    }
+  });
+  const total = (t: TopicOverlay) => t.values.reduce((a, b) => a + b, 0);
+  const shared = (t: TopicOverlay) => t.values.filter(v => v > 0).length;
+  return [...byKey.values()].sort((a, b) => shared(b) - shared(a) || total(b) - total(a)).slice(0, limit);
+};
+
+// --- Synthesis ---
+
+const sourcesSchema = {
+  type: Type.ARRAY,
+  description: "Numbers of the documents that support this, e.g. [1, 3]",
+  items: { type: Type.INTEGER },
+};
+
+export const synthesisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    overview: { type: Type.STRING, description: "Two or three sentences on how the documents relate" },
+    agreements: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { claim: { type: Type.STRING }, sources: sourcesSchema },
+        required: ["claim", "sources"]
+      }
+    },
+    contradictions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          topic: { type: Type.STRING },
+          positions: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                source: { type: Type.INTEGER, description: "Number of the document taking this position" },
+                position: { type: Type.STRING }
+              },
+              required: ["source", "position"]
+            }
+          }
+        },
+        required: ["topic", "positions"]
+      }
+    },
+    gaps: {
+      type: Type.ARRAY,
+      description: "Questions the documents leave open, or topics only some of them address",
+      items: {
+        type: Type.OBJECT,
+        properties: { claim: { type: Type.STRING }, sources: sourcesSchema },
+        required: ["claim", "sources"]
+      }
+    }
+  },
+  required: ["overview", "agreements", "contradictions", "gaps"]
+};
+
+const SYNTHESIS_PROMPT =
+  "Compare the documents below, which were read together on related subjects. Identify where they agree, where they contradict each other, and what gaps they leave. " +
+  "Attribute every point to the documents it comes from using their numbers, and only cite a document for what its notes actually say.";
+
+const describeDocument = (analysis: AnalysisData, i: number) => [
+  `## Document ${i + 1}: "${analysis.metadata.title}" by ${analysis.metadata.author}`,
+  `Summary: ${analysis.executiveSummary}`,
+  `Key concepts:\n${analysis.keyConcepts.map(c => `- ${c.term}: ${c.definition}`).join("\n")}`,
+  `Chapter insights:\n${analysis.chapterBreakdown.map(ch => `- ${ch.title}: ${ch.insight}`).join("\n")}`,
+  `Topics: ${analysis.topicStats.map(t => t.topic).join(", ")}`,
+].join("\n\n");
+
+export const synthesizeDocuments = async (provider: ModelProvider, analyses: AnalysisData[]): Promise<SynthesisResult> => {
+  const result = await generateJson<SynthesisResult>(provider, {
+    task: "synthesis",
+    parts: [{ text: `${SYNTHESIS_PROMPT}\n\n${analyses.map(describeDocument).join("\n\n")}` }],
+    schema: synthesisSchema,
+  });
+
+  // Drop attributions to documents that are not part of this comparison.
+  const valid = (n: number) => n >= 1 && n <= analyses.length;
+  const attributed = (claims: SynthesisResult["gaps"]) =>
+    claims.map(c => ({ ...c, sources: [...new Set(c.sources.filter(valid))].sort((a, b) => a - b) }));
+  return {
+    overview: result.overview,
+    agreements: attributed(result.agreements).filter(c => c.sources.length),
+    contradictions: result.contradictions
+      .map(c => ({ ...c, positions: c.positions.filter(p => valid(p.source)) }))
+      .filter(c => c.positions.length > 1),
+    gaps: attributed(result.gaps),
+  };
+};
@@ -0,0 +1,141 @@
+import type { AnalysisData, ConceptRelationType } from "../types";
+import { normalizeKey } from "./analysis";
+
+// --- Graph ---
+
+export type GraphLinkType = ConceptRelationType | "mentioned_in";
+
+export interface GraphNode {
+  id: string;
+  kind: "concept" | "chapter";
+  label: string;
+  // Index into keyConcepts or chapterBreakdown.
+  index: number;
+  // 1-100 for concepts; chapters have none.
+  importance?: number;
+}
+
+export interface GraphLink {
+  source: string;
+  target: string;
+  type: GraphLinkType;
+}
+
+export interface ConceptGraph {
+  nodes: GraphNode[];
+  links: GraphLink[];
+}
+
+export const LINK_LABELS: Record<GraphLinkType, string> = {
+  depends_on: "depends on",
+  contrasts_with: "contrasts with",
+  example_of: "example of",
+  mentioned_in: "discussed in",
+};
+
+const conceptId = (index: number) => `concept:${index}`;
+const chapterId = (index: number) => `chapter:${index}`;
+
+// Chapters that discuss a concept: the ones the model named, or else the ones whose text mentions it.
+export const conceptChapters = (analysis: AnalysisData, conceptIndex: number): number[] => {
+  const concept = analysis.keyConcepts[conceptIndex];
+  if (!concept) return [];
+  const chapters = analysis.chapterBreakdown.map((ch, i) => ({ key: normalizeKey(ch.title), text: `${ch.title} ${ch.summary} ${ch.insight}`, i }));
+  if (concept.chapters?.length) {
+    const named = new Set(concept.chapters.map(normalizeKey));
+    return chapters.filter(ch => named.has(ch.key)).map(ch => ch.i);
+  }
+  const term = normalizeKey(concept.term);
+  return chapters.filter(ch => normalizeKey(ch.text).includes(term)).map(ch => ch.i);
+};
+
+export const buildConceptGraph = (analysis: AnalysisData): ConceptGraph => {
+  const byTerm = new Map(analysis.keyConcepts.map((c, i) => [normalizeKey(c.term), i]));
+  const links: GraphLink[] = [];
+  for (const relation of analysis.conceptRelations ?? []) {
+    const from = byTerm.get(normalizeKey(relation.from));
+    const to = byTerm.get(normalizeKey(relation.to));
+    if (from !== undefined && to !== undefined && from !== to) {
+      links.push({ source: conceptId(from), target: conceptId(to), type: relation.type });
+    }
+  }
+  const mentioned = new Set<number>();
+  analysis.keyConcepts.forEach((_, i) => {
+    for (const chapter of conceptChapters(analysis, i)) {
+      mentioned.add(chapter);
+      links.push({ source: conceptId(i), target: chapterId(chapter), type: "mentioned_in" });
+    }
+  });
+
+  // Chapters only appear when a concept links to them, so the graph stays about ideas.
+  const nodes: GraphNode[] = [
+    ...analysis.keyConcepts.map((c, i): GraphNode => ({ id: conceptId(i), kind: "concept", label: c.term, index: i, importance: c.importance })),
+    ...[...mentioned].sort((a, b) => a - b).map((i): GraphNode => ({ id: chapterId(i), kind: "chapter", label: analysis.chapterBreakdown[i].title, index: i })),
+  ];
+  return { nodes, links };
+};
+
+export const neighborIds = (graph: ConceptGraph, id: string) =>
+  new Set(graph.links.flatMap(l => (l.source === id ? [l.target] : l.target === id ? [l.source] : [])));
+
+// --- Layout ---
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Fruchterman-Reingold force layout: nodes repel, links pull, and movement cools over time.
+// Starts from a circle, so the same graph always lays out the same way.
+export const layoutGraph = (
+  graph: ConceptGraph,
+  { width, height, margin = 40, iterations = 300 }: { width: number; height: number; margin?: number; iterations?: number }
+): Map<string, Point> => {
+  const { nodes, links } = graph;
+  const center = { x: width / 2, y: height / 2 };
+  const points: Point[] = nodes.map((_, i) => {
+    const angle = (2 * Math.PI * i) / nodes.length;
+    return { x: center.x + Math.cos(angle) * (width / 2 - margin), y: center.y + Math.sin(angle) * (height / 2 - margin) };
+  });
+  const index = new Map(nodes.map((n, i) => [n.id, i]));
+  const edges = links.map(l => [index.get(l.source)!, index.get(l.target)!]);
+  const k = 0.8 * Math.sqrt(((width - 2 * margin) * (height - 2 * margin)) / Math.max(nodes.length, 1));
+  const gravity = 3;
+
+  for (let step = 0; step < iterations; step++) {
+    const temperature = (width / 10) * (1 - step / iterations);
+    const shift = points.map(() => ({ x: 0, y: 0 }));
+    for (let i = 0; i < points.length; i++) {
+      for (let j = i + 1; j < points.length; j++) {
+        const dx = points[i].x - points[j].x;
+        const dy = points[i].y - points[j].y;
+        const d = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (k * k) / d;
+        shift[i].x += (dx / d) * force;
+        shift[i].y += (dy / d) * force;
+        shift[j].x -= (dx / d) * force;
+        shift[j].y -= (dy / d) * force;
+      }
+    }
+    for (const [a, b] of edges) {
+      const dx = points[a].x - points[b].x;
+      const dy = points[a].y - points[b].y;
+      const d = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = (d * d) / k;
+      shift[a].x -= (dx / d) * force;
+      shift[a].y -= (dy / d) * force;
+      shift[b].x += (dx / d) * force;
+      shift[b].y += (dy / d) * force;
+    }
+    points.forEach((p, i) => {
+      // A pull towards the middle keeps repulsion from pinning nodes against the edges.
+      const sx = shift[i].x + (center.x - p.x) * gravity;
+      const sy = shift[i].y + (center.y - p.y) * gravity;
+      const length = Math.max(Math.hypot(sx, sy), 0.01);
+      const move = Math.min(length, temperature);
+      p.x = Math.min(width - margin, Math.max(margin, p.x + (sx / length) * move));
+      p.y = Math.min(height - margin, Math.max(margin, p.y + (sy / length) * move));
+    });
+  }
+  return new Map(nodes.map((n, i) => [n.id, points[i]]));
+};
@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createZip } from "./zip";
+import { buildDocx, readDocx } from "./docx";
+import { parseMarkdownBlocks } from "./markdown";
+
+const W = `xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:mc="http://schemas.openxmlformats.org/markup-compatibility/2006"`;
+
+const paragraph = (text: string, properties = "") => `<w:p><w:pPr>${properties}</w:pPr><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+test("headings come from style names, and alternative renderings are read once", async () => {
+  // German Word names its heading style "Überschrift1" but keeps the English name.
+  const styles = `<w:styles ${W}><w:style w:type="paragraph" w:styleId="berschrift1"><w:name w:val="heading 1"/></w:style></w:styles>`;
+  const body = [
+    paragraph("Kapitel Eins", `<w:pStyle w:val="berschrift1"/>`),
+    paragraph("Ein Punkt", `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>`),
+    `<w:p><w:r><w:t>Vor</w:t></w:r><w:r><mc:AlternateContent><mc:Choice Requires="wps"><w:txbxContent>${paragraph("Im Kasten")}</w:txbxContent></mc:Choice>` +
+      `<mc:Fallback><w:txbxContent>${paragraph("Im Kasten")}</w:txbxContent></mc:Fallback></mc:AlternateContent></w:r><w:r><w:tab/><w:t>nach</w:t></w:r></w:p>`,
+  ].join("");
+  const bytes = createZip([
+    { path: "word/document.xml", data: `<w:document ${W}><w:body>${body}</w:body></w:document>` },
+    { path: "word/styles.xml", data: styles },
+  ]);
+
+  assert.deepEqual(await readDocx(bytes), [
+    { text: "Kapitel Eins", level: 1 },
+    { text: "• Ein Punkt" },
+    { text: "Im Kasten" },
+    { text: "Vor nach" },
+  ]);
+});
+
+test("an exported Word document reads back", async () => {
+  const bytes = buildDocx(parseMarkdownBlocks("# Notes\n\nFirst paragraph.\n\n## Details\n\nSecond paragraph."), { title: "Notes", author: "Someone" });
+  assert.deepEqual(await readDocx(bytes), [
+    { text: "Notes", level: 1 },
+    { text: "First paragraph." },
+    { text: "Details", level: 2 },
+    { text: "Second paragraph." },
+  ]);
+});
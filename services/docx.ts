@@ -0,0 +1,253 @@
+import type { Block, Inline } from "./markdown";
+import { escapeHtml } from "./markdown";
+import { createZip, readZip } from "./zip";
+import { attribute, tokenize, type TextBlock } from "./html";
+
+// Writes Markdown blocks as a minimal WordprocessingML package that Word, Pages and LibreOffice open,
+// and reads the text and headings back out of any Word document.
+
+// --- Writing ---
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: boolean;
+}
+
+const xml = escapeHtml;
+
+const run = (text: string, style: RunStyle) => {
+  const props = [
+    style.bold && "<w:b/>",
+    style.italic && "<w:i/>",
+    style.strike && "<w:strike/>",
+    style.code && '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New"/>',
+    style.link && '<w:color w:val="4F46E5"/><w:u w:val="single"/>',
+  ].filter(Boolean).join("");
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}<w:t xml:space="preserve">${xml(text)}</w:t></w:r>`;
+};
+
+const runs = (nodes: Inline[], style: RunStyle = {}): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case "text":
+        return run(node.value, style);
+      case "code":
+        return run(node.value, { ...style, code: true });
+      case "strong":
+        return runs(node.children, { ...style, bold: true });
+      case "em":
+        return runs(node.children, { ...style, italic: true });
+      case "del":
+        return runs(node.children, { ...style, strike: true });
+      case "link":
+        return runs(node.children, { ...style, link: true });
+      case "break":
+        return "<w:r><w:br/></w:r>";
+    }
+  }).join("");
+
+const paragraph = (content: string, { style, indent }: { style?: string; indent?: number } = {}) => {
+  const props = [
+    style && `<w:pStyle w:val="${style}"/>`,
+    indent && `<w:ind w:left="${indent}" w:hanging="360"/>`,
+  ].filter(Boolean).join("");
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ""}${content}</w:p>`;
+};
+
+const TABLE_BORDERS = ["top", "left", "bottom", "right", "insideH", "insideV"]
+  .map(side => `<w:${side} w:val="single" w:sz="4" w:color="CBD5E1"/>`)
+  .join("");
+
+const body = (blocks: Block[], depth = 0): string =>
+  blocks.map(block => {
+    switch (block.type) {
+      case "heading":
+        return paragraph(runs(block.children), { style: `Heading${Math.min(block.level, 4)}` });
+      case "paragraph":
+        return paragraph(runs(block.children), { indent: depth ? depth * 360 : undefined });
+      case "list":
+        // Markers are written as text so no numbering definitions are needed.
+        return block.items.map((item, i) => {
+          const marker = block.ordered ? `${block.start + i}.` : "•";
+          const [first, ...rest] = item;
+          const lead = first?.type === "paragraph" ? runs(first.children) : "";
+          return paragraph(run(marker, {}) + "<w:r><w:tab/></w:r>" + lead, { indent: (depth + 1) * 360 }) +
+            body(first?.type === "paragraph" ? rest : item, depth + 1);
+        }).join("");
+      case "blockquote":
+        return block.children.map(child =>
+          child.type === "paragraph" ? paragraph(runs(child.children, { italic: true }), { style: "Quote" }) : body([child], depth)
+        ).join("");
+      case "code":
+        return block.value.split("\n").map(line => paragraph(run(line, { code: true }), { style: "Code" })).join("");
+      case "table": {
+        const row = (cells: Inline[][], header: boolean) =>
+          `<w:tr>${cells.map(cell => `<w:tc>${paragraph(runs(cell, { bold: header }))}</w:tc>`).join("")}</w:tr>`;
+        const grid = block.header.map(() => `<w:gridCol w:w="${Math.floor(9000 / block.header.length)}"/>`).join("");
+        return `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>${TABLE_BORDERS}</w:tblBorders></w:tblPr>` +
+          `<w:tblGrid>${grid}</w:tblGrid>${row(block.header, true)}${block.rows.map(r => row(r, false)).join("")}</w:tbl>${paragraph("")}`;
+      }
+      case "hr":
+        return '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="CBD5E1"/></w:pBdr></w:pPr></w:p>';
+    }
+  }).join("");
+
+const heading = (level: number, size: number) => `
+  <w:style w:type="paragraph" w:styleId="Heading${level}">
+    <w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>
+    <w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>
+    <w:rPr><w:rFonts w:ascii="Georgia" w:hAnsi="Georgia"/><w:b/><w:color w:val="1E293B"/><w:sz w:val="${size}"/></w:rPr>
+  </w:style>`;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+  <w:style w:type="paragraph" w:styleId="Title">
+    <w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/>
+    <w:rPr><w:rFonts w:ascii="Georgia" w:hAnsi="Georgia"/><w:b/><w:sz w:val="52"/></w:rPr>
+  </w:style>${heading(1, 40)}${heading(2, 32)}${heading(3, 26)}${heading(4, 24)}
+  <w:style w:type="paragraph" w:styleId="Quote">
+    <w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/>
+    <w:pPr><w:ind w:left="567"/><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="C7D2FE"/></w:pBdr></w:pPr>
+    <w:rPr><w:color w:val="475569"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Code">
+    <w:name w:val="Code"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:spacing w:after="0"/><w:shd w:val="clear" w:color="auto" w:fill="F1F5F9"/></w:pPr>
+    <w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New"/><w:sz w:val="18"/></w:rPr>
+  </w:style>
+</w:styles>`;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+export const buildDocx = (blocks: Block[], { title, author }: { title: string; author: string }): Uint8Array => {
+  // A leading level-1 heading becomes the document title.
+  const [first, ...rest] = blocks;
+  const titled = first?.type === "heading" && first.level === 1;
+  const content = (titled ? paragraph(runs(first.children), { style: "Title" }) : "") + body(titled ? rest : blocks);
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:body>${content}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`;
+
+  const core = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${xml(title)}</dc:title>
+  <dc:creator>${xml(author)}</dc:creator>
+  <dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, "Z")}</dcterms:created>
+</cp:coreProperties>`;
+
+  return createZip([
+    { path: "[Content_Types].xml", data: CONTENT_TYPES },
+    { path: "_rels/.rels", data: ROOT_RELS },
+    { path: "docProps/core.xml", data: core },
+    { path: "word/document.xml", data: document },
+    { path: "word/styles.xml", data: STYLES },
+    { path: "word/_rels/document.xml.rels", data: DOCUMENT_RELS },
+  ]);
+};
+
+// --- Reading ---
+
+// Heading level of each paragraph style, from its outline level or a name like "heading 2".
+// Style ids are localized in some versions of Word, so the names are what counts.
+const headingStyles = (styles: string) => {
+  const levels = new Map<string, number>();
+  for (const [, attrs, body] of styles.matchAll(/<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g)) {
+    const id = attribute(attrs, "w:styleId");
+    const name = body.match(/<w:name\b([^>]*)>/)?.[1];
+    const outline = body.match(/<w:outlineLvl\b([^>]*)>/)?.[1];
+    const named = (name && attribute(name, "w:val")?.match(/^(?:heading (\d)|(title))$/i)) || null;
+    const level = outline ? Number(attribute(outline, "w:val")) + 1 : named ? Number(named[1] ?? 1) : 0;
+    if (id && level >= 1 && level <= 6) levels.set(id, level);
+  }
+  return levels;
+};
+
+// Falls back to Word's built-in English ids when the document has no styles part.
+const styleLevel = (levels: Map<string, number>, id: string) =>
+  levels.get(id) ?? Number(id.match(/^Heading(\d)$/i)?.[1] ?? 0);
+
+interface ParagraphState {
+  text: string;
+  level?: number;
+  list: boolean;
+}
+
+export const readDocx = async (bytes: Uint8Array): Promise<TextBlock[]> => {
+  const files = await readZip(bytes);
+  const decoder = new TextDecoder();
+  const document = files.get("word/document.xml");
+  if (!document) throw new Error("This file is not a Word document.");
+  const styles = files.get("word/styles.xml");
+  const levels = styles ? headingStyles(decoder.decode(styles)) : new Map<string, number>();
+
+  const blocks: TextBlock[] = [];
+  // Text boxes hold paragraphs inside paragraphs, so open ones are kept on a stack.
+  const open: ParagraphState[] = [];
+  let inText = false;
+  // Alternative renderings repeat the same text; only the preferred one is read.
+  let fallback = 0;
+
+  for (const token of tokenize(decoder.decode(document))) {
+    const paragraph = open[open.length - 1];
+    if (token.type === "text") {
+      if (inText && paragraph && !fallback) paragraph.text += token.value;
+      continue;
+    }
+    const { name, closing, selfClosing, attrs } = token;
+    if (name === "mc:fallback" && !selfClosing) fallback += closing ? -1 : 1;
+    if (fallback) continue;
+    if (name === "w:p") {
+      if (!closing) open.push({ text: "", list: false });
+      if (closing || selfClosing) {
+        const done = open.pop();
+        const text = done?.text.trim();
+        if (text) blocks.push(done!.level ? { text, level: done!.level } : { text: done!.list ? `• ${text}` : text });
+      }
+    } else if (name === "w:t") {
+      inText = !closing && !selfClosing;
+    } else if (!paragraph) {
+      continue;
+    } else if (name === "w:pstyle") {
+      const level = styleLevel(levels, attribute(attrs, "w:val") ?? "");
+      if (level) paragraph.level = level;
+    } else if (name === "w:outlinelvl") {
+      const level = Number(attribute(attrs, "w:val")) + 1;
+      if (level <= 6) paragraph.level = level;
+    } else if (name === "w:numpr") {
+      paragraph.list = true;
+    } else if (name === "w:tab" && !closing) {
+      paragraph.text += " ";
+    } else if ((name === "w:br" || name === "w:cr") && !closing) {
+      paragraph.text += "\n";
+    }
+  }
+  return blocks;
+};
@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createZip } from "./zip";
+import { buildEpub, readEpub } from "./epub";
+import { parseMarkdownBlocks } from "./markdown";
+
+const chapter = (body: string) => `<?xml version="1.0"?><html xmlns="http://www.w3.org/1999/xhtml"><head><title>x</title></head><body>${body}</body></html>`;
+
+test("chapters are read in spine order, titled from the table of contents", async () => {
+  const opf = `<package><manifest>
+    <item id="one" href="text/one.xhtml" media-type="application/xhtml+xml"/>
+    <item id="two" href="text/two.xhtml" media-type="application/xhtml+xml"/>
+    <item id="notes" href="text/notes.xhtml" media-type="application/xhtml+xml"/>
+    <item id="toc" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+  </manifest><spine>
+    <itemref idref="two"/><itemref idref="one"/><itemref idref="notes" linear="no"/>
+  </spine></package>`;
+  const nav = chapter(`<nav><ol><li><a href="text/one.xhtml">First Steps</a></li><li><a href="text/two.xhtml#start">Before Anything</a></li></ol></nav>`);
+  const bytes = createZip([
+    { path: "mimetype", data: "application/epub+zip" },
+    { path: "META-INF/container.xml", data: `<container><rootfiles><rootfile full-path="OPS/book.opf"/></rootfiles></container>` },
+    { path: "OPS/book.opf", data: opf },
+    { path: "OPS/nav.xhtml", data: nav },
+    { path: "OPS/text/one.xhtml", data: chapter(`<h2>First Steps</h2><p>One.</p>`) },
+    { path: "OPS/text/two.xhtml", data: chapter(`<p>Two.</p><script>alert(1)</script>`) },
+    { path: "OPS/text/notes.xhtml", data: chapter(`<p>Notes.</p>`) },
+  ]);
+
+  assert.deepEqual(await readEpub(bytes), [
+    { text: "Before Anything", level: 1 },
+    { text: "Two." },
+    { text: "First Steps", level: 2 },
+    { text: "One." },
+  ]);
+});
+
+test("an exported EPUB reads back section by section", async () => {
+  const bytes = buildEpub(
+    [
+      { title: "Summary", blocks: parseMarkdownBlocks("## Summary\n\nShort version.") },
+      { title: "Concepts", blocks: parseMarkdownBlocks("## Concepts\n\n**Spacing**: reviews spread out.") },
+    ],
+    { title: "Notes", author: "Someone", identifier: "urn:test" }
+  );
+  assert.deepEqual(await readEpub(bytes), [
+    { text: "Summary", level: 2 },
+    { text: "Short version." },
+    { text: "Concepts", level: 2 },
+    { text: "Spacing: reviews spread out." },
+  ]);
+});
+
+test("a file without a package document is refused", async () => {
+  await assert.rejects(readEpub(createZip([{ path: "mimetype", data: "application/epub+zip" }])), /not an EPUB book/);
+});
@@ -0,0 +1,182 @@
+import type { Block } from "./markdown";
+import { blocksToHtml, escapeHtml } from "./markdown";
+import { createZip, readZip } from "./zip";
+import { attribute, htmlToBlocks, plainText, tokenize, type TextBlock } from "./html";
+
+// Writes an EPUB 3 book with one XHTML document per section, and reads any EPUB 2 or 3 book back
+// in reading order.
+
+// --- Writing ---
+
+export interface EpubSection {
+  title: string;
+  blocks: Block[];
+}
+
+const STYLESHEET = `body { font-family: Georgia, serif; line-height: 1.6; color: #334155; }
+h1, h2, h3, h4 { color: #1e293b; line-height: 1.3; }
+blockquote { margin: 1em 0; padding-left: 1em; border-left: 4px solid #c7d2fe; color: #475569; font-style: italic; }
+code { font-family: monospace; font-size: 0.9em; }
+pre { white-space: pre-wrap; background: #f1f5f9; padding: 0.75em; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #cbd5e1; padding: 0.3em 0.5em; text-align: left; }`;
+
+const xhtml = (title: string, language: string, body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeHtml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+const CONTAINER = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+export const buildEpub = (
+  sections: EpubSection[],
+  { title, author, language = "en", identifier }: { title: string; author: string; language?: string; identifier: string }
+): Uint8Array => {
+  const files = sections.map((section, i) => ({ ...section, href: `section-${i + 1}.xhtml`, id: `section-${i + 1}` }));
+
+  const nav = xhtml(title, language, `<nav epub:type="toc" id="toc">
+  <h1>Contents</h1>
+  <ol>
+${files.map(f => `    <li><a href="${f.href}">${escapeHtml(f.title)}</a></li>`).join("\n")}
+  </ol>
+</nav>`);
+
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeHtml(identifier)}</dc:identifier>
+    <dc:title>${escapeHtml(title)}</dc:title>
+    <dc:creator>${escapeHtml(author)}</dc:creator>
+    <dc:language>${language}</dc:language>
+    <meta property="dcterms:modified">${new Date().toISOString().replace(/\.\d+Z$/, "Z")}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="css" href="style.css" media-type="text/css"/>
+${files.map(f => `    <item id="${f.id}" href="${f.href}" media-type="application/xhtml+xml"/>`).join("\n")}
+  </manifest>
+  <spine>
+${files.map(f => `    <itemref idref="${f.id}"/>`).join("\n")}
+  </spine>
+</package>`;
+
+  return createZip([
+    // Must come first and uncompressed so readers can sniff the format.
+    { path: "mimetype", data: "application/epub+zip" },
+    { path: "META-INF/container.xml", data: CONTAINER },
+    { path: "OEBPS/content.opf", data: opf },
+    { path: "OEBPS/nav.xhtml", data: nav },
+    { path: "OEBPS/style.css", data: STYLESHEET },
+    ...files.map(f => ({ path: `OEBPS/${f.href}`, data: xhtml(f.title, language, blocksToHtml(f.blocks)) })),
+  ]);
+};
+
+// --- Reading ---
+
+// Resolves an href against the folder of the file it appears in, dropping any #fragment.
+const resolvePath = (from: string, href: string) => {
+  const parts = from.split("/").slice(0, -1);
+  let target = href.split("#")[0];
+  try {
+    target = decodeURIComponent(target);
+  } catch {
+    // Not percent-encoded after all.
+  }
+  for (const part of target.split("/")) {
+    if (part === "..") parts.pop();
+    else if (part && part !== ".") parts.push(part);
+  }
+  return parts.join("/");
+};
+
+interface ManifestItem {
+  path: string;
+  mediaType: string;
+  properties: string;
+}
+
+// Chapter titles by file, from the EPUB 3 navigation document or the EPUB 2 NCX.
+const tocTitles = (read: (path: string) => string | undefined, manifest: Map<string, ManifestItem>) => {
+  const titles = new Map<string, string>();
+  const add = (from: string, href: string | undefined, title: string) => {
+    const path = href && resolvePath(from, href);
+    if (path && title && !titles.has(path)) titles.set(path, title);
+  };
+  const items = [...manifest.values()];
+  const nav = items.find(i => i.properties.split(/\s+/).includes("nav"));
+  const ncx = items.find(i => i.mediaType === "application/x-dtbncx+xml");
+  const navMarkup = nav && read(nav.path);
+  if (nav && navMarkup) {
+    for (const [, attrs, label] of navMarkup.matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi)) add(nav.path, attribute(attrs, "href"), plainText(label));
+  }
+  const ncxMarkup = ncx && read(ncx.path);
+  if (ncx && ncxMarkup) {
+    for (const [, label, attrs] of ncxMarkup.matchAll(/<navLabel>[\s\S]*?<text>([\s\S]*?)<\/text>[\s\S]*?<content\b([^>]*)>/gi)) {
+      add(ncx.path, attribute(attrs, "src"), plainText(label));
+    }
+  }
+  return titles;
+};
+
+const SPINE_TYPES = ["application/xhtml+xml", "text/html"];
+
+// A heading carrying the title just after a label such as "Chapter 3" counts as opening the chapter too.
+const opensWithHeading = (blocks: TextBlock[], title: string) =>
+  !!blocks[0]?.level || blocks.slice(0, 3).some(b => b.level && b.text.toLowerCase().includes(title.toLowerCase()));
+
+export const readEpub = async (bytes: Uint8Array): Promise<TextBlock[]> => {
+  const files = await readZip(bytes);
+  const decoder = new TextDecoder();
+  const read = (path: string) => {
+    const file = files.get(path);
+    return file && decoder.decode(file);
+  };
+
+  const container = read("META-INF/container.xml");
+  const rootfile = container && tokenize(container).find(t => t.type === "tag" && t.name === "rootfile");
+  const opfPath = rootfile?.type === "tag" ? attribute(rootfile.attrs, "full-path") : undefined;
+  const opf = opfPath && read(opfPath);
+  if (!opfPath || !opf) throw new Error("This file is not an EPUB book.");
+
+  const manifest = new Map<string, ManifestItem>();
+  const spine: string[] = [];
+  for (const token of tokenize(opf)) {
+    if (token.type !== "tag" || token.closing) continue;
+    const { name, attrs } = token;
+    const id = attribute(attrs, "id");
+    const href = attribute(attrs, "href");
+    if (name === "item" && id && href) {
+      manifest.set(id, {
+        path: resolvePath(opfPath, href),
+        mediaType: attribute(attrs, "media-type") ?? "",
+        properties: attribute(attrs, "properties") ?? "",
+      });
+    } else if (name === "itemref" && attribute(attrs, "linear") !== "no") {
+      spine.push(attribute(attrs, "idref") ?? "");
+    }
+  }
+  const titles = tocTitles(read, manifest);
+
+  // Each spine document is a chapter; one that does not open with its own heading gets its title from the table of contents.
+  return spine.flatMap(idref => {
+    const item = manifest.get(idref);
+    const markup = item && SPINE_TYPES.includes(item.mediaType) && !item.properties.includes("nav") ? read(item.path) : undefined;
+    if (!item || !markup) return [];
+    const blocks = htmlToBlocks(markup);
+    const title = titles.get(item.path);
+    return title && !opensWithHeading(blocks, title) ? [{ text: title, level: 1 }, ...blocks] : blocks;
+  });
+};
@@ -0,0 +1,81 @@
+// --- Types ---
+
+export type ErrorCategory = "auth" | "quota" | "safety" | "invalid-output" | "network" | "unknown";
+
+// Serializable form of a failure, safe to keep in React state.
+export interface ErrorInfo {
+  category: ErrorCategory;
+  message: string;
+}
+
+export class ModelError extends Error {
+  readonly category: ErrorCategory;
+
+  constructor(category: ErrorCategory, message: string) {
+    super(message);
+    this.name = "ModelError";
+    this.category = category;
+  }
+}
+
+export const ERROR_DETAILS: Record<ErrorCategory, { title: string; hint: string }> = {
+  auth: {
+    title: "The API key was rejected",
+    hint: "Check the API key and model in Settings.",
+  },
+  quota: {
+    title: "Rate limit or quota reached",
+    hint: "Wait a minute before retrying, or switch to another model in Settings.",
+  },
+  safety: {
+    title: "The provider blocked this content",
+    hint: "Its safety filters refused to answer. Another model may handle this document.",
+  },
+  "invalid-output": {
+    title: "The model returned an unusable response",
+    hint: "Retrying usually helps. Larger models are more reliable on long documents.",
+  },
+  network: {
+    title: "Could not reach the model",
+    hint: "Check your connection and the endpoint in Settings, then retry.",
+  },
+  unknown: {
+    title: "Something went wrong",
+    hint: "Retry, and check the browser console if it keeps happening.",
+  },
+};
+
+// --- Classification ---
+
+export const categoryForStatus = (status: number): ErrorCategory | null => {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 429) return "quota";
+  if (status === 408 || status >= 500) return "network";
+  return null;
+};
+
+export const classifyError = (err: unknown): ErrorCategory => {
+  if (err instanceof ModelError) return err.category;
+  const status = typeof (err as { status?: unknown })?.status === "number" ? (err as { status: number }).status : null;
+  const fromStatus = status !== null ? categoryForStatus(status) : null;
+  if (fromStatus) return fromStatus;
+
+  const message = err instanceof Error ? err.message : String(err);
+  if (/api[ _-]?key|unauthori[sz]ed|permission denied|unauthenticated/i.test(message)) return "auth";
+  if (/quota|rate.?limit|resource.?exhausted|too many requests/i.test(message)) return "quota";
+  if (/safety|blocked|content.?filter/i.test(message)) return "safety";
+  if (err instanceof SyntaxError) return "invalid-output";
+  if (/failed to fetch|fetch failed|network|timed? ?out|ECONN|overloaded|unavailable/i.test(message)) return "network";
+  return "unknown";
+};
+
+// The request was cancelled on purpose, so there is nothing to report.
+export const isAbortError = (err: unknown) => (err as { name?: unknown })?.name === "AbortError";
+
+// Worth retrying as-is: the same request may succeed a moment later.
+export const isRetryable = (category: ErrorCategory) => category !== "auth" && category !== "safety";
+
+export const toErrorInfo = (err: unknown, fallback = "Unexpected error."): ErrorInfo => ({
+  category: classifyError(err),
+  message: (err instanceof Error ? err.message : String(err ?? "")) || fallback,
+});
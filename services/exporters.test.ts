@@ -0,0 +1,70 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AnalysisData } from "../types";
+import { mockFixtures } from "../fixtures/mockFixtures";
+import { parseMarkdown } from "./extraction";
+import { finishAnalysis } from "./pipeline";
+import { EXPORTERS, parseAnalysisExport } from "./exporters";
+
+const doc = parseMarkdown(
+  "# Why Reading Fades\n\nReading is the foundation of learning. Most of what we read is forgotten within days.\n",
+  "sample.md",
+  "text/markdown"
+);
+
+test("a JSON export imports back as the same analysis", () => {
+  const finished = finishAnalysis(mockFixtures.analysis as AnalysisData, doc);
+  const analysis: AnalysisData = {
+    ...finished,
+    metadata: { ...finished.metadata, pageCount: 1 },
+    // The notes language, which flashcards and glossary headings follow.
+    language: "Deutsch",
+    conceptRelations: [{ from: "Active Reading", to: "Spaced Review", type: "depends_on" }],
+  };
+  // Exports are JSON, so compare against the analysis as JSON would carry it.
+  const expected = JSON.parse(JSON.stringify(analysis));
+  assert.equal(typeof expected.metadata.wordCount, "number");
+  assert.equal(expected.keyConcepts[0].source.verified, true);
+
+  const json = EXPORTERS.find(e => e.id === "json")!.build({ analysis, doc });
+  const imported = parseAnalysisExport(json as string);
+  assert.deepEqual(JSON.parse(JSON.stringify(imported.analysis)), expected);
+  assert.equal(imported.analysis.language, "Deutsch");
+  assert.deepEqual(imported.document, JSON.parse(JSON.stringify(doc)));
+});
+
+test("measured fields of the wrong type are refused", () => {
+  const analysis = finishAnalysis(mockFixtures.analysis as AnalysisData, doc);
+  const exported = JSON.parse(EXPORTERS.find(e => e.id === "json")!.build({ analysis, doc }) as string);
+  const edit = (change: (analysis: Record<string, any>) => void) => {
+    const copy = structuredClone(exported);
+    change(copy.analysis);
+    return JSON.stringify(copy);
+  };
+
+  assert.throws(() => parseAnalysisExport(edit(a => (a.metadata.wordCount = "lots"))), /metadata\.wordCount should be a number/);
+  assert.throws(() => parseAnalysisExport(edit(a => (a.metadata.pageCount = "12 pages"))), /metadata\.pageCount should be a number/);
+  assert.throws(() => parseAnalysisExport(edit(a => (a.metadata.language = 42))), /metadata\.language should be a string/);
+  assert.throws(() => parseAnalysisExport(edit(a => (a.language = 42))), /language should be a string/);
+  assert.throws(
+    () => parseAnalysisExport(edit(a => (a.keyConcepts[0].source = { quote: "Reading", start: "abc", end: {}, verified: "yes" }))),
+    /keyConcepts\[0\]\.source\.start should be a number; keyConcepts\[0\]\.source\.end should be a number; keyConcepts\[0\]\.source\.verified should be true or false/
+  );
+});
+
+test("citations are anchored again in the exported document", () => {
+  const analysis = finishAnalysis(mockFixtures.analysis as AnalysisData, doc);
+  const exported = JSON.parse(EXPORTERS.find(e => e.id === "json")!.build({ analysis, doc }) as string);
+  exported.analysis.keyConcepts[0].source = { quote: "Reading is the foundation", start: 0, end: 3, verified: false };
+  exported.analysis.keyConcepts[1].source = { quote: "Not in the text", start: 10, end: 20, verified: true };
+
+  const imported = parseAnalysisExport(JSON.stringify(exported)).analysis;
+  const source = imported.keyConcepts[0].source!;
+  assert.equal(source.verified, true);
+  assert.equal(doc.text.slice(source.start, source.end), "Reading is the foundation");
+  assert.deepEqual(imported.keyConcepts[1].source, { quote: "Not in the text", page: undefined, verified: false });
+
+  // Without the text there is nothing to check the offsets against, so only the quotes are kept.
+  delete exported.document;
+  assert.deepEqual(parseAnalysisExport(JSON.stringify(exported)).analysis.keyConcepts[1].source, { quote: "Not in the text" });
+});
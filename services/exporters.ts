@@ -0,0 +1,467 @@
+import type { AnalysisData, SourceAnchor } from "../types";
+import type { ExtractedDocument } from "./extraction";
+import type { LibraryEntry } from "./library";
+import { analysisSchemaFor, normalizeKey } from "./analysis";
+import { validateResponse } from "./validation";
+import { blocksToHtml, escapeHtml, parseMarkdownBlocks, type Block } from "./markdown";
+import { buildDocx } from "./docx";
+import { buildEpub, type EpubSection } from "./epub";
+import { createZip } from "./zip";
+import { BUILT_IN_PROFILES, parseProfileSnapshot, profileFieldMarkdown } from "./profiles";
+import { annotatedMarkdown, parseUserNotes } from "./annotations";
+import { LINK_LABELS, conceptChapters } from "./conceptGraph";
+import { bilingualTerm, reportWithGlossary } from "./language";
+import { anchorCitations } from "./citations";
+
+// --- Types ---
+
+// The open analysis plus whatever is known about its library entry.
+export interface ExportContext extends Partial<Omit<LibraryEntry, "id" | "analysis">> {
+  analysis: AnalysisData;
+  doc?: ExtractedDocument | null;
+}
+
+export interface Exporter {
+  id: string;
+  label: string;
+  description: string;
+  extension: string;
+  // Appended to the document title to name the downloaded file.
+  suffix: string;
+  mimeType: string;
+  build(context: ExportContext): string | Uint8Array;
+}
+
+export const EXPORT_FORMAT = "deepread-analysis";
+// Bump when the shape of AnalysisExport changes; importers accept this version and older ones.
+export const EXPORT_VERSION = 1;
+
+export interface AnalysisExport extends Partial<Omit<LibraryEntry, "id" | "analysis">> {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  analysis: AnalysisData;
+  // Extracted text, so citations and Ask keep working after a re-import.
+  document?: ExtractedDocument;
+}
+
+// --- Study guide ---
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]|])/g, "\\$1").replace(/^(#|>|-|\+|\d+\.)/, "\\$1");
+
+const shiftHeadings = (blocks: Block[], by: number): Block[] =>
+  blocks.map(block =>
+    block.type === "heading" ? { ...block, level: Math.min(6, block.level + by) }
+      : block.type === "blockquote" ? { ...block, children: shiftHeadings(block.children, by) }
+        : block
+  );
+
+// The report is nested under its own heading, so its top level must sit below that heading.
+const reportBlocks = (analysis: AnalysisData, topLevel: number) => {
+  const blocks = parseMarkdownBlocks(analysis.fullMarkdownReport);
+  const levels = blocks.flatMap(b => (b.type === "heading" ? [b.level] : []));
+  return levels.length ? shiftHeadings(blocks, Math.max(0, topLevel - Math.min(...levels))) : blocks;
+};
+
+const byline = ({ metadata }: AnalysisData) =>
+  [metadata.author, metadata.genre, metadata.readingTime && `${metadata.readingTime} read`].filter(Boolean).join(" · ");
+
+// Summary, concepts and chapters as separate sections, shared by the DOCX and EPUB exporters.
+export const studyGuideSections = (analysis: AnalysisData): EpubSection[] => [
+  {
+    title: "Overview",
+    blocks: parseMarkdownBlocks([
+      "## Overview",
+      `*${escapeMarkdown(byline(analysis))}*`,
+      escapeMarkdown(analysis.executiveSummary),
+      "### Main Topics",
+      analysis.topicStats.map(t => `- ${escapeMarkdown(t.topic)} — ${t.relevance}%`).join("\n"),
+    ].join("\n\n")),
+  },
+  {
+    title: "Key Concepts",
+    blocks: parseMarkdownBlocks([
+      "## Key Concepts",
+      [...analysis.keyConcepts]
+        .sort((a, b) => b.importance - a.importance)
+        .map(c => `- **${escapeMarkdown(bilingualTerm(c))}** (${c.importance}) — ${escapeMarkdown(c.definition)}`)
+        .join("\n"),
+    ].join("\n\n")),
+  },
+  {
+    title: "Chapter Breakdown",
+    blocks: parseMarkdownBlocks([
+      "## Chapter Breakdown",
+      ...analysis.chapterBreakdown.map(ch =>
+        `### ${escapeMarkdown(ch.title)}\n\n${escapeMarkdown(ch.summary)}\n\n> **Key insight:** ${escapeMarkdown(ch.insight)}`
+      ),
+    ].join("\n\n")),
+  },
+  ...(analysis.profile?.fields ?? []).map(field => ({
+    title: field.label,
+    blocks: parseMarkdownBlocks(`## ${escapeMarkdown(field.label)}\n\n${profileFieldMarkdown(field, analysis.profileData?.[field.key])}`),
+  })),
+  {
+    title: "Full Report",
+    blocks: [...parseMarkdownBlocks("## Full Report"), ...reportBlocks(analysis, 3)],
+  },
+];
+
+// --- HTML ---
+
+const barChartSvg = (data: { label: string; value: number }[]) => {
+  const rowHeight = 44;
+  const width = 640;
+  const max = Math.max(...data.map(d => d.value), 1);
+  const rows = data.map((d, i) => {
+    const y = i * rowHeight;
+    return `<text x="0" y="${y + 16}" class="label">${escapeHtml(d.label)}</text>` +
+      `<text x="${width}" y="${y + 16}" class="value" text-anchor="end">${d.value}%</text>` +
+      `<rect x="0" y="${y + 24}" width="${width}" height="10" rx="5" fill="#f1f5f9" />` +
+      `<rect x="0" y="${y + 24}" width="${((d.value / max) * width).toFixed(1)}" height="10" rx="5" fill="#6366f1" />`;
+  });
+  return `<svg viewBox="0 0 ${width} ${data.length * rowHeight}" role="img" xmlns="http://www.w3.org/2000/svg">${rows.join("")}</svg>`;
+};
+
+const HTML_STYLES = `
+  body { margin: 0; background: #f8fafc; color: #334155; font: 16px/1.6 -apple-system, "Segoe UI", Inter, sans-serif; }
+  main { max-width: 880px; margin: 0 auto; padding: 48px 24px; }
+  header h1 { font: 700 2.4rem/1.2 Georgia, Merriweather, serif; color: #1e293b; margin: 0 0 8px; }
+  .byline { color: #64748b; margin: 0 0 32px; }
+  section { background: #fff; border: 1px solid #e2e8f0; border-radius: 16px; padding: 32px; margin-bottom: 24px; }
+  section > h2 { font: 700 1.5rem Georgia, Merriweather, serif; color: #1e293b; margin: 0 0 16px; }
+  .summary { font: 1.15rem/1.7 Georgia, Merriweather, serif; }
+  .concepts { display: grid; grid-template-columns: repeat(auto-fill, minmax(240px, 1fr)); gap: 16px; }
+  .concept { border: 1px solid #f1f5f9; border-radius: 12px; padding: 16px; }
+  .concept h3 { margin: 0 0 4px; font-size: 1.05rem; color: #1e293b; }
+  .concept .score { font-size: 0.75rem; font-weight: 700; color: #b45309; }
+  .chapter { border-bottom: 1px solid #f1f5f9; padding: 16px 0; }
+  .chapter:last-child { border-bottom: 0; }
+  .chapter h3 { margin: 0 0 4px; color: #1e293b; }
+  .insight { background: #eef2ff; color: #3730a3; border-radius: 8px; padding: 8px 12px; font-size: 0.9rem; }
+  svg { width: 100%; height: auto; }
+  svg .label { font-size: 14px; font-weight: 500; fill: #334155; }
+  svg .value { font-size: 13px; fill: #94a3b8; }
+  .report { font-family: Georgia, Merriweather, serif; }
+  .report blockquote { margin: 1em 0; padding: 4px 16px; border-left: 4px solid #c7d2fe; background: #eef2ff66; font-style: italic; }
+  .report pre { background: #0f172a; color: #f1f5f9; padding: 16px; border-radius: 12px; overflow-x: auto; }
+  .report code { font-family: ui-monospace, monospace; font-size: 0.9em; }
+  .report table { border-collapse: collapse; width: 100%; }
+  .report th, .report td { border-bottom: 1px solid #e2e8f0; padding: 6px 10px; text-align: left; }
+  a { color: #4f46e5; }
+  @media print { body { background: #fff; } section { border: 0; padding: 0; } }
+`;
+
+export const analysisToHtml = (analysis: AnalysisData) => {
+  const { metadata } = analysis;
+  const concepts = [...analysis.keyConcepts].sort((a, b) => b.importance - a.importance);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(metadata.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<header>
+  <h1>${escapeHtml(metadata.title)}</h1>
+  <p class="byline">${escapeHtml(byline(analysis))}</p>
+</header>
+<section>
+  <h2>Executive Summary</h2>
+  <p class="summary">${escapeHtml(analysis.executiveSummary)}</p>
+</section>
+<section>
+  <h2>Topic Distribution</h2>
+  ${barChartSvg(analysis.topicStats.map(t => ({ label: t.topic, value: t.relevance })))}
+</section>
+<section>
+  <h2>Concept Importance</h2>
+  ${barChartSvg(concepts.map(c => ({ label: c.term, value: c.importance })))}
+</section>
+<section>
+  <h2>Key Concepts</h2>
+  <div class="concepts">
+${concepts.map(c => `    <div class="concept"><h3>${escapeHtml(c.term)}</h3><div class="score">${c.importance} Impact</div><p>${escapeHtml(c.definition)}</p></div>`).join("\n")}
+  </div>
+</section>
+<section>
+  <h2>Chapter Breakdown</h2>
+${analysis.chapterBreakdown.map(ch => `  <div class="chapter"><h3>${escapeHtml(ch.title)}</h3><p>${escapeHtml(ch.summary)}</p><p class="insight"><strong>Key insight:</strong> ${escapeHtml(ch.insight)}</p></div>`).join("\n")}
+</section>
+<section class="report">
+  <h2>Full Report</h2>
+${blocksToHtml(reportBlocks(analysis, 3))}
+</section>
+</main>
+</body>
+</html>
+`;
+};
+
+// --- Obsidian ---
+
+// Characters Obsidian does not allow in note names.
+const noteName = (title: string) => title.replace(/[\\/:*?"<>|#^[\]]/g, "").replace(/\s+/g, " ").trim() || "Untitled";
+
+const yaml = (fields: Record<string, string | number | string[] | undefined>) =>
+  [
+    "---",
+    ...Object.entries(fields)
+      .filter(([, value]) => value !== undefined && value !== "")
+      .map(([key, value]) =>
+        Array.isArray(value) ? `${key}: [${value.map(v => JSON.stringify(v)).join(", ")}]` : `${key}: ${JSON.stringify(value)}`
+      ),
+    "---",
+  ].join("\n");
+
+const tagName = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-|-$/g, "");
+
+const wikilink = (target: string, label = target) => (noteName(label) === target ? `[[${target}]]` : `[[${target}|${label}]]`);
+
+const mentions = (text: string, term: string) => text.toLowerCase().includes(term.toLowerCase());
+
+export const buildObsidianBundle = ({ analysis }: ExportContext) => {
+  const { metadata } = analysis;
+  const root = noteName(metadata.title);
+  const created = new Date().toISOString().slice(0, 10);
+  const concepts = [...analysis.keyConcepts].sort((a, b) => b.importance - a.importance);
+  const conceptLink = (term: string) => wikilink(noteName(term), term);
+  const conceptsIn = (text: string, except?: string) =>
+    concepts.filter(c => c.term !== except && mentions(text, c.term)).map(c => conceptLink(c.term));
+  // The term itself when the file name had to change it, and the source-language term of translated notes.
+  const aliases = (c: AnalysisData["keyConcepts"][0]) => {
+    const names = [...new Set([c.term, c.originalTerm ?? ""])].filter(name => name && name !== noteName(c.term));
+    return names.length ? names : undefined;
+  };
+
+  const main = [
+    yaml({
+      title: metadata.title,
+      author: metadata.author,
+      genre: metadata.genre,
+      reading_time: metadata.readingTime,
+      pages: metadata.pageCount,
+      words: metadata.wordCount,
+      tags: ["deepread", tagName(metadata.genre)].filter(Boolean),
+      created,
+    }),
+    `# ${metadata.title}`,
+    `> [!summary]\n> ${analysis.executiveSummary}`,
+    "## Key Concepts",
+    concepts.map(c => `- ${conceptLink(c.term)} — ${c.definition}`).join("\n"),
+    "## Chapters",
+    ...analysis.chapterBreakdown.map(ch => {
+      const related = conceptsIn(`${ch.summary} ${ch.insight}`);
+      return [
+        `### ${ch.title}`,
+        ch.summary,
+        `> [!tip] Key insight\n> ${ch.insight}`,
+        related.length ? `Concepts: ${related.join(", ")}` : "",
+      ].filter(Boolean).join("\n\n");
+    }),
+    "## Topics",
+    analysis.topicStats.map(t => `- ${t.topic} (${t.relevance}%)`).join("\n"),
+    "## Notes",
+    analysis.fullMarkdownReport,
+  ].join("\n\n");
+
+  const conceptNotes = concepts.map(c => {
+    // Typed relations from the analysis first, then concepts the definition mentions.
+    const typed = (analysis.conceptRelations ?? []).flatMap(r =>
+      normalizeKey(r.from) === normalizeKey(c.term) ? [`${LINK_LABELS[r.type]} ${conceptLink(r.to)}`] : []
+    );
+    const related = [...typed, ...conceptsIn(c.definition, c.term).filter(link => !typed.some(t => t.endsWith(link)))];
+    const chapters = conceptChapters(analysis, analysis.keyConcepts.indexOf(c)).map(i => analysis.chapterBreakdown[i]);
+    const note = [
+      yaml({
+        title: c.term,
+        aliases: aliases(c),
+        importance: c.importance,
+        source: `[[${root}]]`,
+        tags: ["deepread/concept"],
+        created,
+      }),
+      `# ${c.term}`,
+      c.definition,
+      c.source ? `> ${c.source.quote}\n> — ${wikilink(root, metadata.title)}${c.source.page ? `, p. ${c.source.page}` : ""}` : `Source: ${wikilink(root, metadata.title)}`,
+      related.length ? `## Related\n\n${related.map(l => `- ${l}`).join("\n")}` : "",
+      chapters.length ? `## Mentioned in\n\n${chapters.map(ch => `- [[${root}#${noteName(ch.title)}|${ch.title}]]`).join("\n")}` : "",
+    ].filter(Boolean).join("\n\n");
+    return { path: `${root}/Concepts/${noteName(c.term)}.md`, data: `${note}\n` };
+  });
+
+  return createZip([{ path: `${root}/${root}.md`, data: `${main}\n` }, ...conceptNotes]);
+};
+
+// --- JSON ---
+
+export const toAnalysisExport = ({ doc, ...context }: ExportContext): AnalysisExport => ({
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  ...context,
+  document: doc ?? undefined,
+});
+
+type Fields<T> = Partial<Record<keyof T, unknown>>;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+const isString = (value: unknown): value is string => typeof value === "string";
+const isBoolean = (value: unknown): value is boolean => typeof value === "boolean";
+
+// The fields the app measured rather than asked the model for. The schema would coerce them, e.g. 42 to "42",
+// so they are checked as strictly as the app writes them.
+const measuredFieldIssues = (raw: unknown): string[] => {
+  const analysis = raw as Fields<AnalysisData> | null;
+  const metadata = analysis?.metadata as Fields<AnalysisData["metadata"]> | null | undefined;
+  const issues: string[] = [];
+  const check = (value: unknown, path: string, is: (value: unknown) => boolean, expected: string) => {
+    if (value != null && !is(value)) issues.push(`${path} should be ${expected}`);
+  };
+  check(metadata?.wordCount, "metadata.wordCount", isFiniteNumber, "a number");
+  check(metadata?.pageCount, "metadata.pageCount", isFiniteNumber, "a number");
+  check(metadata?.language, "metadata.language", isString, "a string");
+  check(analysis?.language, "language", isString, "a string");
+
+  const items = (list: unknown) => (Array.isArray(list) ? (list as (Record<string, unknown> | null)[]) : []);
+  const anchors = [
+    ...items(analysis?.keyConcepts).map((c, i) => [`keyConcepts[${i}].source`, c?.source] as const),
+    ...items(analysis?.chapterBreakdown).flatMap((ch, i) => [
+      [`chapterBreakdown[${i}].summarySource`, ch?.summarySource] as const,
+      [`chapterBreakdown[${i}].insightSource`, ch?.insightSource] as const,
+    ]),
+  ];
+  for (const [path, value] of anchors) {
+    const anchor = value as Fields<SourceAnchor> | null | undefined;
+    check(anchor?.start, `${path}.start`, isFiniteNumber, "a number");
+    check(anchor?.end, `${path}.end`, isFiniteNumber, "a number");
+    check(anchor?.verified, `${path}.verified`, isBoolean, "true or false");
+  }
+  return issues;
+};
+
+// Reads a JSON export back, re-checking the analysis since the file may have been edited by hand.
+export const parseAnalysisExport = (text: string): AnalysisExport => {
+  let data: Partial<AnalysisExport>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  if (data?.format !== EXPORT_FORMAT) throw new Error("This file is not a DeepRead analysis export.");
+  if (typeof data.version !== "number" || data.version > EXPORT_VERSION) {
+    throw new Error("This export was made by a newer version of DeepRead.");
+  }
+  const invalid = measuredFieldIssues(data.analysis);
+  if (invalid.length) throw new Error(`This export has invalid fields: ${invalid.slice(0, 3).join("; ")}.`);
+  const profile = parseProfileSnapshot((data.analysis as Partial<AnalysisData> | undefined)?.profile);
+  const { value, issues } = validateResponse(data.analysis, analysisSchemaFor(profile ?? BUILT_IN_PROFILES[0]));
+  if (issues.length) throw new Error(`This export is incomplete: ${issues.slice(0, 3).join("; ")}.`);
+
+  // The schema leaves out the measured fields, which are restored from the checked export.
+  const raw = data.analysis as AnalysisData;
+  const checked = value as AnalysisData;
+  const { wordCount, pageCount, language } = raw.metadata;
+  let analysis: AnalysisData = {
+    ...checked,
+    metadata: {
+      ...checked.metadata,
+      ...(language != null ? { language } : {}),
+      ...(pageCount != null ? { pageCount } : {}),
+      ...(wordCount != null ? { wordCount } : {}),
+    },
+    ...(raw.language != null ? { language: raw.language } : {}),
+    ...(profile ? { profile } : {}),
+  };
+
+  // Citation offsets only mean something against the document's text, so they are found again in it;
+  // without the text, the quotes are kept unanchored.
+  const document = data.document && typeof data.document.text === "string" ? data.document : undefined;
+  if (document) analysis = anchorCitations(analysis, document);
+  return {
+    ...data,
+    format: EXPORT_FORMAT,
+    version: data.version,
+    exportedAt: data.exportedAt ?? new Date().toISOString(),
+    analysis,
+    document,
+    flashcards: Array.isArray(data.flashcards) ? data.flashcards : undefined,
+    chat: Array.isArray(data.chat) ? data.chat : undefined,
+    notes: parseUserNotes(data.notes),
+    versions: Array.isArray(data.versions) ? data.versions : undefined,
+    usage: Array.isArray(data.usage) ? data.usage : undefined,
+    progress: Array.isArray(data.progress?.read) ? data.progress : undefined,
+  };
+};
+
+// --- Registry ---
+
+const studyGuideDocument = (analysis: AnalysisData): Block[] => [
+  ...parseMarkdownBlocks(`# ${escapeMarkdown(analysis.metadata.title)}`),
+  ...studyGuideSections(analysis).flatMap(s => s.blocks),
+];
+
+export const EXPORTERS: Exporter[] = [
+  {
+    id: "markdown",
+    label: "Markdown",
+    description: "The full report with your notes as callouts",
+    extension: "md",
+    suffix: "Notes",
+    mimeType: "text/markdown",
+    build: ({ analysis, notes }) => annotatedMarkdown({ ...analysis, fullMarkdownReport: reportWithGlossary(analysis) }, notes),
+  },
+  {
+    id: "html",
+    label: "Standalone HTML",
+    description: "Styled page with charts, opens anywhere",
+    extension: "html",
+    suffix: "Notes",
+    mimeType: "text/html",
+    build: ({ analysis }) => analysisToHtml(analysis),
+  },
+  {
+    id: "json",
+    label: "DeepRead JSON",
+    description: "Everything, for re-importing later",
+    extension: "json",
+    suffix: "DeepRead",
+    mimeType: "application/json",
+    build: context => JSON.stringify(toAnalysisExport(context), null, 2),
+  },
+  {
+    id: "obsidian",
+    label: "Obsidian vault",
+    description: "One note per concept with wikilinks",
+    extension: "zip",
+    suffix: "Obsidian",
+    mimeType: "application/zip",
+    build: buildObsidianBundle,
+  },
+  {
+    id: "docx",
+    label: "Word study guide",
+    description: "DOCX for Word, Pages or Google Docs",
+    extension: "docx",
+    suffix: "Study_Guide",
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    build: ({ analysis }) => buildDocx(studyGuideDocument(analysis), analysis.metadata),
+  },
+  {
+    id: "epub",
+    label: "EPUB study guide",
+    description: "For e-readers",
+    extension: "epub",
+    suffix: "Study_Guide",
+    mimeType: "application/epub+zip",
+    build: ({ analysis, contentHash }) =>
+      buildEpub(studyGuideSections(analysis), {
+        title: analysis.metadata.title,
+        author: analysis.metadata.author,
+        identifier: `urn:deepread:${contentHash ?? crypto.randomUUID()}`,
+      }),
+  },
+];
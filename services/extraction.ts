@@ -0,0 +1,246 @@
+import { extractPdfContent, type PdfLine } from "./pdf";
+import { decodeHtml, parseHtml, type TextBlock } from "./html";
+import { readDocx } from "./docx";
+import { readEpub } from "./epub";
+
+// --- Types ---
+
+export interface SourceFile {
+  name: string;
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+// Character range into `ExtractedDocument.text`, end-exclusive.
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface DocumentPage extends TextRange {
+  number: number;
+}
+
+export interface DocumentHeading {
+  level: number;
+  title: string;
+  offset: number;
+  page?: number;
+}
+
+export interface DocumentParagraph extends TextRange {
+  page?: number;
+}
+
+export interface ExtractedDocument {
+  fileName: string;
+  mimeType: string;
+  text: string;
+  // Empty for formats without fixed pages, such as Markdown.
+  pages: DocumentPage[];
+  headings: DocumentHeading[];
+  paragraphs: DocumentParagraph[];
+  wordCount: number;
+}
+
+const WORDS_PER_MINUTE = 238;
+
+// --- Formats ---
+
+export const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+export const EPUB_MIME_TYPE = "application/epub+zip";
+
+// Files that can be analyzed, by extension.
+export const MIME_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".epub": EPUB_MIME_TYPE,
+  ".docx": DOCX_MIME_TYPE,
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".xhtml": "application/xhtml+xml",
+  ".md": "text/markdown",
+  ".markdown": "text/markdown",
+  ".txt": "text/plain",
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(MIME_TYPES);
+
+// --- Helpers ---
+
+export const isPdf = (file: { name: string; mimeType: string }) =>
+  file.mimeType === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+
+export const countWords = (text: string) => text.match(/\S+/g)?.length ?? 0;
+
+export const formatMinutes = (total: number) => {
+  const hours = Math.floor(total / 60);
+  const minutes = Math.round(total % 60);
+  return hours ? `${hours} h${minutes ? ` ${minutes} min` : ""}` : `${Math.max(minutes, 1)} min`;
+};
+
+export const readingMinutes = (wordCount: number) => wordCount / WORDS_PER_MINUTE;
+
+export const estimateReadingTime = (wordCount: number) => formatMinutes(readingMinutes(wordCount));
+
+export const pageAt = (doc: ExtractedDocument, offset: number) =>
+  doc.pages.find(p => offset >= p.start && offset < p.end)?.number;
+
+const median = (values: number[]) => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// --- Markdown & plain text ---
+
+export const parseMarkdown = (raw: string, fileName: string, mimeType: string): ExtractedDocument => {
+  const text = raw.replace(/\r\n?/g, "\n");
+  const headings: DocumentHeading[] = [];
+  const paragraphs: DocumentParagraph[] = [];
+  let paragraph: (TextRange & { lines: number }) | null = null;
+  let inFence = false;
+  let offset = 0;
+
+  const closeParagraph = () => {
+    if (paragraph) paragraphs.push({ start: paragraph.start, end: paragraph.end });
+    paragraph = null;
+  };
+
+  for (const line of text.split("\n")) {
+    const start = offset;
+    const end = offset + line.length;
+    offset = end + 1;
+
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const atx = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    const setext = !inFence && paragraph?.lines === 1 && line.match(/^(=+|-+)\s*$/);
+
+    if (atx) {
+      closeParagraph();
+      headings.push({ level: atx[1].length, title: atx[2], offset: start });
+    } else if (setext) {
+      const title = text.slice(paragraph!.start, paragraph!.end).trim();
+      headings.push({ level: setext[1][0] === "=" ? 1 : 2, title, offset: paragraph!.start });
+      paragraph = null;
+    } else if (!line.trim()) {
+      if (!inFence) closeParagraph();
+    } else if (paragraph) {
+      paragraph.end = end;
+      paragraph.lines++;
+    } else {
+      paragraph = { start, end, lines: 1 };
+    }
+  }
+  closeParagraph();
+
+  return { fileName, mimeType, text, pages: [], headings, paragraphs, wordCount: countWords(text) };
+};
+
+// --- HTML, DOCX & EPUB ---
+
+// Lays out headings and paragraphs as text, one blank line apart, keeping where each starts.
+export const buildStructuredDocument = (blocks: TextBlock[], fileName: string, mimeType: string): ExtractedDocument => {
+  let text = "";
+  const headings: DocumentHeading[] = [];
+  const paragraphs: DocumentParagraph[] = [];
+  for (const block of blocks) {
+    const content = block.text.trim();
+    if (!content) continue;
+    const start = text.length;
+    text += content + "\n\n";
+    if (block.level) headings.push({ level: block.level, title: content, offset: start });
+    else paragraphs.push({ start, end: start + content.length });
+  }
+  return { fileName, mimeType, text, pages: [], headings, paragraphs, wordCount: countWords(text) };
+};
+
+// --- PDF ---
+
+const HEADING_SIZE_RATIO = 1.25;
+const MAX_HEADING_LENGTH = 100;
+
+// Joins positioned lines into paragraphs, breaking where the vertical gap is wider than normal line spacing.
+const groupParagraphs = (lines: PdfLine[]) => {
+  const paragraphs: PdfLine[][] = [];
+  let current: PdfLine[] = [];
+  lines.forEach((line, i) => {
+    const prev = lines[i - 1];
+    const gap = prev ? prev.y - line.y : 0;
+    const breaks = !line.text.trim() || (prev && (gap > prev.fontSize * 1.8 || gap < 0 || line.fontSize !== prev.fontSize));
+    if (breaks && current.length) {
+      paragraphs.push(current);
+      current = [];
+    }
+    if (line.text.trim()) current.push(line);
+  });
+  if (current.length) paragraphs.push(current);
+  return paragraphs;
+};
+
+const joinLines = (lines: PdfLine[]) =>
+  lines.reduce((acc, line) => {
+    const text = line.text.trim();
+    if (!acc) return text;
+    return /[A-Za-z]-$/.test(acc) ? acc.slice(0, -1) + text : `${acc} ${text}`;
+  }, "");
+
+export const buildPdfDocument = async (bytes: Uint8Array, fileName: string): Promise<ExtractedDocument> => {
+  const { pages: pageLines, outline } = await extractPdfContent(bytes);
+  const bodySize = median(pageLines.flat().filter(l => l.text.trim()).map(l => l.fontSize));
+
+  let text = "";
+  const pages: DocumentPage[] = [];
+  const paragraphs: DocumentParagraph[] = [];
+  const detected: DocumentHeading[] = [];
+
+  pageLines.forEach((lines, i) => {
+    const number = i + 1;
+    const pageStart = text.length;
+    for (const group of groupParagraphs(lines)) {
+      const content = joinLines(group);
+      const start = text.length;
+      text += content + "\n\n";
+      const size = group[0].fontSize;
+      if (group.length <= 2 && content.length <= MAX_HEADING_LENGTH && /\p{L}/u.test(content) && size >= bodySize * HEADING_SIZE_RATIO) {
+        detected.push({ level: size >= bodySize * 1.6 ? 1 : 2, title: content, offset: start, page: number });
+      } else {
+        paragraphs.push({ start, end: start + content.length, page: number });
+      }
+    }
+    pages.push({ number, start: pageStart, end: text.length });
+  });
+
+  // A bookmark outline is the author's own structure, so it wins over font-size guesses.
+  const headings = outline.length
+    ? outline.map(entry => {
+        const page = pages[entry.pageNumber - 1];
+        const found = page ? text.slice(page.start, page.end).toLowerCase().indexOf(entry.title.toLowerCase()) : -1;
+        return {
+          level: entry.level,
+          title: entry.title,
+          offset: page ? (found >= 0 ? page.start + found : page.start) : 0,
+          page: entry.pageNumber,
+        };
+      }).sort((a, b) => a.offset - b.offset)
+    : detected;
+
+  return { fileName, mimeType: "application/pdf", text, pages, headings, paragraphs, wordCount: countWords(text) };
+};
+
+// --- Public API ---
+
+// Turns an uploaded file into plain text with page, heading and paragraph positions.
+export const extractDocument = async (file: SourceFile): Promise<ExtractedDocument> => {
+  if (isPdf(file)) return buildPdfDocument(file.bytes, file.name);
+  switch (file.mimeType) {
+    case EPUB_MIME_TYPE:
+      return buildStructuredDocument(await readEpub(file.bytes), file.name, file.mimeType);
+    case DOCX_MIME_TYPE:
+      return buildStructuredDocument(await readDocx(file.bytes), file.name, file.mimeType);
+    case "text/html":
+    case "application/xhtml+xml":
+      return buildStructuredDocument(parseHtml(decodeHtml(file.bytes)), file.name, file.mimeType);
+  }
+  if (file.mimeType && !file.mimeType.startsWith("text/")) throw new Error(`${file.name} is not a supported file type.`);
+  return parseMarkdown(new TextDecoder().decode(file.bytes), file.name, file.mimeType || "text/plain");
+};
@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AnalysisData, ReviewGrade } from "../types";
+import { mockFixtures } from "../fixtures/mockFixtures";
+import { cardsFromAnalysis, reviewCard, toAnkiDelimited, withUniqueIds } from "./flashcards";
+
+const analysis = mockFixtures.analysis as AnalysisData;
+
+test("chapters sharing a title get cards with distinct ids", () => {
+  const chapter = analysis.chapterBreakdown[0];
+  const cards = cardsFromAnalysis({
+    ...analysis,
+    chapterBreakdown: [chapter, { ...chapter, insight: "A second insight under the same title." }],
+  });
+  const insights = cards.filter(c => c.kind === "insight");
+  assert.equal(insights.length, 2);
+  assert.notEqual(insights[0].id, insights[1].id);
+  assert.equal(new Set(cards.map(c => c.id)).size, cards.length);
+
+  // Grading one leaves the other unseen.
+  const graded = cards.map(c => (c.id === insights[0].id ? reviewCard(c, 4) : c));
+  assert.equal(graded.find(c => c.id === insights[1].id)!.history.length, 0);
+});
+
+test("saved decks with repeated ids are renumbered in order", () => {
+  const [card] = cardsFromAnalysis(analysis);
+  const deck = withUniqueIds([card, { ...card }, { ...card }]);
+  assert.deepEqual(deck.map(c => c.id), [card.id, `${card.id}#2`, `${card.id}#3`]);
+});
+
+test("reviews follow SM-2: 1 day, 6 days, then the interval times the ease", () => {
+  const now = new Date("2026-01-01T00:00:00Z");
+  const [card] = cardsFromAnalysis(analysis);
+  const grades: ReviewGrade[] = [5, 5, 3, 1];
+  const steps = grades.reduce((path, grade) => [...path, reviewCard(path[path.length - 1], grade, now)], [card]).slice(1);
+  assert.deepEqual(steps.map(c => c.interval), [1, 6, 16, 1]);
+  assert.deepEqual(steps.map(c => c.repetitions), [1, 2, 3, 0]);
+  assert.deepEqual(steps.map(c => Math.round(c.ease * 100) / 100), [2.6, 2.7, 2.56, 2.02]);
+  assert.equal(steps[2].due, "2026-01-17T00:00:00.000Z");
+  assert.deepEqual(steps[3].history.map(h => h.grade), [5, 5, 3, 1]);
+
+  // Repeated failures never push the ease below 1.3.
+  const failed = [0, 0, 0, 0, 0].reduce(c => reviewCard(c, 0, now), card);
+  assert.equal(failed.ease, 1.3);
+});
+
+test("Anki exports quote fields holding separators, quotes or line breaks", () => {
+  const [card] = cardsFromAnalysis(analysis);
+  const cards = [{ ...card, front: "Tabs\tand, commas", back: 'A "quoted"\nanswer' }];
+  const tsv = toAnkiDelimited(cards, "tsv", "My Book: Part 1").split("\n");
+  assert.deepEqual(tsv.slice(0, 3), ["#separator:Tab", "#html:false", "#tags column:3"]);
+  assert.equal(tsv.slice(3).join("\n"), `"Tabs\tand, commas"\t"A ""quoted""\nanswer"\tdeepread my_book_part_1 concept\n`);
+  const csv = toAnkiDelimited(cards, "csv", "");
+  assert.ok(csv.endsWith(`"Tabs\tand, commas","A ""quoted""\nanswer",deepread deepread concept\n`));
+});
@@ -0,0 +1,159 @@
+import { Type } from "@google/genai";
+import type { AnalysisData, Flashcard, FlashcardKind, ReviewGrade } from "../types";
+import type { ModelProvider } from "./providers";
+import { generateJson } from "./validation";
+import { bilingualTerm } from "./language";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// Chapter insights carry no score of their own, so they rank just above an average concept.
+const INSIGHT_IMPORTANCE = 60;
+export const NEW_CARDS_PER_SESSION = 20;
+
+export const flashcardsSchema = {
+  type: Type.OBJECT,
+  properties: {
+    cards: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: ["cloze", "qa"] },
+          front: { type: Type.STRING, description: "Question, or a sentence with the key term replaced by _____" },
+          back: { type: Type.STRING, description: "Answer, or the missing term" },
+          importance: { type: Type.INTEGER, description: "How central the fact is to the document, 1-100", minimum: 1, maximum: 100 }
+        },
+        required: ["kind", "front", "back", "importance"]
+      }
+    }
+  },
+  required: ["cards"]
+};
+
+const FLASHCARD_PROMPT =
+  "Write study flashcards for the document described below. Mix cloze cards (a sentence from the material with its key term replaced by _____, answered by that term) and question-and-answer cards that test understanding rather than trivia. Keep each side short, avoid duplicating the existing cards, and write at most 20 cards.";
+
+// --- Cards ---
+
+const cardId = (kind: FlashcardKind, front: string) =>
+  `${kind}:${front.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim()}`;
+
+const newCard = (card: Pick<Flashcard, "kind" | "front" | "back" | "importance" | "source">): Flashcard => ({
+  ...card,
+  id: cardId(card.kind, card.front),
+  ease: INITIAL_EASE,
+  interval: 0,
+  repetitions: 0,
+  history: [],
+});
+
+// Cards with the same front, e.g. from two chapters sharing a title, get numbered ids so each is studied on its own.
+export const withUniqueIds = (cards: Flashcard[]) => {
+  const seen = new Map<string, number>();
+  return cards.map(card => {
+    const count = (seen.get(card.id) ?? 0) + 1;
+    seen.set(card.id, count);
+    return count > 1 ? { ...card, id: `${card.id}#${count}` } : card;
+  });
+};
+
+export const cardsFromAnalysis = (analysis: AnalysisData): Flashcard[] =>
+  withUniqueIds([
+    ...analysis.keyConcepts.map(c =>
+      newCard({ kind: "concept", front: bilingualTerm(c), back: c.definition, importance: c.importance, source: c.source })
+    ),
+    ...analysis.chapterBreakdown.map(ch =>
+      newCard({ kind: "insight", front: `Key insight of "${ch.title}"`, back: ch.insight, importance: INSIGHT_IMPORTANCE, source: ch.insightSource })
+    ),
+  ]);
+
+// Rewrites the concept and insight cards after a translation, keeping their review history.
+export const retextCards = (deck: Flashcard[], before: AnalysisData, after: AnalysisData) => {
+  const previous = cardsFromAnalysis(before);
+  const next = cardsFromAnalysis(after);
+  const texts = new Map(previous.map((card, i) => [card.id, next[i]]));
+  return deck.map(card => {
+    const text = texts.get(card.id);
+    return text ? { ...card, id: text.id, front: text.front, back: text.back } : card;
+  });
+};
+
+// Adds cards that are not in the deck yet; existing cards keep their review state.
+export const mergeCards = (deck: Flashcard[], incoming: Flashcard[]) => {
+  const ids = new Set(deck.map(c => c.id));
+  return [...deck, ...incoming.filter(c => !ids.has(c.id) && ids.add(c.id))];
+};
+
+export const generateCards = async (provider: ModelProvider, analysis: AnalysisData, deck: Flashcard[]): Promise<Flashcard[]> => {
+  const material = [
+    `Title: ${analysis.metadata.title} by ${analysis.metadata.author}`,
+    `Summary: ${analysis.executiveSummary}`,
+    `Chapters:\n${analysis.chapterBreakdown.map(ch => `- ${ch.title}: ${ch.summary} ${ch.insight}`).join("\n")}`,
+    `Existing cards:\n${deck.map(c => `- ${c.front}`).join("\n")}`,
+  ].join("\n\n");
+  const { cards } = await generateJson<{ cards: Pick<Flashcard, "kind" | "front" | "back" | "importance">[] }>(provider, {
+    task: "flashcards",
+    parts: [{ text: `${FLASHCARD_PROMPT}${analysis.language ? ` Write the cards in ${analysis.language}.` : ""}\n\n${material}` }],
+    schema: flashcardsSchema,
+  });
+  return cards.filter(c => c.front.trim() && c.back.trim()).map(newCard);
+};
+
+// --- Scheduling ---
+
+// SM-2: failed cards start over tomorrow; remembered ones wait 1, 6, then interval × ease days.
+export const reviewCard = (card: Flashcard, grade: ReviewGrade, now = new Date()): Flashcard => {
+  const remembered = grade >= 3;
+  const repetitions = remembered ? card.repetitions + 1 : 0;
+  const interval = !remembered || repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * card.ease);
+  const ease = Math.max(MIN_EASE, card.ease + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+  return {
+    ...card,
+    ease,
+    interval,
+    repetitions,
+    due: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    history: [...card.history, { reviewedAt: now.toISOString(), grade, interval }],
+  };
+};
+
+export const isNew = (card: Flashcard) => !card.due;
+
+export const isDue = (card: Flashcard, now = new Date()) => !!card.due && new Date(card.due) <= now;
+
+// Overdue reviews first (oldest first), then the most important unseen cards.
+export const studyQueue = (cards: Flashcard[], now = new Date(), newLimit = NEW_CARDS_PER_SESSION) => [
+  ...cards
+    .filter(c => isDue(c, now))
+    .sort((a, b) => a.due!.localeCompare(b.due!) || b.importance - a.importance),
+  ...cards
+    .filter(isNew)
+    .sort((a, b) => b.importance - a.importance)
+    .slice(0, newLimit),
+];
+
+export const deckStats = (cards: Flashcard[], now = new Date()) => ({
+  total: cards.length,
+  new: cards.filter(isNew).length,
+  due: cards.filter(c => isDue(c, now)).length,
+  // Cards that survived at least one interval longer than the first day.
+  learned: cards.filter(c => c.repetitions >= 2).length,
+});
+
+// --- Anki export ---
+
+export type DelimitedFormat = "csv" | "tsv";
+
+const delimitedField = (value: string, separator: string) =>
+  /["\n\r]/.test(value) || value.includes(separator) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Front, back and tags columns with Anki's file headers, so the import dialog needs no setup.
+export const toAnkiDelimited = (cards: Flashcard[], format: DelimitedFormat, deckTag: string) => {
+  const separator = format === "csv" ? "," : "\t";
+  const tag = deckTag.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "_").replace(/^_|_$/g, "") || "deepread";
+  const rows = cards.map(c =>
+    [c.front, c.back, `deepread ${tag} ${c.kind}`].map(v => delimitedField(v, separator)).join(separator)
+  );
+  return [`#separator:${format === "csv" ? "Comma" : "Tab"}`, "#html:false", "#tags column:3", ...rows].join("\n") + "\n";
+};
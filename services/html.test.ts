@@ -0,0 +1,25 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseHtml } from "./html";
+
+test("scripts, styles and site chrome stay out of the text", () => {
+  const page = `<html><head><title>Saved Page</title><style>p { color: red }</style></head><body>
+    <nav><a href="/">Home</a></nav>
+    <header>Site name</header>
+    <script>document.write("<p>injected</p>")</script>
+    <p>First &amp; only paragraph.</p>
+    <ul><li>One</li><li>Two</li></ul>
+    <footer>© Someone</footer>
+  </body></html>`;
+  assert.deepEqual(parseHtml(page), [
+    { text: "Saved Page", level: 1 },
+    { text: "First & only paragraph." },
+    { text: "• One" },
+    { text: "• Two" },
+  ]);
+});
+
+test("an article is read on its own, headers and all", () => {
+  const page = `<body><nav>Menu</nav><article><header><h1>The Piece</h1></header><p>Body <noscript>Enable JS</noscript>text.</p></article><aside>Ads</aside></body>`;
+  assert.deepEqual(parseHtml(page), [{ text: "The Piece", level: 1 }, { text: "Body text." }]);
+});
@@ -0,0 +1,154 @@
+// Turns HTML and the XML inside DOCX and EPUB files into headings and paragraphs of clean text.
+// A small tokenizer rather than DOMParser, so the batch CLI can read the same files under Node.
+
+// --- Types ---
+
+// A heading or paragraph, before it is laid out as document text.
+export interface TextBlock {
+  text: string;
+  // Set for headings, 1-6.
+  level?: number;
+}
+
+export type MarkupToken =
+  | { type: "text"; value: string }
+  | { type: "tag"; name: string; closing: boolean; selfClosing: boolean; attrs: string };
+
+// --- Tokens ---
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", shy: "",
+  ndash: "–", mdash: "—", hellip: "…", bull: "•", middot: "·",
+  lsquo: "‘", rsquo: "’", sbquo: "‚", ldquo: "“", rdquo: "”", bdquo: "„", laquo: "«", raquo: "»",
+  copy: "©", reg: "®", trade: "™", deg: "°", times: "×", divide: "÷", plusmn: "±", sect: "§", para: "¶",
+  euro: "€", pound: "£", yen: "¥", cent: "¢",
+};
+
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] !== "#") return NAMED_ENTITIES[code] ?? match;
+    const point = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : match;
+  });
+
+const TOKEN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[!?][^>]*>|<(\/?)([a-zA-Z][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|[^<]+|</g;
+
+// Splits markup into tags and decoded text. Comments, doctypes and processing instructions are dropped.
+export const tokenize = (markup: string): MarkupToken[] => {
+  const tokens: MarkupToken[] = [];
+  for (const [match, cdata, closing, name, attrs, selfClosing] of markup.matchAll(TOKEN)) {
+    if (name) {
+      tokens.push({ type: "tag", name: name.toLowerCase(), closing: !!closing, selfClosing: !!selfClosing, attrs });
+    } else if (cdata !== undefined) {
+      tokens.push({ type: "text", value: cdata });
+    } else if (!match.startsWith("<") || match === "<") {
+      tokens.push({ type: "text", value: decodeEntities(match) });
+    }
+  }
+  return tokens;
+};
+
+export const attribute = (attrs: string, name: string) => {
+  const found = attrs.match(new RegExp(`(?:^|\\s)${name.replace(/[.:]/g, "\\$&")}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, "i"));
+  return found ? decodeEntities(found[1] ?? found[2] ?? found[3]) : undefined;
+};
+
+// Text content of a fragment, with tags removed and whitespace collapsed.
+export const plainText = (markup: string) =>
+  tokenize(markup)
+    .map(t => (t.type === "text" ? t.value : " "))
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// --- HTML ---
+
+// Never part of the reading text.
+const SKIPPED = new Set(["head", "script", "style", "noscript", "template", "svg", "math", "iframe", "object", "canvas", "select", "button"]);
+// Site navigation around an article; only dropped when the page does not mark its main content.
+const CHROME = new Set(["nav", "header", "footer", "aside", "form"]);
+const BLOCK_TAGS = new Set([
+  "html", "body", "main", "article", "section", "div", "p", "blockquote", "pre", "address", "figure", "figcaption",
+  "ul", "ol", "li", "dl", "dt", "dd", "table", "caption", "tr", "hr",
+]);
+const HEADING = /^h([1-6])$/;
+
+// The article or main element when the page has one, so menus and footers stay out of the notes.
+const mainContent = (html: string) => {
+  const content = html.match(/<article\b[^>]*>([\s\S]*)<\/article>/i) ?? html.match(/<main\b[^>]*>([\s\S]*)<\/main>/i);
+  return content ? { markup: content[1], chrome: false } : { markup: html, chrome: true };
+};
+
+// `dropChrome` leaves out navigation, headers and footers, for web pages without marked main content.
+export const htmlToBlocks = (markup: string, dropChrome = false): TextBlock[] => {
+  const blocks: TextBlock[] = [];
+  let current = "";
+  let level: number | undefined;
+  let pre = 0;
+  // Element being skipped and how deeply it is nested in itself.
+  let skipping: { name: string; depth: number } | null = null;
+
+  const flush = () => {
+    const text = pre
+      ? current.replace(/^\n+|\s+$/g, "")
+      : current.split("\n").map(line => line.replace(/ +/g, " ").trim()).filter(Boolean).join("\n");
+    if (text) blocks.push(level ? { text: text.replace(/\s+/g, " "), level } : { text });
+    current = "";
+    level = undefined;
+  };
+
+  for (const token of tokenize(markup)) {
+    if (skipping) {
+      if (token.type === "tag" && token.name === skipping.name && !token.selfClosing) {
+        skipping.depth += token.closing ? -1 : 1;
+        if (!skipping.depth) skipping = null;
+      }
+      continue;
+    }
+    if (token.type === "text") {
+      current += pre ? token.value : token.value.replace(/\s+/g, " ");
+      continue;
+    }
+    const { name, closing, selfClosing } = token;
+    if (!closing && !selfClosing && (SKIPPED.has(name) || (dropChrome && CHROME.has(name)))) {
+      skipping = { name, depth: 1 };
+      continue;
+    }
+    const heading = name.match(HEADING);
+    if (heading) {
+      flush();
+      if (!closing) level = Number(heading[1]);
+    } else if (name === "br") {
+      current += "\n";
+    } else if (name === "td" || name === "th") {
+      if (!closing && current.trim()) current += " | ";
+    } else if (BLOCK_TAGS.has(name)) {
+      flush();
+      if (name === "pre") pre = Math.max(0, pre + (closing ? -1 : 1));
+      if (name === "li" && !closing) current = "• ";
+    }
+  }
+  flush();
+  return blocks.filter(b => b.text !== "•");
+};
+
+// A whole page: its blocks, led by the page title when the content has no headings of its own.
+export const parseHtml = (html: string): TextBlock[] => {
+  const { markup, chrome } = mainContent(html);
+  const blocks = htmlToBlocks(markup, chrome);
+  const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+  const heading = title && plainText(title[1]);
+  return heading && !blocks.some(b => b.level) ? [{ text: heading, level: 1 }, ...blocks] : blocks;
+};
+
+// Honours a <meta charset> in the first kilobyte; saved pages are not always UTF-8.
+export const decodeHtml = (bytes: Uint8Array) => {
+  const head = new TextDecoder("latin1").decode(bytes.subarray(0, 1024));
+  const charset = head.match(/<meta[^>]+charset\s*=\s*["']?([\w-]+)/i)?.[1];
+  try {
+    return new TextDecoder(charset ?? "utf-8").decode(bytes);
+  } catch {
+    return new TextDecoder().decode(bytes);
+  }
+};
@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AnalysisData } from "../types";
+import { mockFixtures } from "../fixtures/mockFixtures";
+import { createMockProvider } from "./providers";
+import { translateAnalysis } from "./language";
+
+test("translation keeps the measured reading time", async () => {
+  const analysis = mockFixtures.analysis as AnalysisData;
+  const provider = createMockProvider({ provider: "mock", model: "fixture", endpoint: "", apiKey: "" });
+  const translated = await translateAnalysis(provider, analysis, "Deutsch");
+  assert.equal(translated.language, "Deutsch");
+  assert.equal(translated.metadata.genre, "Sachbuch");
+  assert.equal(translated.metadata.readingTime, analysis.metadata.readingTime);
+});
+
+test("a translation that loses list items is refused rather than shifting the rest", async () => {
+  const analysis = mockFixtures.analysis as AnalysisData;
+  const translation = mockFixtures.translate as { keyConcepts: { term: string; definition?: string }[] };
+  // The first concept lacks its definition, so it is dropped and every later one would move up a place.
+  const broken = { ...translation, keyConcepts: [{ term: translation.keyConcepts[0].term }, ...translation.keyConcepts.slice(1)] };
+  const provider = createMockProvider({ provider: "mock", model: "fixture", endpoint: "", apiKey: "" }, { ...mockFixtures, translate: broken });
+  await assert.rejects(
+    translateAnalysis(provider, analysis, "Deutsch"),
+    new RegExp(`keyConcepts should have ${analysis.keyConcepts.length} valid items, not ${analysis.keyConcepts.length - 1}`)
+  );
+});
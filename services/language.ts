@@ -0,0 +1,162 @@
+import { Type } from "@google/genai";
+import type { AnalysisData, ProfileValue } from "../types";
+import type { ModelProvider } from "./providers";
+import { generateJson } from "./validation";
+import { normalizeKey } from "./analysis";
+import { profileSchema } from "./profiles";
+
+// --- Settings ---
+
+// Offered in the language pickers; "" means the document's own language.
+export const OUTPUT_LANGUAGES = [
+  "English",
+  "Spanish",
+  "French",
+  "German",
+  "Italian",
+  "Portuguese",
+  "Dutch",
+  "Polish",
+  "Russian",
+  "Ukrainian",
+  "Turkish",
+  "Arabic",
+  "Hindi",
+  "Chinese (Simplified)",
+  "Chinese (Traditional)",
+  "Japanese",
+  "Korean",
+];
+
+const STORAGE_KEY = "deepread.outputLanguage";
+
+export const loadOutputLanguage = () => localStorage.getItem(STORAGE_KEY) ?? "";
+
+export const saveOutputLanguage = (language: string) => localStorage.setItem(STORAGE_KEY, language);
+
+// --- Glossary ---
+
+type Concept = AnalysisData["keyConcepts"][0];
+
+const hasOriginal = (c: Concept) => !!c.originalTerm && normalizeKey(c.originalTerm) !== normalizeKey(c.term);
+
+// True when at least one concept is named differently in the source than in the notes.
+export const isBilingual = (analysis: AnalysisData) => analysis.keyConcepts.some(hasOriginal);
+
+// "Spaced repetition (verteiltes Wiederholen)" for translated concepts, the plain term otherwise.
+export const bilingualTerm = (concept: Concept) =>
+  hasOriginal(concept) ? `${concept.term} (${concept.originalTerm})` : concept.term;
+
+const tableCell = (text: string) => text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+
+export const glossaryMarkdown = (analysis: AnalysisData) => {
+  const source = analysis.metadata.language || "Original";
+  const target = analysis.language || "Term";
+  const rows = [...analysis.keyConcepts]
+    .sort((a, b) => a.term.localeCompare(b.term))
+    .map(c => `| ${tableCell(c.originalTerm || c.term)} | ${tableCell(c.term)} | ${tableCell(c.definition)} |`);
+  return [`## Glossary`, [`| ${source} | ${target} | Definition |`, "| --- | --- | --- |", ...rows].join("\n")].join("\n\n");
+};
+
+// The report with a bilingual glossary after it, when the analysis has one.
+export const reportWithGlossary = (analysis: AnalysisData) =>
+  isBilingual(analysis) ? `${analysis.fullMarkdownReport.trimEnd()}\n\n${glossaryMarkdown(analysis)}` : analysis.fullMarkdownReport;
+
+// --- Translation ---
+
+interface TranslatableText {
+  genre: string;
+  executiveSummary: string;
+  keyConcepts: { term: string; definition: string }[];
+  chapterBreakdown: { title: string; summary: string; insight: string }[];
+  topics: string[];
+  fullMarkdownReport: string;
+  profileData?: Record<string, ProfileValue>;
+}
+
+// Translations are matched to the originals by position, so each list must come back whole.
+const stringList = (properties: string[], count: number) => ({
+  type: Type.ARRAY,
+  minItems: count,
+  maxItems: count,
+  items: {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(properties.map(p => [p, { type: Type.STRING }])),
+    required: properties,
+  },
+});
+
+const translationSchema = (analysis: AnalysisData) => {
+  const profile = analysis.profile && profileSchema(analysis.profile);
+  return {
+    type: Type.OBJECT,
+    properties: {
+      genre: { type: Type.STRING },
+      executiveSummary: { type: Type.STRING },
+      keyConcepts: stringList(["term", "definition"], analysis.keyConcepts.length),
+      chapterBreakdown: stringList(["title", "summary", "insight"], analysis.chapterBreakdown.length),
+      topics: { type: Type.ARRAY, minItems: analysis.topicStats.length, maxItems: analysis.topicStats.length, items: { type: Type.STRING } },
+      fullMarkdownReport: { type: Type.STRING },
+      ...(profile ? { profileData: profile } : {}),
+    },
+    required: ["genre", "executiveSummary", "keyConcepts", "chapterBreakdown", "topics", "fullMarkdownReport"],
+  };
+};
+
+const translatableText = (analysis: AnalysisData): TranslatableText => ({
+  genre: analysis.metadata.genre,
+  executiveSummary: analysis.executiveSummary,
+  keyConcepts: analysis.keyConcepts.map(({ term, definition }) => ({ term, definition })),
+  chapterBreakdown: analysis.chapterBreakdown.map(({ title, summary, insight }) => ({ title, summary, insight })),
+  topics: analysis.topicStats.map(t => t.topic),
+  fullMarkdownReport: analysis.fullMarkdownReport,
+  ...(analysis.profileData ? { profileData: analysis.profileData } : {}),
+});
+
+// Rewrites the analysis's text in another language without re-reading the document.
+// Scores, citations, original terms and the measured reading time are kept; items the model skipped stay untranslated.
+export const translateAnalysis = async (
+  provider: ModelProvider,
+  analysis: AnalysisData,
+  language: string
+): Promise<AnalysisData> => {
+  const t = await generateJson<TranslatableText>(provider, {
+    task: "translate",
+    parts: [{
+      text: `Translate every text value in this reading note into ${language}. ` +
+        "Keep the JSON structure, the number and order of items, and all Markdown formatting. " +
+        "Leave names of people and titles of works as they are.\n\n" + JSON.stringify(translatableText(analysis)),
+    }],
+    schema: translationSchema(analysis),
+  });
+
+  const conceptTerms = new Map(analysis.keyConcepts.map((c, i) => [normalizeKey(c.term), t.keyConcepts[i].term]));
+  const chapterTitles = new Map(analysis.chapterBreakdown.map((ch, i) => [normalizeKey(ch.title), t.chapterBreakdown[i].title]));
+  const rename = (names: Map<string, string>, name: string) => names.get(normalizeKey(name)) ?? name;
+
+  return {
+    ...analysis,
+    language,
+    metadata: { ...analysis.metadata, genre: t.genre },
+    executiveSummary: t.executiveSummary,
+    keyConcepts: analysis.keyConcepts.map((c, i) => {
+      // Notes written in the document's language name concepts as the document does.
+      const originalTerm = c.originalTerm ?? (analysis.language ? undefined : c.term);
+      return {
+        ...c,
+        ...t.keyConcepts[i],
+        ...(originalTerm ? { originalTerm } : {}),
+        ...(c.chapters ? { chapters: c.chapters.map(title => rename(chapterTitles, title)) } : {}),
+      };
+    }),
+    chapterBreakdown: analysis.chapterBreakdown.map((ch, i) => ({ ...ch, ...t.chapterBreakdown[i] })),
+    conceptRelations: analysis.conceptRelations?.map(r => ({ ...r, from: rename(conceptTerms, r.from), to: rename(conceptTerms, r.to) })),
+    topicStats: analysis.topicStats.map((s, i) => ({ ...s, topic: t.topics[i] })),
+    fullMarkdownReport: t.fullMarkdownReport,
+    ...(analysis.profileData ? { profileData: t.profileData ?? analysis.profileData } : {}),
+  };
+};
+
+// Old and new term of each concept, for carrying notes and cards across a translation.
+export const renamedConcepts = (before: AnalysisData, after: AnalysisData) =>
+  new Map(before.keyConcepts.map((c, i) => [c.term, after.keyConcepts[i]?.term ?? c.term]));
@@ -0,0 +1,125 @@
+import type { AnalysisData, AnalysisVersion, ChatMessage, Flashcard, ReadingProgress, UsageRecord, UserNotes } from "../types";
+import type { ProviderId } from "./providers";
+import type { ExtractedDocument } from "./extraction";
+
+export interface LibraryEntry {
+  id: string;
+  fileName: string;
+  // SHA-256 of the uploaded file, used to recognise re-uploads.
+  contentHash: string;
+  analyzedAt: string;
+  provider: ProviderId;
+  model: string;
+  analysis: AnalysisData;
+  chat?: ChatMessage[];
+  // Study deck with review history; entries saved before flashcards existed get one built on open.
+  flashcards?: Flashcard[];
+  // The reader's own highlights, comments and concepts.
+  notes?: UserNotes;
+  // Edits made by refining single sections, oldest first.
+  versions?: AnalysisVersion[];
+  // Every model call made for this document, oldest first.
+  usage?: UsageRecord[];
+  // Chapters read and the reading plan's dates.
+  progress?: ReadingProgress;
+}
+
+const DB_NAME = "deepread";
+const DB_VERSION = 1;
+const ENTRIES = "entries";
+// Extracted text is kept apart from entries so listing the library stays cheap.
+const DOCUMENTS = "documents";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () =>
+  (dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(ENTRIES)) {
+        db.createObjectStore(ENTRIES, { keyPath: "id" }).createIndex("contentHash", "contentHash");
+      }
+      if (!db.objectStoreNames.contains(DOCUMENTS)) {
+        db.createObjectStore(DOCUMENTS);
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }));
+
+const promisify = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transaction = async (stores: string[], mode: IDBTransactionMode) => (await openDb()).transaction(stores, mode);
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// --- Public API ---
+
+export const hashContent = async (bytes: Uint8Array) => {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+};
+
+export const listEntries = async (): Promise<LibraryEntry[]> => {
+  const tx = await transaction([ENTRIES], "readonly");
+  const entries = await promisify(tx.objectStore(ENTRIES).getAll() as IDBRequest<LibraryEntry[]>);
+  return entries.sort((a, b) => b.analyzedAt.localeCompare(a.analyzedAt));
+};
+
+export const getEntry = async (id: string): Promise<LibraryEntry | undefined> => {
+  const tx = await transaction([ENTRIES], "readonly");
+  return promisify(tx.objectStore(ENTRIES).get(id));
+};
+
+export const getDocument = async (id: string): Promise<ExtractedDocument | undefined> => {
+  const tx = await transaction([DOCUMENTS], "readonly");
+  return promisify(tx.objectStore(DOCUMENTS).get(id));
+};
+
+// Most recent analysis of the same file contents, if any.
+export const findByHash = async (contentHash: string): Promise<LibraryEntry | undefined> => {
+  const tx = await transaction([ENTRIES], "readonly");
+  const matches = await promisify(tx.objectStore(ENTRIES).index("contentHash").getAll(contentHash) as IDBRequest<LibraryEntry[]>);
+  return matches.sort((a, b) => b.analyzedAt.localeCompare(a.analyzedAt))[0];
+};
+
+export const saveEntry = async (entry: LibraryEntry, doc?: ExtractedDocument) => {
+  const tx = await transaction([ENTRIES, DOCUMENTS], "readwrite");
+  tx.objectStore(ENTRIES).put(entry);
+  if (doc) tx.objectStore(DOCUMENTS).put(doc, entry.id);
+  await completion(tx);
+};
+
+export const updateEntry = async (id: string, update: (entry: LibraryEntry) => LibraryEntry) => {
+  const tx = await transaction([ENTRIES], "readwrite");
+  const store = tx.objectStore(ENTRIES);
+  const entry = await promisify(store.get(id) as IDBRequest<LibraryEntry | undefined>);
+  if (!entry) throw new Error("This document is no longer in your library.");
+  const next = update(entry);
+  store.put(next);
+  await completion(tx);
+  return next;
+};
+
+export const renameEntry = (id: string, title: string) =>
+  updateEntry(id, entry => ({
+    ...entry,
+    analysis: { ...entry.analysis, metadata: { ...entry.analysis.metadata, title } },
+  }));
+
+export const deleteEntry = async (id: string) => {
+  const tx = await transaction([ENTRIES, DOCUMENTS], "readwrite");
+  tx.objectStore(ENTRIES).delete(id);
+  tx.objectStore(DOCUMENTS).delete(id);
+  await completion(tx);
+};
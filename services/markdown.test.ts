@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { blocksToHtml, parseInline, parseMarkdownBlocks, sanitizeHref, type Block, type Inline } from "./markdown";
+
+const links = (nodes: Inline[]): Inline[] =>
+  nodes.flatMap(node => (node.type === "link" ? [node] : "children" in node ? links(node.children) : []));
+
+test("links within the report point at the heading ids", () => {
+  const blocks = parseMarkdownBlocks("# Key Ideas\n\nSee [the ideas](#key-ideas).\n");
+  const heading = blocks.find((b): b is Extract<Block, { type: "heading" }> => b.type === "heading")!;
+  const paragraph = blocks.find(b => b.type === "paragraph") as { children: Inline[] };
+  assert.deepEqual(links(paragraph.children).map(l => l.type === "link" && l.href), [`#${heading.id}`]);
+  assert.ok(blocksToHtml(blocks).includes(`<a href="#${heading.id}">`));
+  assert.equal(sanitizeHref(`#${heading.id}`), `#${heading.id}`);
+});
+
+test("unsafe links are dropped and raw HTML is escaped", () => {
+  assert.equal(sanitizeHref("javascript:alert(1)"), null);
+  assert.equal(sanitizeHref(" JavaScript:alert(1)"), null);
+  assert.equal(sanitizeHref("data:text/html,<b>"), null);
+  assert.deepEqual(links(parseInline("[click](javascript:alert(1))")), []);
+
+  const html = blocksToHtml(parseMarkdownBlocks('<script>alert(1)</script>\n\n<img src=x onerror="alert(1)">'));
+  assert.ok(!html.includes("<script"));
+  assert.ok(!html.includes("<img"));
+  assert.ok(html.includes("&lt;script&gt;"));
+});
@@ -0,0 +1,400 @@
+// A small Markdown parser for model-written reports. It produces a plain AST that is rendered as
+// React elements, so raw HTML in the source is never interpreted and shows up as literal text.
+
+// --- Types ---
+
+export type Inline =
+  | { type: "text"; value: string }
+  | { type: "code"; value: string }
+  | { type: "strong" | "em" | "del"; children: Inline[] }
+  | { type: "link"; href: string; children: Inline[] }
+  | { type: "break" };
+
+export type TableAlign = "left" | "center" | "right" | null;
+
+export type Block =
+  | { type: "heading"; level: number; id: string; children: Inline[] }
+  | { type: "paragraph"; children: Inline[] }
+  | { type: "list"; ordered: boolean; start: number; items: Block[][] }
+  | { type: "blockquote"; children: Block[] }
+  | { type: "code"; lang: string; value: string }
+  | { type: "table"; align: TableAlign[]; header: Inline[][]; rows: Inline[][][] }
+  | { type: "hr" };
+
+export interface TocEntry {
+  id: string;
+  level: number;
+  title: string;
+}
+
+// --- Inline ---
+
+const SAFE_HREF = /^(https?:|mailto:|#)/i;
+
+// Heading ids double as deep-link anchors; the prefix keeps them apart from the app's own element ids,
+// such as chapter-N and concept-N.
+const HEADING_ID_PREFIX = "report-";
+
+// The heading id a fragment such as "key-ideas" refers to; already prefixed fragments are kept.
+export const headingId = (fragment: string) =>
+  fragment.startsWith(HEADING_ID_PREFIX) ? fragment : `${HEADING_ID_PREFIX}${fragment}`;
+
+// Links within the document point at the prefixed heading ids.
+export const sanitizeHref = (href: string) => {
+  const trimmed = href.trim();
+  if (!SAFE_HREF.test(trimmed)) return null;
+  return trimmed.startsWith("#") && trimmed.length > 1 ? `#${headingId(trimmed.slice(1))}` : trimmed;
+};
+
+const findClosing = (src: string, marker: string, from: number) => {
+  for (let i = from; i < src.length; i++) {
+    if (src[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (src.startsWith(marker, i) && i > from) return i;
+  }
+  return -1;
+};
+
+// Index of the `]` matching the `[` at `open`, allowing nested brackets.
+const findBracket = (src: string, open: number) => {
+  let depth = 0;
+  for (let i = open; i < src.length; i++) {
+    if (src[i] === "\\") i++;
+    else if (src[i] === "[") depth++;
+    else if (src[i] === "]" && --depth === 0) return i;
+  }
+  return -1;
+};
+
+export const parseInline = (src: string): Inline[] => {
+  const out: Inline[] = [];
+  let text = "";
+  const flush = () => {
+    if (text) out.push({ type: "text", value: text });
+    text = "";
+  };
+  const push = (node: Inline) => {
+    flush();
+    out.push(node);
+  };
+
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i];
+    const rest = src.slice(i);
+
+    if (c === "\\" && /[\\`*_{}\[\]()#+\-.!~|>]/.test(src[i + 1] ?? "")) {
+      text += src[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (c === "\\" && src[i + 1] === "\n") {
+      push({ type: "break" });
+      i += 2;
+      continue;
+    }
+
+    if (c === "`") {
+      const run = rest.match(/^`+/)![0];
+      const end = src.indexOf(run, i + run.length);
+      if (end > 0) {
+        push({ type: "code", value: src.slice(i + run.length, end).replace(/^ (.*) $/, "$1") });
+        i = end + run.length;
+        continue;
+      }
+    }
+
+    const strongMarker = rest.startsWith("**") ? "**" : rest.startsWith("__") ? "__" : null;
+    if (strongMarker) {
+      const end = findClosing(src, strongMarker, i + 2);
+      if (end > 0) {
+        push({ type: "strong", children: parseInline(src.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if (rest.startsWith("~~")) {
+      const end = findClosing(src, "~~", i + 2);
+      if (end > 0) {
+        push({ type: "del", children: parseInline(src.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    // Underscores only emphasise at word boundaries, so snake_case identifiers survive.
+    if ((c === "*" || (c === "_" && !/\w/.test(src[i - 1] ?? ""))) && src[i + 1] && !/\s/.test(src[i + 1])) {
+      const end = findClosing(src, c, i + 1);
+      if (end > 0 && !/\s/.test(src[end - 1]) && (c === "*" || !/\w/.test(src[end + 1] ?? ""))) {
+        push({ type: "em", children: parseInline(src.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (c === "[" || (c === "!" && src[i + 1] === "[")) {
+      const open = c === "!" ? i + 1 : i;
+      const close = findBracket(src, open);
+      const target = close > 0 ? src.slice(close + 1).match(/^\(\s*<?((?:[^()\s<>]|\([^()\s]*\))*)>?(?:\s+"[^"]*")?\s*\)/) : null;
+      if (target) {
+        const label = parseInline(src.slice(open + 1, close));
+        const href = sanitizeHref(target[1]);
+        if (href) push({ type: "link", href, children: label });
+        else {
+          flush();
+          out.push(...label);
+        }
+        i = close + 1 + target[0].length;
+        continue;
+      }
+    }
+
+    const autolink = rest.match(/^<((?:https?:\/\/|mailto:)[^>\s]+)>/);
+    if (autolink) {
+      push({ type: "link", href: autolink[1], children: [{ type: "text", value: autolink[1].replace(/^mailto:/, "") }] });
+      i += autolink[0].length;
+      continue;
+    }
+
+    const bareUrl = !/\w/.test(src[i - 1] ?? "") && rest.match(/^https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"]/);
+    if (bareUrl) {
+      push({ type: "link", href: bareUrl[0], children: [{ type: "text", value: bareUrl[0] }] });
+      i += bareUrl[0].length;
+      continue;
+    }
+
+    if (c === "\n" && / {2,}$/.test(text)) {
+      text = text.trimEnd();
+      push({ type: "break" });
+      i++;
+      continue;
+    }
+
+    text += c;
+    i++;
+  }
+  flush();
+  return out;
+};
+
+export const inlineText = (nodes: Inline[]): string =>
+  nodes.map(n => (n.type === "text" || n.type === "code" ? n.value : n.type === "break" ? " " : inlineText(n.children))).join("");
+
+// --- Blocks ---
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)/;
+const ATX = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const HR = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(\s+|$)/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitRow = (line: string) =>
+  line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "").split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, "|"));
+
+const startsBlock = (line: string, next?: string) =>
+  FENCE.test(line) || ATX.test(line) || HR.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) ||
+  (line.includes("|") && next !== undefined && TABLE_DELIMITER.test(next) && next.includes("-"));
+
+export const slugify = (text: string) =>
+  text.toLowerCase().trim().replace(/[^\p{L}\p{N}\s-]/gu, "").replace(/\s+/g, "-").replace(/-+/g, "-") || "section";
+
+const parseBlocks = (lines: string[], slugs: Map<string, number>): Block[] => {
+  const blocks: Block[] = [];
+  const uniqueId = (title: string) => {
+    const base = slugify(title);
+    const count = slugs.get(base) ?? 0;
+    slugs.set(base, count + 1);
+    return `${HEADING_ID_PREFIX}${count ? `${base}-${count + 1}` : base}`;
+  };
+  const heading = (level: number, raw: string): Block => {
+    const children = parseInline(raw);
+    return { type: "heading", level, id: uniqueId(inlineText(children)), children };
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${fence[1][0]}{${fence[1].length},}\\s*$`).test(lines[i])) {
+        body.push(lines[i++]);
+      }
+      i++;
+      blocks.push({ type: "code", lang: fence[2], value: body.join("\n") });
+      continue;
+    }
+
+    const atx = line.match(ATX);
+    if (atx) {
+      blocks.push(heading(atx[1].length, atx[2]));
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: "hr" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && lines[i].trim() && (QUOTE.test(lines[i]) || !startsBlock(lines[i]))) {
+        body.push(lines[i++].replace(QUOTE, ""));
+      }
+      blocks.push({ type: "blockquote", children: parseBlocks(body, slugs) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = /\d/.test(item[2]);
+      const items: Block[][] = [];
+      const start = ordered ? parseInt(item[2], 10) : 1;
+      while (i < lines.length) {
+        const m = lines[i].match(LIST_ITEM);
+        if (!m || /\d/.test(m[2]) !== ordered) break;
+        const indent = m[0].length || m[1].length + m[2].length + 1;
+        const body = [lines[i].slice(indent)];
+        i++;
+        while (i < lines.length) {
+          const next = lines[i];
+          if (!next.trim()) {
+            // A blank line ends the item unless the following line is indented into it.
+            const following = lines[i + 1];
+            if (following !== undefined && following.search(/\S/) >= indent) {
+              body.push("");
+              i++;
+              continue;
+            }
+            break;
+          }
+          const nextIndent = next.search(/\S/);
+          if (nextIndent >= indent) body.push(next.slice(indent));
+          else if (LIST_ITEM.test(next) && nextIndent > m[1].length) body.push(next.slice(nextIndent));
+          else if (!LIST_ITEM.test(next) && !startsBlock(next) && body[body.length - 1].trim()) body.push(next.trim());
+          else break;
+          i++;
+        }
+        items.push(parseBlocks(body, slugs));
+        while (i < lines.length && !lines[i].trim() && LIST_ITEM.test(lines[i + 1] ?? "")) i++;
+      }
+      blocks.push({ type: "list", ordered, start, items });
+      continue;
+    }
+
+    if (line.includes("|") && TABLE_DELIMITER.test(lines[i + 1] ?? "") && lines[i + 1].includes("-")) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map((cell): TableAlign =>
+        cell.startsWith(":") && cell.endsWith(":") ? "center" : cell.endsWith(":") ? "right" : cell.startsWith(":") ? "left" : null
+      );
+      i += 2;
+      const rows: Inline[][][] = [];
+      while (i < lines.length && lines[i].trim() && lines[i].includes("|")) {
+        const cells = splitRow(lines[i++]);
+        rows.push(header.map((_, c) => parseInline(cells[c] ?? "")));
+      }
+      blocks.push({ type: "table", align, header: header.map(parseInline), rows });
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    let setext = 0;
+    while (i < lines.length && lines[i].trim()) {
+      if (/^ {0,3}=+\s*$/.test(lines[i])) setext = 1;
+      else if (/^ {0,3}-+\s*$/.test(lines[i])) setext = 2;
+      if (setext) {
+        i++;
+        break;
+      }
+      if (startsBlock(lines[i], lines[i + 1])) break;
+      paragraph.push(lines[i++].replace(/^\s+/, ""));
+    }
+    const raw = paragraph.join("\n");
+    blocks.push(setext ? heading(setext, raw) : { type: "paragraph", children: parseInline(raw) });
+  }
+  return blocks;
+};
+
+// --- Public API ---
+
+export const parseMarkdownBlocks = (markdown: string): Block[] =>
+  parseBlocks(markdown.replace(/\r\n?/g, "\n").replace(/\t/g, "    ").split("\n"), new Map());
+
+export const tableOfContents = (blocks: Block[], maxLevel = 3): TocEntry[] =>
+  blocks.flatMap((block): TocEntry[] => {
+    if (block.type === "heading" && block.level <= maxLevel) {
+      return [{ id: block.id, level: block.level, title: inlineText(block.children) }];
+    }
+    if (block.type === "blockquote") return tableOfContents(block.children, maxLevel);
+    return [];
+  });
+
+// --- HTML ---
+
+// Escapes text for HTML and XML alike, so the output is also valid XHTML.
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+const inlineHtml = (nodes: Inline[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case "text":
+        return escapeHtml(node.value);
+      case "code":
+        return `<code>${escapeHtml(node.value)}</code>`;
+      case "strong":
+      case "em":
+      case "del":
+        return `<${node.type}>${inlineHtml(node.children)}</${node.type}>`;
+      case "link":
+        return `<a href="${escapeHtml(node.href)}">${inlineHtml(node.children)}</a>`;
+      case "break":
+        return "<br />";
+    }
+  }).join("");
+
+const alignAttr = (align: TableAlign) => (align ? ` style="text-align: ${align}"` : "");
+
+// Static counterpart of MarkdownView for exported files.
+export const blocksToHtml = (blocks: Block[]): string =>
+  blocks.map(block => {
+    switch (block.type) {
+      case "heading":
+        return `<h${block.level} id="${escapeHtml(block.id)}">${inlineHtml(block.children)}</h${block.level}>`;
+      case "paragraph":
+        return `<p>${inlineHtml(block.children)}</p>`;
+      case "list": {
+        const tag = block.ordered ? "ol" : "ul";
+        const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : "";
+        return `<${tag}${start}>${block.items.map(item => `<li>${blocksToHtml(item)}</li>`).join("")}</${tag}>`;
+      }
+      case "blockquote":
+        return `<blockquote>${blocksToHtml(block.children)}</blockquote>`;
+      case "code":
+        return `<pre><code>${escapeHtml(block.value)}</code></pre>`;
+      case "table": {
+        const head = block.header.map((cell, c) => `<th${alignAttr(block.align[c])}>${inlineHtml(cell)}</th>`).join("");
+        const rows = block.rows
+          .map(row => `<tr>${row.map((cell, c) => `<td${alignAttr(block.align[c])}>${inlineHtml(cell)}</td>`).join("")}</tr>`)
+          .join("");
+        return `<table><thead><tr>${head}</tr></thead><tbody>${rows}</tbody></table>`;
+      }
+      case "hr":
+        return "<hr />";
+    }
+  }).join("\n");
@@ -0,0 +1,84 @@
+export interface PdfLine {
+  text: string;
+  fontSize: number;
+  // Baseline position in PDF user space; larger values are higher on the page.
+  y: number;
+}
+
+export interface PdfOutlineEntry {
+  title: string;
+  level: number;
+  pageNumber: number;
+}
+
+export interface PdfContent {
+  pages: PdfLine[][];
+  outline: PdfOutlineEntry[];
+}
+
+// Node needs the legacy build, which polyfills browser APIs; the variable keeps bundlers from pulling it in.
+const NODE_BUILD = "pdfjs-dist/legacy/build/pdf.mjs";
+
+// pdf.js is large, so it is only loaded once a PDF is actually opened.
+const loadPdfjs = async () => {
+  const pdfjs: typeof import("pdfjs-dist") =
+    typeof window === "undefined" ? await import(/* @vite-ignore */ NODE_BUILD) : await import("pdfjs-dist");
+  // The worker is loaded from the same CDN as the import map so the app runs without a bundler.
+  if (typeof window !== "undefined" && !pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = `https://aistudiocdn.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+  }
+  return pdfjs;
+};
+
+type PdfDocument = Awaited<ReturnType<Awaited<ReturnType<typeof loadPdfjs>>["getDocument"]>["promise"]>;
+type OutlineNode = Awaited<ReturnType<PdfDocument["getOutline"]>>[0];
+
+const resolveOutline = async (pdf: PdfDocument, nodes: OutlineNode[], level = 1): Promise<PdfOutlineEntry[]> => {
+  const entries: PdfOutlineEntry[] = [];
+  for (const node of nodes) {
+    try {
+      const dest = typeof node.dest === "string" ? await pdf.getDestination(node.dest) : node.dest;
+      if (dest && dest[0]) {
+        const ref = dest[0];
+        const pageIndex = typeof ref === "number" ? ref : await pdf.getPageIndex(ref);
+        entries.push({ title: node.title.trim(), level, pageNumber: pageIndex + 1 });
+      }
+    } catch {
+      // Broken destinations are common in real-world PDFs; skip the entry rather than the document.
+    }
+    entries.push(...await resolveOutline(pdf, node.items ?? [], level + 1));
+  }
+  return entries;
+};
+
+// Returns the text layer of each page as positioned lines, plus the document outline if it has one.
+export const extractPdfContent = async (bytes: Uint8Array): Promise<PdfContent> => {
+  const pdfjs = await loadPdfjs();
+  // pdf.js takes ownership of the buffer it is given, so hand it a copy.
+  const pdf = await pdfjs.getDocument({ data: bytes.slice() }).promise;
+  try {
+    const pages: PdfLine[][] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const content = await page.getTextContent();
+      const lines: PdfLine[] = [];
+      let current: PdfLine | null = null;
+      for (const item of content.items) {
+        if (!("str" in item)) continue;
+        if (!current) current = { text: "", fontSize: 0, y: item.transform[5] };
+        current.text += item.str;
+        current.fontSize = Math.max(current.fontSize, Math.abs(item.transform[3]) || item.height);
+        if (item.hasEOL) {
+          lines.push(current);
+          current = null;
+        }
+      }
+      if (current) lines.push(current);
+      pages.push(lines);
+    }
+    const outline = await resolveOutline(pdf, (await pdf.getOutline()) ?? []);
+    return { pages, outline };
+  } finally {
+    await pdf.destroy();
+  }
+};
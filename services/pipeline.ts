@@ -0,0 +1,70 @@
+import type { AnalysisData, AnalysisProfile } from "../types";
+import type { ModelProvider } from "./providers";
+import { MIME_TYPES, extractDocument, type ExtractedDocument, type SourceFile } from "./extraction";
+import { chunkDocument } from "./chunking";
+import { analyzeDocument, withDocumentStats, type ChunkState } from "./analysis";
+import { anchorCitations } from "./citations";
+import { cardsFromAnalysis } from "./flashcards";
+import { hashContent, type LibraryEntry } from "./library";
+
+// The analysis pipeline without any UI: read a file, split it, analyze the parts, merge and anchor.
+// The app drives the same steps itself so it can stream and retry; the batch CLI calls analyzeSource.
+
+// --- Sources ---
+
+const UNKNOWN_TYPE = "application/octet-stream";
+
+// A known extension wins over the reported type, which is often empty or generic, e.g. application/zip for EPUB.
+export const guessMimeType = (name: string, type = "") => {
+  const known = MIME_TYPES[name.toLowerCase().match(/\.[^.\/\\]+$/)?.[0] ?? ""];
+  if (known) return known;
+  if (Object.values(MIME_TYPES).includes(type)) return type;
+  return type.startsWith("text/") ? "text/plain" : UNKNOWN_TYPE;
+};
+
+export const isSupportedFile = (name: string, type = "") => guessMimeType(name, type) !== UNKNOWN_TYPE;
+
+export const readSource = async (name: string, bytes: Uint8Array, type?: string) => {
+  const source: SourceFile = { name, mimeType: guessMimeType(name, type), bytes };
+  return { source, contentHash: await hashContent(bytes) };
+};
+
+// --- Analysis ---
+
+// Adds document statistics and pins every citation to the extracted text.
+export const finishAnalysis = (merged: AnalysisData, doc: ExtractedDocument) =>
+  anchorCitations(withDocumentStats(merged, doc), doc);
+
+export const createEntry = (
+  { source, contentHash }: { source: SourceFile; contentHash: string },
+  provider: ModelProvider,
+  analysis: AnalysisData
+): LibraryEntry => ({
+  id: crypto.randomUUID(),
+  fileName: source.name,
+  contentHash,
+  analyzedAt: new Date().toISOString(),
+  provider: provider.id,
+  model: provider.model,
+  analysis,
+  flashcards: cardsFromAnalysis(analysis),
+});
+
+export interface AnalyzeSourceOptions {
+  profile?: AnalysisProfile;
+  language?: string;
+  // Parts of the document analyzed at once.
+  concurrency?: number;
+  signal?: AbortSignal;
+  onUpdate?: (states: ChunkState[]) => void;
+}
+
+export const analyzeSource = async (
+  provider: ModelProvider,
+  source: SourceFile,
+  { profile, language, concurrency, signal, onUpdate = () => {} }: AnalyzeSourceOptions = {}
+): Promise<{ analysis: AnalysisData; doc: ExtractedDocument }> => {
+  const doc = await extractDocument(source);
+  const merged = await analyzeDocument(provider, chunkDocument(doc, source), onUpdate, { concurrency, profile, language, signal });
+  return { analysis: finishAnalysis(merged, doc), doc };
+};
@@ -0,0 +1,205 @@
+import { Type } from "@google/genai";
+import type { AnalysisData, AnalysisProfile, ProfileField, ProfileItem, ProfileSnapshot, ProfileValue } from "../types";
+
+// --- Built-in profiles ---
+
+const list = (key: string, label: string, instructions: string, tagLabel?: string): ProfileField =>
+  ({ key, label, instructions, kind: "list", ...(tagLabel ? { tagLabel } : {}) });
+
+const text = (key: string, label: string, instructions: string): ProfileField =>
+  ({ key, label, instructions, kind: "text" });
+
+export const GENERAL_PROFILE_ID = "general";
+
+export const BUILT_IN_PROFILES: AnalysisProfile[] = [
+  {
+    id: GENERAL_PROFILE_ID,
+    name: "General",
+    description: "Concepts, chapters and themes for any kind of document.",
+    prompt: "",
+    fields: [],
+    builtIn: true,
+  },
+  {
+    id: "academic",
+    name: "Academic Paper",
+    description: "Research question, methodology, results, limitations and cited works.",
+    prompt: "This is an academic or scientific paper. Read it as a critical peer reviewer would, separating what was shown from what is claimed.",
+    fields: [
+      text("researchQuestion", "Research Question", "The question or hypothesis the paper sets out to answer, and why it matters"),
+      text("methodology", "Methodology", "How the study was done: design, data, sample, instruments and analysis, in Markdown"),
+      list("results", "Results", "Each main finding, with effect sizes or figures where reported", "Strength"),
+      list("limitations", "Limitations", "Weaknesses, threats to validity and open questions, including ones the authors do not state"),
+      list("citations", "Key Citations", "The most important works the paper builds on or argues against, with what each contributes", "Year"),
+    ],
+    builtIn: true,
+  },
+  {
+    id: "fiction",
+    name: "Fiction",
+    description: "Characters, plot arcs and themes for novels and stories.",
+    prompt: "This is a work of fiction. Treat chapters as narrative units and concepts as the story's recurring ideas, motifs and devices.",
+    fields: [
+      list("characters", "Characters", "Major characters, what drives them and how they change", "Role"),
+      list("plotArcs", "Plot Arcs", "Main storylines in order, from setup to resolution", "Stage"),
+      list("themes", "Themes", "Themes the work explores and how the story develops each one"),
+    ],
+    builtIn: true,
+  },
+  {
+    id: "manual",
+    name: "Technical Manual",
+    description: "Prerequisites and step-by-step procedures.",
+    prompt: "This is a technical manual or guide. Favor precise, actionable notes that a practitioner could follow without the original.",
+    fields: [
+      list("prerequisites", "Prerequisites", "Knowledge, tools, access or setup needed before following the procedures"),
+      list("procedures", "Procedures", "Each task the manual teaches, with its steps as a numbered Markdown list in detail", "Section"),
+      list("warnings", "Warnings", "Cautions, common mistakes and irreversible actions to watch for"),
+    ],
+    builtIn: true,
+  },
+  {
+    id: "contract",
+    name: "Contract",
+    description: "Parties, obligations and deadlines in legal agreements.",
+    prompt: "This is a contract or legal agreement. Be exact about who must do what and when, and quote defined terms as written. Do not give legal advice.",
+    fields: [
+      list("parties", "Parties", "Every party to the agreement and how it is referred to", "Role"),
+      list("obligations", "Obligations", "What each party must or must not do, one obligation per item", "Party"),
+      list("deadlines", "Deadlines", "Dates, notice periods, renewal and termination windows", "When"),
+      list("risks", "Risks", "Penalties, liabilities, indemnities and unusual clauses worth a second look"),
+    ],
+    builtIn: true,
+  },
+];
+
+// --- Storage ---
+
+const CUSTOM_KEY = "deepread.customProfiles";
+const SELECTED_KEY = "deepread.profileId";
+
+export const loadCustomProfiles = (): AnalysisProfile[] => {
+  try {
+    const stored = localStorage.getItem(CUSTOM_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomProfiles = (profiles: AnalysisProfile[]) => {
+  localStorage.setItem(CUSTOM_KEY, JSON.stringify(profiles.map(({ builtIn, ...p }) => p)));
+};
+
+export const loadSelectedProfileId = () => localStorage.getItem(SELECTED_KEY) ?? GENERAL_PROFILE_ID;
+
+export const saveSelectedProfileId = (id: string) => localStorage.setItem(SELECTED_KEY, id);
+
+export const findProfile = (profiles: AnalysisProfile[], id: string) =>
+  profiles.find(p => p.id === id) ?? BUILT_IN_PROFILES[0];
+
+// Turns a label such as "Open Questions" into a field key such as "openQuestions".
+export const fieldKey = (label: string) =>
+  label
+    .trim()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map((word, i) => (i ? word[0].toUpperCase() + word.slice(1).toLowerCase() : word.toLowerCase()))
+    .join("") || "field";
+
+// Problems that would stop a profile from producing a usable schema.
+export const profileIssues = (profile: AnalysisProfile): string[] => {
+  const issues: string[] = [];
+  if (!profile.name.trim()) issues.push("Give the profile a name.");
+  profile.fields.forEach((f, i) => {
+    if (!f.label.trim()) issues.push(`Field ${i + 1} needs a label.`);
+    if (!f.instructions.trim()) issues.push(`Tell the model what "${f.label || `field ${i + 1}`}" should contain.`);
+  });
+  const keys = profile.fields.map(f => f.key);
+  if (new Set(keys).size !== keys.length) issues.push("Two fields have the same name.");
+  return issues;
+};
+
+// --- Analysis ---
+
+export const toSnapshot = ({ id, name, fields }: AnalysisProfile): ProfileSnapshot => ({ id, name, fields });
+
+const itemSchema = (field: ProfileField) => ({
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    detail: { type: Type.STRING },
+    ...(field.tagLabel ? { tag: { type: Type.STRING, description: field.tagLabel } } : {}),
+  },
+  required: ["title", "detail"],
+});
+
+// Schema for the profileData property, or null when the profile adds no fields.
+export const profileSchema = (profile: Pick<AnalysisProfile, "fields">) =>
+  profile.fields.length
+    ? {
+        type: Type.OBJECT,
+        properties: Object.fromEntries(profile.fields.map(field => [
+          field.key,
+          field.kind === "text"
+            ? { type: Type.STRING, description: field.instructions }
+            : { type: Type.ARRAY, description: field.instructions, items: itemSchema(field) },
+        ])),
+        required: profile.fields.map(f => f.key),
+      }
+    : null;
+
+export const profilePrompt = (profile: AnalysisProfile) => {
+  if (!profile.fields.length) return profile.prompt;
+  const fields = profile.fields.map(f => `- ${f.key} (${f.label}): ${f.instructions}`).join("\n");
+  return `${profile.prompt}\n\nAlso fill profileData with these fields:\n${fields}`.trim();
+};
+
+// Combines profile values from consecutive parts of one document.
+export const mergeProfileData = (
+  results: AnalysisData[],
+  fields: ProfileField[]
+): Record<string, ProfileValue> =>
+  Object.fromEntries(fields.map(field => {
+    const values = results.map(r => r.profileData?.[field.key]).filter(v => v !== undefined);
+    if (field.kind === "text") {
+      return [field.key, [...new Set(values.filter((v): v is string => typeof v === "string" && !!v.trim()))].join("\n\n")];
+    }
+    const seen = new Set<string>();
+    const items = values.flatMap(v => (Array.isArray(v) ? v : [])).filter(item => {
+      const key = item.title.toLowerCase().trim();
+      return !seen.has(key) && !!seen.add(key);
+    });
+    return [field.key, items];
+  }));
+
+const isProfileField = (value: unknown): value is ProfileField => {
+  const f = value as Partial<Record<keyof ProfileField, unknown>> | null;
+  return (
+    !!f && typeof f === "object" &&
+    typeof f.key === "string" && typeof f.label === "string" && typeof f.instructions === "string" &&
+    (f.kind === "text" || f.kind === "list") &&
+    (f.tagLabel === undefined || typeof f.tagLabel === "string")
+  );
+};
+
+// Checks a profile read back from an export, which may have been edited by hand.
+export const parseProfileSnapshot = (value: unknown): ProfileSnapshot | undefined => {
+  const p = value as Partial<Record<keyof ProfileSnapshot, unknown>> | null;
+  if (!p || typeof p !== "object" || typeof p.id !== "string" || typeof p.name !== "string" || !Array.isArray(p.fields)) {
+    return undefined;
+  }
+  return p.fields.every(isProfileField) ? { id: p.id, name: p.name, fields: p.fields } : undefined;
+};
+
+// --- Rendering ---
+
+const itemMarkdown = (item: ProfileItem, field: ProfileField) => {
+  const tag = item.tag && field.tagLabel ? ` _(${field.tagLabel}: ${item.tag})_` : "";
+  return `### ${item.title}${tag}\n\n${item.detail}`;
+};
+
+export const profileFieldMarkdown = (field: ProfileField, value: ProfileValue | undefined) => {
+  if (value === undefined || !value.length) return "_Nothing found for this field._";
+  return typeof value === "string" ? value : value.map(item => itemMarkdown(item, field)).join("\n\n");
+};
@@ -0,0 +1,340 @@
+import { FinishReason, GoogleGenAI, type GenerateContentResponse } from "@google/genai";
+import { mockFixtures } from "../fixtures/mockFixtures";
+import { ModelError, categoryForStatus } from "./errors";
+import type { TokenUsage } from "../types";
+
+// --- Types ---
+
+export type ProviderId = "server" | "gemini" | "openai" | "mock";
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  endpoint: string;
+  apiKey: string;
+}
+
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export interface ModelRequest {
+  // Names the kind of call (e.g. "analysis") so fixture-backed providers can answer it.
+  task: string;
+  parts: ContentPart[];
+  // Response schema expressed with the @google/genai `Type` vocabulary.
+  schema?: Record<string, unknown>;
+  // Aborts the request, e.g. when the user cancels.
+  signal?: AbortSignal;
+  // Receives the token counts once the provider reports them.
+  onUsage?: (usage: ReportedUsage) => void;
+}
+
+export interface ReportedUsage extends TokenUsage {
+  // The model that answered, when the provider picks it, as the DeepRead server does.
+  model?: string;
+  // Answered by the response cache rather than the model.
+  cached?: boolean;
+}
+
+export interface ModelResponse {
+  text: string;
+}
+
+export interface ModelProvider {
+  readonly id: ProviderId;
+  readonly model: string;
+  generate(request: ModelRequest): Promise<ModelResponse>;
+  // Yields the response text piece by piece as the model produces it.
+  generateStream(request: ModelRequest): AsyncIterable<string>;
+}
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; defaults: Omit<ProviderSettings, "provider" | "apiKey"> }[] = [
+  { id: "server", label: "DeepRead server", defaults: { model: "", endpoint: "/api" } },
+  { id: "gemini", label: "Google Gemini", defaults: { model: "gemini-2.5-flash", endpoint: "" } },
+  { id: "openai", label: "OpenAI-compatible", defaults: { model: "gpt-4o-mini", endpoint: "https://api.openai.com/v1" } },
+  { id: "mock", label: "Mock (fixtures)", defaults: { model: "fixture", endpoint: "" } },
+];
+
+export const providerLabel = (id: ProviderId) =>
+  PROVIDER_OPTIONS.find(p => p.id === id)?.label ?? id;
+
+// --- Helpers ---
+
+const decodeBase64Text = (data: string) => {
+  const binary = atob(data);
+  const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+// Gemini's `Type` enum uses upper-case names; JSON Schema wants lower-case ones.
+const toJsonSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== "object") return schema;
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    out[key] = key === "type" && typeof value === "string" ? value.toLowerCase() : toJsonSchema(value);
+  }
+  return out;
+};
+
+// Parses a server-sent events body, yielding the payload of each `data:` line.
+async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop()!;
+    for (const line of lines) {
+      if (line.startsWith("data:")) yield line.slice(5).trim();
+    }
+  }
+}
+
+const BLOCKED_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+const geminiUsage = ({ usageMetadata }: GenerateContentResponse): TokenUsage | null =>
+  usageMetadata
+    ? { inputTokens: usageMetadata.promptTokenCount ?? 0, outputTokens: usageMetadata.candidatesTokenCount ?? 0 }
+    : null;
+
+const openAIUsage = (usage?: { prompt_tokens?: number; completion_tokens?: number } | null): TokenUsage | null =>
+  usage ? { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 } : null;
+
+const checkBlocked = (result: GenerateContentResponse) => {
+  const finishReason = result.candidates?.[0]?.finishReason;
+  const blocked = result.promptFeedback?.blockReason ?? BLOCKED_FINISH_REASONS.find(r => r === finishReason);
+  if (blocked) throw new ModelError("safety", `Gemini blocked the response (${blocked}).`);
+};
+
+// --- Providers ---
+
+export const createGeminiProvider = (settings: ProviderSettings): ModelProvider => {
+  // Built lazily: without a key the provider still loads, and reports it on first use.
+  let ai: GoogleGenAI | null = null;
+  const client = () => {
+    if (!settings.apiKey) {
+      throw new ModelError("auth", "Enter a Gemini API key in Settings, or switch to the DeepRead server.");
+    }
+    return (ai ??= new GoogleGenAI({ apiKey: settings.apiKey }));
+  };
+  const params = ({ parts, schema, signal }: ModelRequest) => ({
+    model: settings.model,
+    contents: { role: "user", parts },
+    config: {
+      ...(schema ? { responseMimeType: "application/json", responseSchema: schema } : {}),
+      ...(signal ? { abortSignal: signal } : {}),
+    },
+  });
+  return {
+    id: "gemini",
+    model: settings.model,
+    async generate(request) {
+      const result = await client().models.generateContent(params(request));
+      checkBlocked(result);
+      const usage = geminiUsage(result);
+      if (usage) request.onUsage?.(usage);
+      const text = result.text;
+      if (!text) throw new ModelError("invalid-output", "No content generated");
+      return { text };
+    },
+    async *generateStream(request) {
+      // Every chunk carries the running totals, so the last one counts.
+      let usage: TokenUsage | null = null;
+      for await (const chunk of await client().models.generateContentStream(params(request))) {
+        checkBlocked(chunk);
+        usage = geminiUsage(chunk) ?? usage;
+        if (chunk.text) yield chunk.text;
+      }
+      if (usage) request.onUsage?.(usage);
+    },
+  };
+};
+
+export const createOpenAICompatibleProvider = (settings: ProviderSettings): ModelProvider => {
+  const baseUrl = settings.endpoint.replace(/\/+$/, "");
+
+  const request = async ({ parts, schema, signal }: ModelRequest, stream: boolean) => {
+    const content = parts.map(part => {
+      if ("text" in part) return part.text;
+      if (!part.inlineData.mimeType.startsWith("text/")) {
+        throw new Error(`${providerLabel("openai")} models only accept text documents, not ${part.inlineData.mimeType}.`);
+      }
+      return decodeBase64Text(part.inlineData.data);
+    }).join("\n\n");
+
+    const messages = [
+      ...(schema ? [{
+        role: "system",
+        content: `Respond only with a JSON object matching this JSON Schema:\n${JSON.stringify(toJsonSchema(schema))}`,
+      }] : []),
+      { role: "user", content },
+    ];
+
+    const res = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        messages,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        ...(schema ? { response_format: { type: "json_object" } } : {}),
+      }),
+    });
+    if (!res.ok) {
+      throw new ModelError(categoryForStatus(res.status) ?? "unknown", `${res.status} ${res.statusText}: ${await res.text()}`);
+    }
+    return res;
+  };
+
+  return {
+    id: "openai",
+    model: settings.model,
+    async generate(req) {
+      const json = await (await request(req, false)).json();
+      const usage = openAIUsage(json.usage);
+      if (usage) req.onUsage?.(usage);
+      const choice = json.choices?.[0];
+      if (choice?.finish_reason === "content_filter") {
+        throw new ModelError("safety", "The provider's content filter blocked the response.");
+      }
+      const text = choice?.message?.content;
+      if (!text) throw new ModelError("invalid-output", "No content generated");
+      return { text };
+    },
+    async *generateStream(req) {
+      const res = await request(req, true);
+      for await (const data of readEventStream(res.body!)) {
+        if (data === "[DONE]") return;
+        const json = JSON.parse(data);
+        // Sent last, with no choices, when include_usage is on.
+        const usage = openAIUsage(json.usage);
+        if (usage) req.onUsage?.(usage);
+        const choice = json.choices?.[0];
+        if (choice?.finish_reason === "content_filter") {
+          throw new ModelError("safety", "The provider's content filter blocked the response.");
+        }
+        if (choice?.delta?.content) yield choice.delta.content;
+      }
+    },
+  };
+};
+
+const serverUrl = (settings: ProviderSettings) => (settings.endpoint || "/api").replace(/\/+$/, "");
+
+// Calls the DeepRead server (see server/), which holds the API key and forwards to the real model.
+export const createServerProvider = (settings: ProviderSettings): ModelProvider => {
+  const baseUrl = serverUrl(settings);
+
+  const request = async ({ task, parts, schema, signal }: ModelRequest, stream: boolean) => {
+    const res = await fetch(`${baseUrl}/generate`, {
+      method: "POST",
+      signal,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: settings.model, task, parts, schema, stream }),
+    });
+    if (!res.ok) {
+      const { error } = await res.json().catch(() => ({ error: null }));
+      throw new ModelError(
+        error?.category ?? categoryForStatus(res.status) ?? "unknown",
+        error?.message ?? `${res.status} ${res.statusText}`
+      );
+    }
+    return res;
+  };
+
+  return {
+    id: "server",
+    model: settings.model,
+    async generate(req) {
+      const { text, usage } = await (await request(req, false)).json();
+      if (usage) req.onUsage?.(usage);
+      if (!text) throw new ModelError("invalid-output", "No content generated");
+      return { text };
+    },
+    async *generateStream(req) {
+      const res = await request(req, true);
+      for await (const data of readEventStream(res.body!)) {
+        if (data === "[DONE]") return;
+        const event = JSON.parse(data);
+        if (event.error) throw new ModelError(event.error.category, event.error.message);
+        if (event.usage) req.onUsage?.(event.usage);
+        if (event.text) yield event.text;
+      }
+    },
+  };
+};
+
+// The server's own model, by endpoint; asked for once per session.
+const serverModels = new Map<string, Promise<string>>();
+
+// The model requests will actually use. An empty server model means the server's default, which only
+// the server knows; falls back to the configured name when the server cannot be reached.
+export const resolveModel = async (settings: ProviderSettings): Promise<string> => {
+  if (settings.provider !== "server" || settings.model) return settings.model;
+  const baseUrl = serverUrl(settings);
+  if (!serverModels.has(baseUrl)) {
+    serverModels.set(baseUrl, fetch(`${baseUrl}/health`).then(async res => {
+      const { model } = res.ok ? await res.json() : { model: undefined };
+      if (typeof model !== "string") throw new Error("The server did not report its model.");
+      return model;
+    }));
+  }
+  return serverModels.get(baseUrl)!.catch(() => {
+    serverModels.delete(baseUrl);
+    return settings.model;
+  });
+};
+
+export const createMockProvider = (
+  settings: ProviderSettings,
+  fixtures: Record<string, unknown> = mockFixtures
+): ModelProvider => {
+  const respond = (task: string) => {
+    if (!(task in fixtures)) throw new Error(`Mock provider has no fixture for "${task}".`);
+    const fixture = fixtures[task];
+    return typeof fixture === "string" ? fixture : JSON.stringify(fixture);
+  };
+  return {
+    id: "mock",
+    model: settings.model,
+    async generate({ task, signal }) {
+      signal?.throwIfAborted();
+      return { text: respond(task) };
+    },
+    async *generateStream({ task, signal }) {
+      // Word-sized pieces, so streaming UIs can be exercised deterministically.
+      for (const piece of respond(task).match(/\S+\s*/g) ?? []) {
+        signal?.throwIfAborted();
+        yield piece;
+      }
+    },
+  };
+};
+
+export const createProvider = (settings: ProviderSettings): ModelProvider => {
+  switch (settings.provider) {
+    case "server":
+      return createServerProvider(settings);
+    case "openai":
+      return createOpenAICompatibleProvider(settings);
+    case "mock":
+      return createMockProvider(settings);
+    default:
+      return createGeminiProvider(settings);
+  }
+};
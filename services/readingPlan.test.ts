@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AnalysisData } from "../types";
+import { mockFixtures } from "../fixtures/mockFixtures";
+import { chapterMinutes, planToIcs } from "./readingPlan";
+
+const analysis = mockFixtures.analysis as AnalysisData;
+const sum = (minutes: number[]) => minutes.reduce((a, b) => a + b, 0);
+
+test("chapter times follow the word count, whatever language the reading time is in", () => {
+  for (const readingTime of ["1 Std. 5 Min.", "3 ore 10 minuti", "1 小时 5 分钟", "3 h 10 min"]) {
+    const minutes = chapterMinutes({ ...analysis, metadata: { ...analysis.metadata, readingTime, wordCount: 45_000 } });
+    assert.equal(minutes.length, analysis.chapterBreakdown.length);
+    assert.ok(Math.abs(sum(minutes) - 189) <= 2, `${readingTime}: ${minutes}`);
+  }
+});
+
+test("without a word count, the reading time is parsed", () => {
+  assert.equal(sum(chapterMinutes({ ...analysis, metadata: { ...analysis.metadata, readingTime: "1 h 30 min" } })), 90);
+});
+
+test("calendar text is escaped and long lines are folded at 75 octets", () => {
+  const title = "Grüße; Notes, \\Drafts\\ — " + "Über das Lesen ".repeat(8);
+  const ics = planToIcs(
+    { ...analysis, metadata: { ...analysis.metadata, title } },
+    [{ date: "2026-03-01", chapters: [0, 1], minutes: 40 }],
+    [20, 20],
+    "doc-1",
+    new Date("2026-02-01T12:00:00Z")
+  );
+  assert.ok(ics.endsWith("END:VCALENDAR\r\n"));
+  const physical = ics.split("\r\n").slice(0, -1);
+  assert.ok(physical.every(line => new TextEncoder().encode(line).length <= 75));
+  assert.ok(physical.some(line => line.startsWith(" ")));
+
+  const lines = ics.replace(/\r\n /g, "").split("\r\n");
+  assert.equal(lines.find(l => l.startsWith("X-WR-CALNAME:")), `X-WR-CALNAME:Reading: Grüße\\; Notes\\, \\\\Drafts\\\\ — ${"Über das Lesen ".repeat(8)}`);
+  assert.ok(lines.includes("DTSTART;VALUE=DATE:20260301"));
+  assert.ok(lines.includes("DTEND;VALUE=DATE:20260302"));
+  assert.ok(lines.includes("DTSTAMP:20260201T120000Z"));
+  const description = lines.find(l => l.startsWith("DESCRIPTION:"))!;
+  assert.ok(description.includes("\\n2. "));
+});
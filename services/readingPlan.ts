@@ -0,0 +1,235 @@
+import type { AnalysisData, ReadingProgress } from "../types";
+import { normalizeKey, parseMinutes } from "./analysis";
+import { countWords, formatMinutes, readingMinutes, type ExtractedDocument } from "./extraction";
+
+// --- Days ---
+
+// Plans count local calendar days, written YYYY-MM-DD so they sort and compare as strings.
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export const toDay = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const parseDay = (day: string) => {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(year, month - 1, date);
+};
+
+export const addDays = (day: string, count: number) => {
+  const date = parseDay(day);
+  date.setDate(date.getDate() + count);
+  return toDay(date);
+};
+
+// Rounded, since a day across a daylight saving change is not 24 hours long.
+const daysBetween = (from: string, to: string) => Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / 86_400_000);
+
+export const formatDay = (day: string, today = toDay(new Date())) =>
+  day === today
+    ? "Today"
+    : day === addDays(today, 1)
+      ? "Tomorrow"
+      : parseDay(day).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+
+// --- Chapter estimates ---
+
+// Used when neither the reading time nor the text says how long the document is.
+const DEFAULT_CHAPTER_MINUTES = 20;
+
+// Where each chapter starts in the text: the first heading after the previous chapter that carries its
+// title, or else its earliest citation. Undefined when neither is known.
+const chapterStarts = (analysis: AnalysisData, doc: ExtractedDocument) => {
+  let after = -1;
+  return analysis.chapterBreakdown.map(chapter => {
+    const key = normalizeKey(chapter.title);
+    const heading = key ? doc.headings.find(h => h.offset > after && normalizeKey(h.title).includes(key)) : undefined;
+    const cited = [chapter.summarySource?.start, chapter.insightSource?.start].filter((n): n is number => n !== undefined);
+    const start = heading?.offset ?? (cited.length ? Math.min(...cited) : undefined);
+    if (start !== undefined) after = start;
+    return start;
+  });
+};
+
+// Share of the document in each chapter, by words when the chapters can be located in order, else equal.
+const chapterWeights = (analysis: AnalysisData, doc?: ExtractedDocument | null) => {
+  const count = analysis.chapterBreakdown.length;
+  const starts = doc?.text ? chapterStarts(analysis, doc) : [];
+  const located = starts.length === count && starts.every((s, i) => s !== undefined && (i === 0 || s > starts[i - 1]!));
+  if (!doc || !located) return analysis.chapterBreakdown.map(() => 1 / count);
+  // Front matter counts towards the first chapter.
+  const words = starts.map((_, i) => countWords(doc.text.slice(i ? starts[i]! : 0, starts[i + 1] ?? doc.text.length)));
+  const total = words.reduce((a, b) => a + b, 0);
+  return words.map(w => (total ? w / total : 1 / count));
+};
+
+// Minutes to read each chapter: the document's reading time split by the size of its chapters. The time
+// comes from the word count when there is one, since readingTime is free text that may be translated.
+export const chapterMinutes = (analysis: AnalysisData, doc?: ExtractedDocument | null): number[] => {
+  const words = analysis.metadata.wordCount || doc?.wordCount;
+  const total = words
+    ? readingMinutes(words)
+    : parseMinutes(analysis.metadata.readingTime) ?? analysis.chapterBreakdown.length * DEFAULT_CHAPTER_MINUTES;
+  return chapterWeights(analysis, doc).map(weight => Math.max(1, Math.round(total * weight)));
+};
+
+// --- Progress ---
+
+export const emptyProgress = (): ReadingProgress => ({ read: [] });
+
+export const isChapterRead = (progress: ReadingProgress, chapter: number) => progress.read.some(r => r.chapter === chapter);
+
+export const toggleChapterRead = (progress: ReadingProgress, chapter: number, now = new Date()): ReadingProgress => ({
+  ...progress,
+  read: isChapterRead(progress, chapter)
+    ? progress.read.filter(r => r.chapter !== chapter)
+    : [...progress.read, { chapter, at: now.toISOString() }],
+});
+
+// An empty date removes the plan and keeps what was read.
+export const setTargetDate = (progress: ReadingProgress, targetDate: string): ReadingProgress =>
+  targetDate ? { ...progress, targetDate } : { read: progress.read };
+
+// Consecutive days with at least one chapter read, ending today, or yesterday if nothing was read yet today.
+const streaks = (progress: ReadingProgress, today: string) => {
+  const days = new Set(progress.read.map(r => toDay(new Date(r.at))));
+  let current = 0;
+  for (let day = days.has(today) ? today : addDays(today, -1); days.has(day); day = addDays(day, -1)) current++;
+  let longest = 0;
+  let run = 0;
+  let previous = "";
+  for (const day of [...days].sort()) {
+    run = previous && addDays(previous, 1) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+  return { current, longest };
+};
+
+export interface ProgressSummary {
+  chaptersRead: number;
+  chapters: number;
+  minutesRead: number;
+  minutesLeft: number;
+  // Share of the reading time done, 0-100.
+  percent: number;
+  streak: number;
+  longestStreak: number;
+  // Reading days left in the plan and the time each needs; unset without a plan.
+  daysLeft?: number;
+  minutesPerDay?: number;
+}
+
+// Once something was read today, today's share is done and the plan continues tomorrow.
+const planDays = (progress: ReadingProgress, targetDate: string, today: string) => {
+  const readToday = progress.read.some(r => toDay(new Date(r.at)) === today);
+  const start = readToday && targetDate > today ? addDays(today, 1) : today;
+  // A target date in the past leaves everything for the first day.
+  return { start, days: Math.max(1, daysBetween(start, targetDate) + 1) };
+};
+
+export const summarizeProgress = (minutes: number[], progress: ReadingProgress, today = toDay(new Date())): ProgressSummary => {
+  const minutesRead = minutes.reduce((sum, m, i) => sum + (isChapterRead(progress, i) ? m : 0), 0);
+  const total = minutes.reduce((a, b) => a + b, 0);
+  const { current, longest } = streaks(progress, today);
+  const daysLeft = progress.targetDate ? planDays(progress, progress.targetDate, today).days : undefined;
+  return {
+    chaptersRead: minutes.filter((_, i) => isChapterRead(progress, i)).length,
+    chapters: minutes.length,
+    minutesRead,
+    minutesLeft: total - minutesRead,
+    percent: total ? Math.round((minutesRead / total) * 100) : 0,
+    streak: current,
+    longestStreak: longest,
+    daysLeft,
+    minutesPerDay: daysLeft ? Math.ceil((total - minutesRead) / daysLeft) : undefined,
+  };
+};
+
+// --- Plan ---
+
+export interface PlanDay {
+  date: string;
+  // Indexes into chapterBreakdown.
+  chapters: number[];
+  minutes: number;
+}
+
+// Spreads the unread chapters over the days until the target date, in order and without splitting any.
+// Each chapter goes to the day its midpoint falls on, so days come out close to equal.
+export const buildPlan = (minutes: number[], progress: ReadingProgress, today = toDay(new Date())): PlanDay[] => {
+  if (!progress.targetDate) return [];
+  const { start, days } = planDays(progress, progress.targetDate, today);
+  const unread = minutes.map((m, chapter) => ({ chapter, minutes: m })).filter(c => !isChapterRead(progress, c.chapter));
+  const perDay = unread.reduce((sum, c) => sum + c.minutes, 0) / days;
+
+  const plan: PlanDay[] = Array.from({ length: days }, (_, i) => ({ date: addDays(start, i), chapters: [], minutes: 0 }));
+  let done = 0;
+  for (const c of unread) {
+    const day = plan[Math.min(days - 1, Math.floor((done + c.minutes / 2) / perDay))];
+    day.chapters.push(c.chapter);
+    day.minutes += c.minutes;
+    done += c.minutes;
+  }
+  return plan.filter(day => day.chapters.length);
+};
+
+// --- iCalendar ---
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const encoder = new TextEncoder();
+
+// Lines may be at most 75 octets; longer ones continue on the next line after a space (RFC 5545 §3.1).
+const fold = (line: string) => {
+  const lines: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (size + bytes > 75) {
+      lines.push(current);
+      current = " ";
+      size = 1;
+    }
+    current += char;
+    size += bytes;
+  }
+  return [...lines, current].join("\r\n");
+};
+
+const icsDate = (day: string) => day.replace(/-/g, "");
+
+const icsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// One all-day event per planned day. UIDs are stable per document and day, so importing a revised plan
+// updates the days it still covers.
+export const planToIcs = (analysis: AnalysisData, plan: PlanDay[], minutes: number[], uid: string, now = new Date()) => {
+  const { title } = analysis.metadata;
+  const events = plan.flatMap(day => {
+    const chapters = day.chapters.map(i => analysis.chapterBreakdown[i]);
+    const more = chapters.length > 1 ? ` (+${chapters.length - 1} more)` : "";
+    return [
+      "BEGIN:VEVENT",
+      `UID:${uid}-${icsDate(day.date)}@deepread`,
+      `DTSTAMP:${icsTimestamp(now)}`,
+      `DTSTART;VALUE=DATE:${icsDate(day.date)}`,
+      `DTEND;VALUE=DATE:${icsDate(addDays(day.date, 1))}`,
+      `SUMMARY:${escapeText(`Read ${title}: ${chapters[0].title}${more} · ${formatMinutes(day.minutes)}`)}`,
+      `DESCRIPTION:${escapeText(
+        day.chapters.map(i => `${i + 1}. ${analysis.chapterBreakdown[i].title} (${formatMinutes(minutes[i])})`).join("\n")
+      )}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    ];
+  });
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//DeepRead//Reading Plan//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`Reading: ${title}`)}`,
+    ...events,
+    "END:VCALENDAR",
+  ].map(fold).join("\r\n") + "\r\n";
+};
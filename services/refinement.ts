@@ -0,0 +1,250 @@
+import { Type } from "@google/genai";
+import type { AnalysisData, AnalysisVersion, RefineAction, RefineFields, RefineTarget } from "../types";
+import type { ModelProvider } from "./providers";
+import type { ExtractedDocument } from "./extraction";
+import { generateJson } from "./validation";
+import { buildPassageIndex } from "./retrieval";
+import { conceptChapters } from "./conceptGraph";
+
+// --- Actions ---
+
+export const REFINE_ACTIONS: Record<RefineAction, { label: string; instruction: string }> = {
+  regenerate: {
+    label: "Regenerate",
+    instruction: "Write a fresh version, fixing anything inaccurate, vague or weak in the current one.",
+  },
+  deeper: {
+    label: "Go deeper",
+    instruction: "Go deeper: add the nuance, underlying reasoning and implications the current version leaves out.",
+  },
+  simplify: {
+    label: "Simplify",
+    instruction: "Simplify it for a newcomer: plain words, short sentences and no jargon, keeping the meaning intact.",
+  },
+  examples: {
+    label: "Give examples",
+    instruction: "Add concrete examples or illustrations, taken from the document wherever it offers them.",
+  },
+};
+
+// --- Targets ---
+
+const FIELDS: Record<RefineTarget["kind"], { key: string; label: string; description: string }[]> = {
+  chapter: [
+    { key: "summary", label: "Summary", description: "What the chapter covers and argues" },
+    { key: "insight", label: "Key insight", description: "One sentence critical takeaway" },
+  ],
+  concept: [{ key: "definition", label: "Definition", description: "What the concept means in this document" }],
+  summary: [{ key: "executiveSummary", label: "Executive summary", description: "Summary of the whole document" }],
+  report: [{
+    key: "fullMarkdownReport",
+    label: "Full report",
+    description: "A complete Markdown study note of the whole document, formatted with headers, lists, and bold text",
+  }],
+};
+
+export const fieldLabel = (target: RefineTarget, key: string) =>
+  FIELDS[target.kind].find(f => f.key === key)?.label ?? key;
+
+export const sameRefineTarget = (a: RefineTarget, b: RefineTarget) =>
+  a.kind === b.kind && ("index" in a ? "index" in b && a.index === b.index : true);
+
+export const refineTargetLabel = (analysis: AnalysisData, target: RefineTarget) => {
+  switch (target.kind) {
+    case "chapter":
+      return analysis.chapterBreakdown[target.index]?.title ?? `Section ${target.index + 1}`;
+    case "concept":
+      return analysis.keyConcepts[target.index]?.term ?? "Concept";
+    case "summary":
+      return "Executive Summary";
+    case "report":
+      return "Full Report";
+  }
+};
+
+export const currentFields = (analysis: AnalysisData, target: RefineTarget): RefineFields => {
+  switch (target.kind) {
+    case "chapter": {
+      const { summary, insight } = analysis.chapterBreakdown[target.index];
+      return { summary, insight };
+    }
+    case "concept":
+      return { definition: analysis.keyConcepts[target.index].definition };
+    case "summary":
+      return { executiveSummary: analysis.executiveSummary };
+    case "report":
+      return { fullMarkdownReport: analysis.fullMarkdownReport };
+  }
+};
+
+export const applyFields = (analysis: AnalysisData, target: RefineTarget, fields: RefineFields): AnalysisData => {
+  switch (target.kind) {
+    case "chapter":
+      return {
+        ...analysis,
+        chapterBreakdown: analysis.chapterBreakdown.map((ch, i) => (i === target.index ? { ...ch, ...fields } : ch)),
+      };
+    case "concept":
+      return {
+        ...analysis,
+        keyConcepts: analysis.keyConcepts.map((c, i) => (i === target.index ? { ...c, ...fields } : c)),
+      };
+    default:
+      return { ...analysis, ...fields };
+  }
+};
+
+// --- Model ---
+
+const PASSAGE_LIMIT = 4;
+
+const refineSchema = (target: RefineTarget) => ({
+  type: Type.OBJECT,
+  properties: Object.fromEntries(FIELDS[target.kind].map(f => [f.key, { type: Type.STRING, description: f.description }])),
+  required: FIELDS[target.kind].map(f => f.key),
+});
+
+// Only what the model needs for this one item: its current text, its neighbours in the analysis,
+// and for chapters and concepts the source passages that best match it.
+const refineContext = (analysis: AnalysisData, doc: ExtractedDocument | null, target: RefineTarget) => {
+  const passages = (query: string) => {
+    if (!doc) return "";
+    const hits = buildPassageIndex(doc).search(query, PASSAGE_LIMIT);
+    return hits.length ? `Relevant passages from the document:\n\n${hits.map(h => h.passage.text).join("\n\n---\n\n")}` : "";
+  };
+  switch (target.kind) {
+    case "chapter": {
+      const ch = analysis.chapterBreakdown[target.index];
+      return [
+        `Chapter: ${ch.title}`,
+        `Current summary: ${ch.summary}`,
+        `Current key insight: ${ch.insight}`,
+        passages(`${ch.title} ${ch.summary}`),
+      ];
+    }
+    case "concept": {
+      const c = analysis.keyConcepts[target.index];
+      const chapters = conceptChapters(analysis, target.index).map(i => analysis.chapterBreakdown[i]);
+      return [
+        `Concept: ${c.term}`,
+        `Current definition: ${c.definition}`,
+        chapters.length ? `Chapters that discuss it:\n${chapters.map(ch => `- ${ch.title}: ${ch.summary}`).join("\n")}` : "",
+        passages(`${c.term} ${c.definition}`),
+      ];
+    }
+    case "summary":
+      return [
+        `Current executive summary: ${analysis.executiveSummary}`,
+        `Chapters:\n${analysis.chapterBreakdown.map(ch => `- ${ch.title}: ${ch.summary}`).join("\n")}`,
+        `Key concepts: ${analysis.keyConcepts.map(c => c.term).join(", ")}`,
+      ];
+    case "report":
+      return [
+        `Executive summary: ${analysis.executiveSummary}`,
+        `Current report:\n\n${analysis.fullMarkdownReport}`,
+      ];
+  }
+};
+
+// Asks the model for a new version of one section; the rest of the analysis is left alone.
+export const refineSection = async (
+  provider: ModelProvider,
+  analysis: AnalysisData,
+  doc: ExtractedDocument | null,
+  target: RefineTarget,
+  action: RefineAction
+): Promise<RefineFields> => {
+  const { title, author } = analysis.metadata;
+  const fields = FIELDS[target.kind].map(f => f.key).join(" and ");
+  const prompt = [
+    `You are revising one part of a reading note on "${title}"${author ? ` by ${author}` : ""}.`,
+    `${REFINE_ACTIONS[action].instruction} Return only the revised ${fields}, in the same language as the current text.`,
+    ...refineContext(analysis, doc, target),
+  ].filter(Boolean).join("\n\n");
+  return generateJson<RefineFields>(provider, {
+    task: `refine-${target.kind}`,
+    parts: [{ text: prompt }],
+    schema: refineSchema(target),
+  });
+};
+
+// --- History ---
+
+export const createVersion = (
+  target: RefineTarget,
+  action: AnalysisVersion["action"],
+  before: RefineFields,
+  after: RefineFields
+): AnalysisVersion => ({ id: crypto.randomUUID(), target, action, before, after, createdAt: new Date().toISOString() });
+
+export const versionsFor = (versions: AnalysisVersion[], target: RefineTarget) =>
+  versions.filter(v => sameRefineTarget(v.target, target));
+
+// --- Diff ---
+
+export interface DiffPart {
+  kind: "same" | "added" | "removed";
+  text: string;
+}
+
+// Largest LCS table worth building.
+const MAX_CELLS = 4_000_000;
+
+const words = (text: string) => text.match(/\s+|\S+\s*/g) ?? [];
+const lines = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+
+// LCS diff of two token lists. When the changed middle is too big, `fallback` compares it more coarsely.
+const diffTokens = (a: string[], b: string[], fallback?: (before: string, after: string) => DiffPart[]): DiffPart[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+  const x = a.slice(start, a.length - end);
+  const y = b.slice(start, b.length - end);
+
+  const middle: DiffPart[] = [];
+  if ((x.length + 1) * (y.length + 1) > MAX_CELLS) {
+    middle.push(...(fallback?.(x.join(""), y.join("")) ?? [{ kind: "removed", text: x.join("") }, { kind: "added", text: y.join("") }]));
+  } else {
+    // lengths[i * (m + 1) + j] is the LCS length of x[i:] and y[j:].
+    const m = y.length;
+    const lengths = new Uint32Array((x.length + 1) * (m + 1));
+    for (let i = x.length - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = x[i] === y[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < x.length || j < m) {
+      if (i < x.length && j < m && x[i] === y[j]) {
+        middle.push({ kind: "same", text: x[i++] });
+        j++;
+      } else if (i < x.length && (j >= m || lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+        middle.push({ kind: "removed", text: x[i++] });
+      } else {
+        middle.push({ kind: "added", text: y[j++] });
+      }
+    }
+  }
+
+  const parts = [
+    { kind: "same" as const, text: a.slice(0, start).join("") },
+    ...middle,
+    { kind: "same" as const, text: a.slice(a.length - end).join("") },
+  ];
+  // Joins runs of the same kind so the view renders a handful of spans, not one per word.
+  return parts.reduce<DiffPart[]>((out, part) => {
+    if (!part.text) return out;
+    const last = out[out.length - 1];
+    if (last?.kind === part.kind) last.text += part.text;
+    else out.push({ ...part });
+    return out;
+  }, []);
+};
+
+// Word-level diff, falling back to lines where long texts such as the full report changed throughout.
+export const diffText = (before: string, after: string): DiffPart[] =>
+  diffTokens(words(before), words(after), (x, y) => diffTokens(lines(x), lines(y)));
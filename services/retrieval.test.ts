@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseMarkdown } from "./extraction";
+import { buildPassageIndex, tokenize } from "./retrieval";
+
+const doc = parseMarkdown(
+  [
+    "# Sleep",
+    "Sleep consolidates memory. During deep sleep the brain replays what was learned, and sleep loss hurts recall.",
+    "# Exercise",
+    "Exercise improves mood. A short walk also helps memory a little.",
+    "# Diet",
+    "A varied diet matters for energy across the day.",
+  ].join("\n\n"),
+  "notes.md",
+  "text/markdown"
+);
+
+test("tokens drop stopwords and split CJK text into bigrams", () => {
+  assert.deepEqual(tokenize("What is the role of Sleep in memory?"), ["role", "sleep", "memory"]);
+  assert.deepEqual(tokenize("記憶力"), ["記憶", "憶力"]);
+});
+
+test("passages are ranked by BM25 score and stay within their section", () => {
+  const index = buildPassageIndex(doc);
+  assert.deepEqual(index.passages.map(p => p.heading), ["Sleep", "Exercise", "Diet"]);
+
+  const hits = index.search("How does sleep affect memory?");
+  assert.deepEqual(hits.map(h => h.passage.heading), ["Sleep", "Exercise"]);
+  assert.ok(hits[0].score > hits[1].score);
+  assert.deepEqual(index.search("sleep memory", 1).map(h => h.passage.heading), ["Sleep"]);
+  assert.deepEqual(index.search("quantum chromodynamics"), []);
+});
@@ -0,0 +1,112 @@
+import type { ExtractedDocument, TextRange } from "./extraction";
+import { pageAt } from "./extraction";
+
+export interface Passage extends TextRange {
+  id: number;
+  text: string;
+  page?: number;
+  // Nearest heading before the passage, for context in prompts and citations.
+  heading?: string;
+}
+
+export interface SearchHit {
+  passage: Passage;
+  score: number;
+}
+
+export interface PassageIndex {
+  passages: Passage[];
+  search(query: string, limit?: number): SearchHit[];
+}
+
+const PASSAGE_CHARS = 1000;
+
+// BM25 tuning: term-frequency saturation and document-length normalisation.
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  "a an and are as at be but by for from has have how i if in into is it its of on or that the their then there these this to was were what when where which who why will with you your does do did can about".split(" ")
+);
+
+const CJK = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+
+// Words for alphabetic scripts; character bigrams for CJK, which has no spaces between words.
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    if (CJK.test(word)) {
+      if (word.length === 1) tokens.push(word);
+      for (let i = 0; i < word.length - 1; i++) tokens.push(word.slice(i, i + 2));
+    } else if (word.length > 1 && !STOPWORDS.has(word)) {
+      tokens.push(word);
+    }
+  }
+  return tokens;
+};
+
+// Groups paragraphs into passages of roughly PASSAGE_CHARS, never splitting a paragraph unless it alone is too long
+// and never crossing into a new section.
+const buildPassages = (doc: ExtractedDocument): Passage[] => {
+  const ranges: TextRange[] = doc.paragraphs.length ? doc.paragraphs : [{ start: 0, end: doc.text.length }];
+  const pieces = ranges.flatMap(r => {
+    const out: TextRange[] = [];
+    for (let start = r.start; start < r.end; start += PASSAGE_CHARS * 2) {
+      out.push({ start, end: Math.min(r.end, start + PASSAGE_CHARS * 2) });
+    }
+    return out;
+  });
+
+  const passages: Passage[] = [];
+  let current: TextRange | null = null;
+  const flush = () => {
+    if (!current) return;
+    const text = doc.text.slice(current.start, current.end).trim();
+    if (text) {
+      const heading = [...doc.headings].reverse().find(h => h.offset <= current!.start)?.title;
+      passages.push({ id: passages.length + 1, ...current, text, page: pageAt(doc, current.start), heading });
+    }
+    current = null;
+  };
+  const startsSection = (from: number, to: number) => doc.headings.some(h => h.offset > from && h.offset <= to);
+  for (const piece of pieces) {
+    if (current && (piece.end - current.start > PASSAGE_CHARS || startsSection(current.end, piece.start))) flush();
+    current = current ? { start: current.start, end: piece.end } : { ...piece };
+  }
+  flush();
+  return passages;
+};
+
+export const buildPassageIndex = (doc: ExtractedDocument): PassageIndex => {
+  const passages = buildPassages(doc);
+  const termFreqs = passages.map(p => {
+    const tf = new Map<string, number>();
+    for (const token of tokenize(`${p.heading ?? ""} ${p.text}`)) tf.set(token, (tf.get(token) ?? 0) + 1);
+    return tf;
+  });
+  const lengths = termFreqs.map(tf => [...tf.values()].reduce((a, b) => a + b, 0));
+  const avgLength = lengths.reduce((a, b) => a + b, 0) / (lengths.length || 1) || 1;
+  const docFreq = new Map<string, number>();
+  for (const tf of termFreqs) for (const token of tf.keys()) docFreq.set(token, (docFreq.get(token) ?? 0) + 1);
+
+  const search = (query: string, limit = 6): SearchHit[] => {
+    const terms = [...new Set(tokenize(query))];
+    return passages
+      .map((passage, i) => {
+        let score = 0;
+        for (const term of terms) {
+          const tf = termFreqs[i].get(term);
+          if (!tf) continue;
+          const df = docFreq.get(term)!;
+          const idf = Math.log(1 + (passages.length - df + 0.5) / (df + 0.5));
+          score += idf * ((tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * lengths[i]) / avgLength)));
+        }
+        return { passage, score };
+      })
+      .filter(hit => hit.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  };
+
+  return { passages, search };
+};
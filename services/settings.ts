@@ -0,0 +1,24 @@
+import { PROVIDER_OPTIONS, type ProviderSettings } from "./providers";
+
+const STORAGE_KEY = "deepread.providerSettings";
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: "server",
+  apiKey: "",
+  ...PROVIDER_OPTIONS[0].defaults,
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const settings: ProviderSettings = stored ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PROVIDER_SETTINGS;
+    // Gemini without a key of its own used the bundled key, which now lives on the server.
+    return settings.provider === "gemini" && !settings.apiKey ? DEFAULT_PROVIDER_SETTINGS : settings;
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
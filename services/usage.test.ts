@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createApp } from "../server/app";
+import { PROVIDER_OPTIONS, createMockProvider, resolveModel, type ProviderSettings } from "./providers";
+import { parseMarkdown } from "./extraction";
+import { chunkDocument } from "./chunking";
+import { estimateAnalysis } from "./usage";
+
+test("estimates with the server provider price the server's own model", async () => {
+  const upstream: ProviderSettings = { provider: "gemini", model: "gemini-2.5-flash", endpoint: "", apiKey: "" };
+  const app = createApp(
+    { port: 0, upstream, models: [upstream.model], rateLimit: 10, maxBodyBytes: 1_000_000, trustProxy: false, allowedOrigins: [], staticDir: "" },
+    { providerFor: model => createMockProvider({ ...upstream, model }), log: () => {} }
+  );
+  const server = createServer(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  try {
+    const { port } = server.address() as AddressInfo;
+    const defaults = PROVIDER_OPTIONS.find(o => o.id === "server")!.defaults;
+    const settings: ProviderSettings = { provider: "server", ...defaults, endpoint: `http://127.0.0.1:${port}/api`, apiKey: "" };
+    assert.equal(settings.model, "");
+
+    const source = { name: "notes.md", mimeType: "text/markdown", bytes: new TextEncoder().encode("# Notes\n\nSome text.") };
+    const doc = parseMarkdown("# Notes\n\nSome text.", source.name, source.mimeType);
+    const estimate = estimateAnalysis(doc, chunkDocument(doc, source), await resolveModel(settings));
+    assert.equal(await resolveModel(settings), "gemini-2.5-flash");
+    assert.ok(estimate.cost !== null && estimate.cost > 0);
+  } finally {
+    server.close();
+  }
+});
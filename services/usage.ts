@@ -0,0 +1,187 @@
+import type { TokenUsage, UsageRecord } from "../types";
+import type { ContentPart, ModelProvider, ModelRequest, ReportedUsage } from "./providers";
+import type { ExtractedDocument } from "./extraction";
+import type { DocumentChunk } from "./chunking";
+
+// --- Pricing ---
+
+// USD per million tokens, matched by model name prefix. Prices change; these are list prices for
+// standard (non-batch) calls and only feed estimates.
+const PRICES: { prefix: string; input: number; output: number }[] = [
+  { prefix: "gemini-2.5-flash-lite", input: 0.1, output: 0.4 },
+  { prefix: "gemini-2.5-flash", input: 0.3, output: 2.5 },
+  { prefix: "gemini-2.5-pro", input: 1.25, output: 10 },
+  { prefix: "gemini-2.0-flash-lite", input: 0.075, output: 0.3 },
+  { prefix: "gemini-2.0-flash", input: 0.1, output: 0.4 },
+  { prefix: "gpt-4o-mini", input: 0.15, output: 0.6 },
+  { prefix: "gpt-4o", input: 2.5, output: 10 },
+  { prefix: "gpt-4.1-nano", input: 0.1, output: 0.4 },
+  { prefix: "gpt-4.1-mini", input: 0.4, output: 1.6 },
+  { prefix: "gpt-4.1", input: 2, output: 8 },
+  { prefix: "fixture", input: 0, output: 0 },
+];
+
+// Longest matching prefix, so "gemini-2.5-flash-lite" is not priced as "gemini-2.5-flash".
+const priceFor = (model: string) =>
+  PRICES.filter(p => model.toLowerCase().startsWith(p.prefix)).sort((a, b) => b.prefix.length - a.prefix.length)[0];
+
+// Null when the model's price is unknown, e.g. for local models.
+export const costOf = (model: string, { inputTokens, outputTokens }: TokenUsage): number | null => {
+  const price = priceFor(model);
+  return price ? (inputTokens * price.input + outputTokens * price.output) / 1_000_000 : null;
+};
+
+// --- Estimates ---
+
+const CHARS_PER_TOKEN = 4;
+// Gemini bills each PDF page as an image of this many tokens.
+const PDF_PAGE_TOKENS = 258;
+// Instructions and schema sent with every analysis call.
+const PROMPT_TOKENS = 1_500;
+// Typical size of one part's analysis, and of the merged summary and report.
+const CHUNK_OUTPUT_TOKENS = 3_000;
+const REDUCE_OUTPUT_TOKENS = 2_500;
+
+// Above this many input tokens, the app asks before analyzing.
+export const LARGE_ANALYSIS_TOKENS = 100_000;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const partTokens = (part: ContentPart) =>
+  "text" in part ? estimateTokens(part.text) : Math.ceil((part.inlineData.data.length * 3) / 4 / CHARS_PER_TOKEN);
+
+export interface AnalysisEstimate extends TokenUsage {
+  calls: number;
+  cost: number | null;
+}
+
+// What analyzing a document will roughly take: one call per part, plus one to merge them.
+export const estimateAnalysis = (doc: ExtractedDocument, chunks: DocumentChunk[], model: string): AnalysisEstimate => {
+  const chunkInput = chunks.reduce((sum, chunk) => {
+    const content = "text" in chunk.content
+      ? estimateTokens(chunk.content.text)
+      : Math.max(doc.pages.length, 1) * PDF_PAGE_TOKENS;
+    return sum + content + PROMPT_TOKENS;
+  }, 0);
+  const merged = chunks.length > 1;
+  const usage = {
+    inputTokens: chunkInput + (merged ? chunks.length * CHUNK_OUTPUT_TOKENS + PROMPT_TOKENS : 0),
+    outputTokens: chunks.length * CHUNK_OUTPUT_TOKENS + (merged ? REDUCE_OUTPUT_TOKENS : 0),
+  };
+  return { ...usage, calls: chunks.length + (merged ? 1 : 0), cost: costOf(model, usage) };
+};
+
+// --- Tracking ---
+
+// Reports every call the provider makes. Providers that do not count tokens get an estimate from the text.
+export const trackUsage = (provider: ModelProvider, onRecord: (record: UsageRecord) => void): ModelProvider => {
+  const track = (request: ModelRequest) => {
+    const started = Date.now();
+    let reported: ReportedUsage | null = null;
+    return {
+      request: {
+        ...request,
+        onUsage: (usage: ReportedUsage) => {
+          reported = usage;
+          request.onUsage?.(usage);
+        },
+      },
+      done: (text: string) => {
+        const usage = reported ?? {
+          inputTokens: request.parts.reduce((sum, part) => sum + partTokens(part), 0),
+          outputTokens: estimateTokens(text),
+        };
+        onRecord({
+          task: request.task,
+          provider: provider.id,
+          model: reported?.model || provider.model,
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          latencyMs: Date.now() - started,
+          at: new Date().toISOString(),
+          ...(reported?.cached ? { cached: true } : {}),
+          ...(reported ? {} : { estimated: true }),
+        });
+      },
+    };
+  };
+
+  return {
+    id: provider.id,
+    model: provider.model,
+    async generate(request) {
+      const call = track(request);
+      const response = await provider.generate(call.request);
+      call.done(response.text);
+      return response;
+    },
+    async *generateStream(request) {
+      const call = track(request);
+      let text = "";
+      for await (const piece of provider.generateStream(call.request)) {
+        text += piece;
+        yield piece;
+      }
+      call.done(text);
+    },
+  };
+};
+
+// --- Summaries ---
+
+export interface UsageSummary extends TokenUsage {
+  calls: number;
+  cachedCalls: number;
+  // Spent on calls the model answered; null when some model's price is unknown.
+  cost: number | null;
+  // What the cached calls would have cost.
+  saved: number;
+  latencyMs: number;
+  estimated: boolean;
+}
+
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => {
+  const paid = records.filter(r => !r.cached);
+  const costs = paid.map(r => costOf(r.model, r));
+  return {
+    calls: records.length,
+    cachedCalls: records.length - paid.length,
+    inputTokens: paid.reduce((sum, r) => sum + r.inputTokens, 0),
+    outputTokens: paid.reduce((sum, r) => sum + r.outputTokens, 0),
+    cost: costs.every(c => c !== null) ? (costs as number[]).reduce((sum, c) => sum + c, 0) : null,
+    saved: records.filter(r => r.cached).reduce((sum, r) => sum + (costOf(r.model, r) ?? 0), 0),
+    latencyMs: paid.reduce((sum, r) => sum + r.latencyMs, 0),
+    estimated: paid.some(r => r.estimated),
+  };
+};
+
+// Usage grouped by a key such as the model or the task, largest spend first.
+export const groupUsage = (records: UsageRecord[], key: (record: UsageRecord) => string) => {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) groups.set(key(record), [...(groups.get(key(record)) ?? []), record]);
+  return [...groups].map(([name, group]) => ({ name, ...summarizeUsage(group) }))
+    .sort((a, b) => (b.cost ?? 0) - (a.cost ?? 0) || b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens));
+};
+
+export const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1_000 ? `${(tokens / 1_000).toFixed(1)}k` : String(tokens);
+
+export const formatCost = (cost: number | null) =>
+  cost === null ? "unknown" : cost === 0 ? "$0" : cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+
+// --- Calls outside a document ---
+
+// Comparisons and other calls made with no document open.
+const OTHER_KEY = "deepread.otherUsage";
+const MAX_OTHER_RECORDS = 1_000;
+
+export const loadOtherUsage = (): UsageRecord[] => {
+  try {
+    return JSON.parse(localStorage.getItem(OTHER_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+};
+
+export const recordOtherUsage = (record: UsageRecord) =>
+  localStorage.setItem(OTHER_KEY, JSON.stringify([...loadOtherUsage(), record].slice(-MAX_OTHER_RECORDS)));
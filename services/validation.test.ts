@@ -0,0 +1,17 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { repairJson } from "./validation";
+
+const repaired = (text: string) => JSON.parse(repairJson(text)!);
+
+test("closes a string cut off after an escaped backslash", () => {
+  assert.deepEqual(repaired('{"a": "x\\\\'), { a: "x\\" });
+  assert.deepEqual(repaired('{"a": "x\\\\\\\\'), { a: "x\\\\" });
+});
+
+test("drops a dangling escape at the end of a cut-off string", () => {
+  assert.deepEqual(repaired('{"a": "x\\'), { a: "x" });
+  assert.deepEqual(repaired('{"a": "x\\\\\\'), { a: "x\\" });
+  assert.deepEqual(repaired('{"a": "x\\u00'), { a: "x" });
+  assert.deepEqual(repaired('{"a": "x\\\\u00'), { a: "x\\u00" });
+});
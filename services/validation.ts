@@ -0,0 +1,303 @@
+import { Type } from "@google/genai";
+import type { ModelProvider, ModelRequest } from "./providers";
+import { ModelError } from "./errors";
+
+// Subset of the @google/genai schema vocabulary used by this app's response schemas.
+interface Schema {
+  type?: string;
+  properties?: Record<string, Schema>;
+  required?: string[];
+  items?: Schema;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+// --- JSON repair ---
+
+type Token = { kind: "punct" | "string" | "literal"; text: string; complete: boolean };
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const c = text[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if ("{}[]:,".includes(c)) {
+      tokens.push({ kind: "punct", text: c, complete: true });
+      i++;
+    } else if (c === '"') {
+      let j = i + 1;
+      while (j < text.length && text[j] !== '"') j += text[j] === "\\" ? 2 : 1;
+      if (j < text.length) {
+        tokens.push({ kind: "string", text: text.slice(i, j + 1), complete: true });
+      } else {
+        // Drop a dangling escape so the string can be closed; an even run of backslashes is complete escapes.
+        const body = text
+          .slice(i)
+          .replace(/(\\+)(u[0-9a-fA-F]{0,3})?$/, (match, slashes: string) => (slashes.length % 2 ? slashes.slice(1) : match));
+        tokens.push({ kind: "string", text: body, complete: false });
+      }
+      i = j + 1;
+    } else {
+      const literal = text.slice(i).match(/^[^\s{}[\]:,"]+/)![0];
+      const complete = /^(true|false|null|-?\d+(\.\d+)?([eE][+-]?\d+)?)$/.test(literal) && i + literal.length < text.length;
+      tokens.push({ kind: "literal", text: literal, complete });
+      i += literal.length;
+    }
+  }
+  return tokens;
+};
+
+// Cuts truncated JSON back to its last complete value and closes whatever is still open.
+// A string cut off mid-value is kept and closed, since long prose fields are usually what gets truncated.
+export const repairJson = (text: string): string | null => {
+  const start = text.search(/[{[]/);
+  if (start < 0) return null;
+
+  const out: string[] = [];
+  // Each frame is an open container and what it expects next.
+  const stack: { close: "}" | "]"; expect: "key" | "colon" | "value" | "comma" }[] = [];
+  // Longest prefix of `out` that is complete once the containers open at that point are closed.
+  let validLength = 0;
+  let validClosers = "";
+  const checkpoint = () => {
+    const top = stack[stack.length - 1];
+    const last = out[out.length - 1];
+    if (!top || top.expect === "comma" || last === "{" || last === "[") {
+      validLength = out.length;
+      validClosers = stack.map(f => f.close).reverse().join("");
+    }
+  };
+  const valueDone = () => {
+    const top = stack[stack.length - 1];
+    if (top) top.expect = "comma";
+  };
+
+  for (const token of tokenize(text.slice(start))) {
+    const top = stack[stack.length - 1];
+    if (stack.length === 0 && out.length) break;
+
+    if (token.kind === "punct") {
+      const t = token.text;
+      if (t === "{" || t === "[") {
+        if (top && top.expect !== "value") break;
+        out.push(t);
+        stack.push({ close: t === "{" ? "}" : "]", expect: t === "{" ? "key" : "value" });
+      } else if (t === "}" || t === "]") {
+        if (!top || top.close !== t) break;
+        out.push(t);
+        stack.pop();
+        valueDone();
+      } else if (t === ":") {
+        if (top?.expect !== "colon") break;
+        out.push(t);
+        top.expect = "value";
+      } else {
+        if (top?.expect !== "comma") break;
+        out.push(t);
+        top.expect = top.close === "}" ? "key" : "value";
+      }
+    } else if (token.kind === "string") {
+      if (top?.expect === "key" && token.complete) {
+        out.push(token.text);
+        top.expect = "colon";
+      } else if (top?.expect === "value") {
+        out.push(token.complete ? token.text : `${token.text}"`);
+        valueDone();
+      } else {
+        break;
+      }
+    } else {
+      if (top?.expect !== "value" || !token.complete) break;
+      out.push(token.text);
+      valueDone();
+    }
+    checkpoint();
+  }
+
+  return validLength ? out.slice(0, validLength).join("") + validClosers : null;
+};
+
+const stripFences = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+
+// Parses model output as JSON, repairing truncated responses where possible.
+export const parseModelJson = (text: string): { value: unknown; repaired: boolean } => {
+  const cleaned = stripFences(text);
+  try {
+    return { value: JSON.parse(cleaned), repaired: false };
+  } catch {
+    const repaired = repairJson(cleaned);
+    if (repaired) {
+      try {
+        return { value: JSON.parse(repaired), repaired: true };
+      } catch {
+        // Fall through to the error below.
+      }
+    }
+    throw new ModelError("invalid-output", "The model's response is not valid JSON.");
+  }
+};
+
+// --- Schema conformance ---
+
+const clamp = (n: number, { minimum, maximum }: Schema) =>
+  Math.min(maximum ?? Infinity, Math.max(minimum ?? -Infinity, n));
+
+// Coerces `value` towards `schema`: numbers are parsed and clamped, unknown keys dropped, and
+// array items or optional fields that cannot be fixed are left out. Anything that makes the whole
+// value unusable is reported in `issues`.
+const conform = (value: unknown, schema: Schema, path: string, issues: string[]): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        issues.push(`${path} should be an object`);
+        return undefined;
+      }
+      const out: Record<string, unknown> = {};
+      for (const [key, prop] of Object.entries(schema.properties ?? {})) {
+        const child = (value as Record<string, unknown>)[key];
+        const childPath = path ? `${path}.${key}` : key;
+        const required = !!schema.required?.includes(key);
+        if (child === undefined || child === null) {
+          if (required) issues.push(`${childPath} is missing`);
+          continue;
+        }
+        // A broken optional field is dropped rather than failing its parent.
+        const childIssues: string[] = [];
+        const conformed = conform(child, prop, childPath, childIssues);
+        if (required) issues.push(...childIssues);
+        if (conformed !== undefined && (required || !childIssues.length)) out[key] = conformed;
+      }
+      return out;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) {
+        issues.push(`${path} should be an array`);
+        return undefined;
+      }
+      const items = value.flatMap(item => {
+        const itemIssues: string[] = [];
+        const conformed = conform(item, schema.items ?? {}, `${path}[]`, itemIssues);
+        return itemIssues.length ? [] : [conformed];
+      });
+      const { minItems = 0, maxItems = Infinity } = schema;
+      const exact = minItems === maxItems ? "" : null;
+      if (value.length && !items.length) issues.push(`${path} has no valid items`);
+      else if (items.length < minItems) issues.push(`${path} should have ${exact ?? "at least "}${minItems} valid items, not ${items.length}`);
+      else if (items.length > maxItems) issues.push(`${path} should have ${exact ?? "at most "}${maxItems} items, not ${items.length}`);
+      return items;
+    }
+    case Type.STRING: {
+      if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+        issues.push(`${path} should be a string`);
+        return undefined;
+      }
+      const text = String(value);
+      if (!schema.enum) return text;
+      const match = schema.enum.find(e => e.toLowerCase() === text.trim().toLowerCase());
+      if (!match) issues.push(`${path} should be one of ${schema.enum.join(", ")}`);
+      return match;
+    }
+    case Type.INTEGER:
+    case Type.NUMBER: {
+      const n = typeof value === "number" ? value : typeof value === "string" ? parseFloat(value) : NaN;
+      if (!Number.isFinite(n)) {
+        issues.push(`${path} should be a number`);
+        return undefined;
+      }
+      return clamp(schema.type === Type.INTEGER ? Math.round(n) : n, schema);
+    }
+    case Type.BOOLEAN:
+      if (typeof value === "boolean") return value;
+      if (value === "true" || value === "false") return value === "true";
+      issues.push(`${path} should be true or false`);
+      return undefined;
+    default:
+      return value;
+  }
+};
+
+export const validateResponse = (value: unknown, schema: Record<string, unknown>) => {
+  const issues: string[] = [];
+  const conformed = conform(value, schema as Schema, "", issues);
+  return { value: conformed, issues };
+};
+
+// --- Structured generation ---
+
+const MAX_REPORTED_ISSUES = 8;
+
+const correctionPrompt = (issues: string[]) =>
+  "Your previous response could not be used because " +
+  `${issues.slice(0, MAX_REPORTED_ISSUES).join("; ")}. ` +
+  "Respond again with the complete JSON object, including every required field, and nothing else.";
+
+type JsonRequest = ModelRequest & { schema: Record<string, unknown> };
+
+const requestJson = async <T>(
+  request: JsonRequest,
+  maxAttempts: number,
+  respond: (request: ModelRequest) => Promise<string>
+): Promise<T> => {
+  let parts = request.parts;
+  for (let attempt = 1; ; attempt++) {
+    const text = await respond({ ...request, parts });
+    let issues: string[];
+    try {
+      const checked = validateResponse(parseModelJson(text).value, request.schema);
+      if (!checked.issues.length) return checked.value as T;
+      issues = checked.issues;
+    } catch (err) {
+      if (!(err instanceof ModelError)) throw err;
+      issues = ["it was not valid JSON"];
+    }
+    if (attempt >= maxAttempts) {
+      throw new ModelError("invalid-output", `The model's response was incomplete: ${issues.slice(0, 3).join("; ")}.`);
+    }
+    parts = [...request.parts, { text: correctionPrompt(issues) }];
+  }
+};
+
+// Requests JSON matching `request.schema`, repairing truncated output and asking again
+// with the problems spelled out when required fields are missing or malformed.
+export const generateJson = <T>(provider: ModelProvider, request: JsonRequest, { maxAttempts = 2 } = {}): Promise<T> =>
+  requestJson<T>(request, maxAttempts, async r => (await provider.generate(r)).text);
+
+// --- Streaming ---
+
+// Whatever can be read from a response that is still arriving, or undefined when nothing can yet.
+export const parsePartialJson = (text: string): unknown => {
+  try {
+    return parseModelJson(text).value;
+  } catch {
+    return undefined;
+  }
+};
+
+// Re-parsing the whole response on every piece is quadratic, so partial updates are throttled.
+const PARTIAL_INTERVAL_MS = 200;
+
+// Like generateJson, but streams each attempt and reports the object as it takes shape.
+// Partial values are unvalidated: fields may be missing and the last string may be cut off.
+export const streamJson = <T>(
+  provider: ModelProvider,
+  request: JsonRequest,
+  onPartial: (partial: unknown) => void,
+  { maxAttempts = 2 } = {}
+): Promise<T> =>
+  requestJson<T>(request, maxAttempts, async r => {
+    let text = "";
+    let reportedAt = 0;
+    for await (const piece of provider.generateStream(r)) {
+      text += piece;
+      if (Date.now() - reportedAt < PARTIAL_INTERVAL_MS) continue;
+      reportedAt = Date.now();
+      const partial = parsePartialJson(text);
+      if (partial !== undefined) onPartial(partial);
+    }
+    return text;
+  });
@@ -0,0 +1,260 @@
+// --- Analysis ---
+
+// Where a claim comes from in the source document.
+export interface SourceAnchor {
+  // Verbatim excerpt quoted by the model.
+  quote: string;
+  page?: number;
+  // Character range in the extracted text, set only when the quote was found there.
+  start?: number;
+  end?: number;
+  verified?: boolean;
+}
+
+export interface AnalysisData {
+  metadata: {
+    title: string;
+    author: string;
+    genre: string;
+    readingTime: string;
+    // Language the document itself is written in, as detected by the model.
+    language?: string;
+    // Measured from the extracted text rather than estimated by the model.
+    pageCount?: number;
+    wordCount?: number;
+  };
+  executiveSummary: string;
+  keyConcepts: {
+    term: string;
+    definition: string;
+    importance: number; // 1-100
+    source?: SourceAnchor;
+    // The term as the document writes it, when the notes are in another language.
+    originalTerm?: string;
+    // Titles of the chapters in chapterBreakdown that discuss the concept.
+    chapters?: string[];
+  }[];
+  chapterBreakdown: {
+    title: string;
+    summary: string;
+    insight: string;
+    summarySource?: SourceAnchor;
+    insightSource?: SourceAnchor;
+  }[];
+  topicStats: {
+    topic: string;
+    relevance: number; // 1-100
+  }[];
+  fullMarkdownReport: string;
+  conceptRelations?: ConceptRelation[];
+  // Language the notes were written in when one was chosen; otherwise the document's own.
+  language?: string;
+  // Set when a profile other than the general one shaped the analysis.
+  profile?: ProfileSnapshot;
+  // Values for the profile's fields, keyed by ProfileField.key.
+  profileData?: Record<string, ProfileValue>;
+}
+
+export type ConceptRelationType = "depends_on" | "contrasts_with" | "example_of";
+
+// A typed link between two key concepts, referred to by term.
+export interface ConceptRelation {
+  from: string;
+  to: string;
+  type: ConceptRelationType;
+}
+
+// --- Profiles ---
+
+export type ProfileFieldKind = "text" | "list";
+
+export interface ProfileField {
+  // Property name in profileData, e.g. "methodology".
+  key: string;
+  // Dashboard tab title.
+  label: string;
+  // Tells the model what belongs in this field.
+  instructions: string;
+  kind: ProfileFieldKind;
+  // Name of the short tag on each list item, e.g. "Role" or "Deadline".
+  tagLabel?: string;
+}
+
+export interface AnalysisProfile {
+  id: string;
+  name: string;
+  description: string;
+  // Extra guidance appended to the analysis prompt.
+  prompt: string;
+  fields: ProfileField[];
+  builtIn?: boolean;
+}
+
+// Stored with each analysis so it still renders after the profile is edited or deleted.
+export type ProfileSnapshot = Pick<AnalysisProfile, "id" | "name" | "fields">;
+
+export interface ProfileItem {
+  title: string;
+  detail: string;
+  tag?: string;
+}
+
+export type ProfileValue = string | ProfileItem[];
+
+// --- Annotations ---
+
+// What a note is attached to. Report spans are located by their text, since the report has no stable ids.
+export type AnnotationTarget =
+  | { kind: "chapter"; index: number }
+  | { kind: "concept"; term: string }
+  | { kind: "report"; quote: string; occurrence: number };
+
+export type HighlightColor = "yellow" | "green" | "blue" | "pink";
+
+export type AnnotationFlag = "important" | "disagree";
+
+export interface Annotation {
+  id: string;
+  target: AnnotationTarget;
+  highlight?: HighlightColor;
+  flag?: AnnotationFlag;
+  comment?: string;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A concept the reader added alongside the model's keyConcepts.
+export interface UserConcept {
+  id: string;
+  term: string;
+  definition: string;
+  tags: string[];
+  createdAt: string;
+}
+
+export interface UserNotes {
+  annotations: Annotation[];
+  concepts: UserConcept[];
+}
+
+// --- Refinement ---
+
+export type RefineAction = "regenerate" | "deeper" | "simplify" | "examples";
+
+// The part of an analysis a refinement rewrites.
+export type RefineTarget =
+  | { kind: "chapter"; index: number }
+  | { kind: "concept"; index: number }
+  | { kind: "summary" }
+  | { kind: "report" };
+
+// Rewritable text fields of a target, e.g. { summary, insight } for a chapter.
+export type RefineFields = Record<string, string>;
+
+export interface AnalysisVersion {
+  id: string;
+  target: RefineTarget;
+  action: RefineAction | "revert";
+  before: RefineFields;
+  after: RefineFields;
+  createdAt: string;
+}
+
+// --- Ask ---
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+  // Passages retrieved for an assistant answer, numbered as the model saw them.
+  sources?: SourceAnchor[];
+  createdAt: string;
+}
+
+// --- Flashcards ---
+
+export type FlashcardKind = "concept" | "insight" | "cloze" | "qa";
+
+// 0-5 recall quality as defined by SM-2; 3 and above counts as remembered.
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewLog {
+  reviewedAt: string;
+  grade: ReviewGrade;
+  // Interval in days scheduled by this review.
+  interval: number;
+}
+
+export interface Flashcard {
+  id: string;
+  kind: FlashcardKind;
+  front: string;
+  back: string;
+  importance: number; // 1-100
+  source?: SourceAnchor;
+  // SM-2 scheduling state.
+  ease: number;
+  interval: number;
+  repetitions: number;
+  // Unset until the card is first studied.
+  due?: string;
+  history: ReviewLog[];
+}
+
+// --- Comparison ---
+
+export interface SynthesisClaim {
+  claim: string;
+  // 1-based positions of the supporting documents in the comparison.
+  sources: number[];
+}
+
+export interface SynthesisResult {
+  overview: string;
+  agreements: SynthesisClaim[];
+  contradictions: {
+    topic: string;
+    positions: { source: number; position: string }[];
+  }[];
+  gaps: SynthesisClaim[];
+}
+
+// --- Usage ---
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// One model call, as recorded for the document it was made for.
+export interface UsageRecord extends TokenUsage {
+  task: string;
+  provider: string;
+  model: string;
+  latencyMs: number;
+  at: string;
+  // Answered from the response cache; the tokens are those of the call that filled it.
+  cached?: boolean;
+  // Counted from the text length because the provider reported no usage.
+  estimated?: boolean;
+}
+
+// --- Reading Plan ---
+
+// A chapter the reader marked as read, by its index in chapterBreakdown.
+export interface ChapterRead {
+  chapter: number;
+  at: string;
+}
+
+export interface ReadingProgress {
+  read: ChapterRead[];
+  // Local calendar day (YYYY-MM-DD) to finish by; the plan is laid out from today up to it.
+  targetDate?: string;
+}
+
+// --- UI ---
+
+export type ViewState = "upload" | "processing" | "dashboard" | "library" | "compare";
+// Profile tabs are "profile:<field key>".
+export type DashboardTab = "overview" | "concepts" | "visuals" | "full-report" | "ask" | "flashcards" | "notes" | `profile:${string}`;